@@ -0,0 +1,248 @@
+import { Response } from 'express';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { AuthenticatedRequest, AppError, Plan } from '../types';
+import planService from '../services/planService';
+import reconcileService from '../services/reconcileService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// 既定のプランは1つだけにする
+const clearDefaultPlan = async (exceptId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('nextdock_plans')
+    .update({ is_default: false })
+    .eq('is_default', true)
+    .neq('id', exceptId);
+
+  if (error) throw error;
+};
+
+// プラン一覧を取得
+export const getPlans = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { data: plans, error } = await supabase
+      .from('nextdock_plans')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    res.status(200).json({
+      plans: plans || [],
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch plans',
+    });
+  }
+};
+
+// プランを作成
+export const createPlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const fields = planService.parsePlan(req.body);
+    const id = uuidv4();
+
+    const { data: plan, error } = await supabase
+      .from('nextdock_plans')
+      .insert([
+        {
+          id,
+          max_memory_mb: null,
+          max_cpus: null,
+          max_pids: null,
+          is_default: false,
+          ...fields,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (plan.is_default) await clearDefaultPlan(id);
+
+    res.status(201).json({
+      message: 'Plan created successfully',
+      plan: plan as Plan,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to create plan',
+    });
+  }
+};
+
+// プランを更新
+// 上限を下げても既存のアプリの設定は変更せず、次回のデプロイから上限に合わせて適用される
+export const updatePlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const fields = planService.parsePlan(req.body, true);
+
+    const { data: plan, error } = await supabase
+      .from('nextdock_plans')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!plan) throw new AppError('Plan not found', 404);
+    if (plan.is_default) await clearDefaultPlan(id);
+
+    res.status(200).json({
+      message: 'Plan updated successfully',
+      plan: plan as Plan,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to update plan',
+    });
+  }
+};
+
+// プランを削除
+// 割り当てられていたユーザーには既定のプランが適用される
+export const deletePlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { error: unassignError } = await supabase
+      .from('nextdock_users')
+      .update({ plan_id: null })
+      .eq('plan_id', id);
+
+    if (unassignError) throw unassignError;
+
+    const { error } = await supabase
+      .from('nextdock_plans')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    res.status(200).json({
+      message: 'Plan deleted successfully',
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to delete plan',
+    });
+  }
+};
+
+// ユーザーにプランを割り当てる（nullで既定のプランに戻す）
+export const assignUserPlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { planId } = req.body;
+
+  try {
+    if (planId) {
+      const { data: plan, error: planError } = await supabase
+        .from('nextdock_plans')
+        .select('id')
+        .eq('id', planId)
+        .maybeSingle();
+
+      if (planError) throw planError;
+      if (!plan) throw new AppError('Plan not found', 404);
+    }
+
+    const { data: user, error } = await supabase
+      .from('nextdock_users')
+      .update({ plan_id: planId || null })
+      .eq('id', id)
+      .select('id, email, name, role, plan_id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!user) throw new AppError('User not found', 404);
+
+    res.status(200).json({
+      message: 'Plan assigned successfully',
+      user,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to assign plan',
+    });
+  }
+};
+
+// 対応するアプリがないコンテナの一覧を取得
+export const getOrphans = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      orphans: await reconcileService.getOrphanContainers(),
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch orphaned containers',
+    });
+  }
+};
+
+// 対応するアプリがないコンテナを削除
+export const deleteOrphan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { containerId } = req.params;
+
+  try {
+    const orphans = await reconcileService.getOrphanContainers();
+    if (!orphans.some(orphan => orphan.container_id === containerId)) {
+      throw new AppError('Orphaned container not found', 404);
+    }
+
+    await reconcileService.removeOrphanContainer(containerId);
+
+    res.status(200).json({
+      message: 'Orphaned container removed successfully',
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to remove orphaned container',
+    });
+  }
+};
+
+// コンテナの状態をすぐに突き合わせる
+export const reconcile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const result = await reconcileService.reconcileApps();
+
+    res.status(200).json({
+      message: 'Reconciled successfully',
+      ...result,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to reconcile containers',
+    });
+  }
+};
+
+export default {
+  getPlans,
+  createPlan,
+  updatePlan,
+  deletePlan,
+  assignUserPlan,
+  getOrphans,
+  deleteOrphan,
+  reconcile,
+};
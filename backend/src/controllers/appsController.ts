@@ -2,9 +2,20 @@ import { Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
-import { AuthenticatedRequest, App, EnvVar, AppError } from '../types';
+import { AuthenticatedRequest, App, Deploy, EnvVar, AppError, ContainerLogOptions, ContainerLogLine } from '../types';
 import dockerService from '../services/dockerService';
 import githubService from '../services/githubService';
+import webhookService from '../services/webhookService';
+import healthCheckService from '../services/healthCheckService';
+import planService from '../services/planService';
+import replicaService from '../services/replicaService';
+import nodeVersionService from '../services/nodeVersionService';
+import buildPathService from '../services/buildPathService';
+import buildStrategyService from '../services/buildStrategyService';
+import environmentService from '../services/environmentService';
+import secretsService from '../services/secretsService';
+import deployQueue from '../services/deployQueue';
+import deployImageService from '../services/deployImageService';
 
 dotenv.config();
 
@@ -13,6 +24,72 @@ const supabaseUrl = process.env.SUPABASE_URL || '';
 const supabaseKey = process.env.SUPABASE_KEY || '';
 const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
 
+// レスポンスから秘密情報（Webhookシークレット、デプロイキーの秘密鍵）を取り除く
+// Webhookシークレットは専用のエンドポイントでのみ返す
+const toPublicApp = ({ webhook_secret, deploy_key_private, ...app }: App): Omit<App, 'webhook_secret' | 'deploy_key_private'> => app;
+
+// ログストリームの接続を維持するためのコメントを送る間隔
+const LOG_STREAM_HEARTBEAT = 15000;
+
+// sinceパラメータをUNIXタイムスタンプ（秒）に変換
+// UNIXタイムスタンプ、ISO 8601形式の日時、相対時間（30s, 10m, 2h, 1d）を受け付ける
+const parseSince = (value: string): number => {
+  const relative = value.match(/^(\d+)(s|m|h|d)$/);
+  if (relative) {
+    const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+    return Math.floor(Date.now() / 1000) - parseInt(relative[1]) * units[relative[2]];
+  }
+
+  if (/^\d+$/.test(value)) {
+    return parseInt(value);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AppError(`Invalid since parameter: ${value}`, 400);
+  }
+  return Math.floor(date.getTime() / 1000);
+};
+
+// クエリパラメータからログの取得オプションとフィルターを作成
+const parseLogQuery = (query: Record<string, any>): { options: ContainerLogOptions; filter: string | null } => {
+  const options: ContainerLogOptions = {};
+
+  if (query.tail !== undefined) {
+    if (query.tail === 'all') {
+      options.tail = 'all';
+    } else {
+      const tail = parseInt(query.tail);
+      if (isNaN(tail) || tail < 0) {
+        throw new AppError(`Invalid tail parameter: ${query.tail}`, 400);
+      }
+      options.tail = tail;
+    }
+  }
+
+  if (query.since) {
+    options.since = parseSince(String(query.since));
+  }
+
+  // stdout/stderrはどちらも既定で含める
+  options.stdout = query.stdout !== 'false';
+  options.stderr = query.stderr !== 'false';
+  if (!options.stdout && !options.stderr) {
+    throw new AppError('At least one of stdout or stderr must be enabled', 400);
+  }
+
+  options.timestamps = query.timestamps === 'true';
+
+  const filter = query.filter ? String(query.filter).toLowerCase() : null;
+
+  return { options, filter };
+};
+
+// フィルター文字列を含む行だけを残す（大文字小文字は区別しない）
+const matchesFilter = (line: ContainerLogLine, filter: string | null): boolean => {
+  return !filter || line.text.toLowerCase().includes(filter);
+};
+
 // アプリ一覧取得
 export const getApps = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -30,7 +107,7 @@ export const getApps = async (req: AuthenticatedRequest, res: Response): Promise
     if (error) throw error;
     
     res.status(200).json({
-      apps: data || [],
+      apps: (data || []).map(toPublicApp),
     });
   } catch (error: any) {
     res.status(error.statusCode || 500).json({
@@ -81,21 +158,24 @@ export const getApp = async (req: AuthenticatedRequest, res: Response): Promise<
     // 環境変数を取得 - テーブル名を変更
     const { data: envData, error: envError } = await supabase
       .from('nextdock_environment_variables')
-      .select('key, value')
+      .select('id, key, value, scope, is_secret')
       .eq('app_id', id);
     
     if (envError) throw envError;
     
-    // 環境変数の値をマスクする
-    const maskedEnvs = (envData || []).map(env => ({
-      key: env.key,
-      value: '********', // 値をマスク
-    }));
+    // シークレットの値をマスクする
+    const maskedEnvs = secretsService.decryptEnvVars(envData || []).map(env => environmentService.toPublicEnvVar(env));
+    
+    // 適用されるプランとリソース制限
+    const plan = await planService.getPlanForUser(req.user.id);
     
     res.status(200).json({
-      app: appData,
+      app: toPublicApp(appData),
       deployments: deployData || [],
       environment: maskedEnvs || [],
+      plan,
+      resources: planService.getResourceLimits(appData, plan),
+      nodeVersions: nodeVersionService.SUPPORTED_NODE_VERSIONS,
     });
   } catch (error: any) {
     res.status(error.statusCode || 500).json({
@@ -107,7 +187,7 @@ export const getApp = async (req: AuthenticatedRequest, res: Response): Promise<
 
 // 新規アプリ作成
 export const createApp = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  const { name, repository, branch, buildMethod, domainType, customDomain, envVars } = req.body;
+  const { name, repository, branch, buildMethod, domainType, customDomain, envVars, autoDeploy, resources, replicas } = req.body;
   
   if (!name || !repository || !branch) {
     res.status(400).json({
@@ -122,25 +202,31 @@ export const createApp = async (req: AuthenticatedRequest, res: Response): Promi
       throw new AppError('Unauthorized', 401);
     }
     
-    // GitHubトークンを取得 - テーブル名を変更
-    const { data: userData, error: userError } = await supabase
-      .from('nextdock_users')
-      .select('github_token')
-      .eq('id', req.user.id)
-      .single();
-    
-    if (userError) throw userError;
-    if (!userData || !userData.github_token) {
+    // GitHubトークンを取得
+    const githubToken = await secretsService.getGithubToken(req.user.id);
+    if (!githubToken) {
       throw new AppError('GitHub account not connected', 400);
     }
     
     // リポジトリの存在確認
-    const repoExists = await githubService.checkRepository(repository, userData.github_token);
+    const repoExists = await githubService.checkRepository(repository, githubToken);
     
     if (!repoExists) {
       throw new AppError('Repository not found or not accessible', 400);
     }
     
+    // リソース制限がプランの上限を超えていないか確認
+    const resourceLimits = resources !== undefined ? planService.parseResourceLimits(resources) : {};
+    planService.assertWithinPlan(resourceLimits, await planService.getPlanForUser(req.user.id));
+    
+    const replicaCount = replicas !== undefined ? replicaService.parseReplicaCount(replicas) : 1;
+    
+    // モノレポの場合のアプリのディレクトリ、Dockerfile、ビルドコンテキスト
+    const pathSettings = buildPathService.parseBuildPathSettings(req.body);
+    
+    // 環境変数の名前とスコープ
+    const parsedEnvVars = envVars !== undefined ? environmentService.parseEnvVars(envVars) : [];
+    
     // サブドメイン生成（カスタムドメインがない場合）
     const subdomain = customDomain || `${name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${uuidv4().substring(0, 8)}`;
     
@@ -154,11 +240,15 @@ export const createApp = async (req: AuthenticatedRequest, res: Response): Promi
           name,
           repository,
           branch,
-          build_method: buildMethod || 'auto',
+          build_method: buildMethod ? buildStrategyService.parseBuildMethod(buildMethod) : 'auto',
           domain_type: domainType || 'auto',
           custom_domain: customDomain || null,
           subdomain,
           status: 'created',
+          webhook_secret: githubService.generateWebhookSecret(),
+          replicas: replicaCount,
+          ...pathSettings,
+          ...resourceLimits,
         },
       ])
       .select()
@@ -167,13 +257,37 @@ export const createApp = async (req: AuthenticatedRequest, res: Response): Promi
     if (appError) throw appError;
     if (!appData) throw new AppError('App creation failed', 500);
     
+    // 自動デプロイが有効な場合はGitHubにWebhookを登録
+    // 登録に失敗してもアプリ自体は作成済みなので、自動デプロイを無効にして警告を返す
+    let createdApp = appData;
+    let warning: string | undefined;
+    if (autoDeploy) {
+      try {
+        const registeredApp = await webhookService.registerAppWebhook(appData, githubToken);
+        const { data: enabledApp, error: enableError } = await supabase
+          .from('nextdock_apps')
+          .update({ auto_deploy: true })
+          .eq('id', appData.id)
+          .select()
+          .single();
+        
+        if (enableError) throw enableError;
+        createdApp = enabledApp || registeredApp;
+      } catch (webhookError: any) {
+        console.error('Error registering webhook:', webhookError);
+        warning = webhookError.message || 'Failed to register webhook';
+      }
+    }
+    
     // 環境変数を保存（あれば）- テーブル名を変更
-    if (envVars && Array.isArray(envVars) && envVars.length > 0) {
-      const envVarsToInsert = envVars.map(env => ({
+    if (parsedEnvVars.length > 0) {
+      const envVarsToInsert = parsedEnvVars.map(env => ({
         id: uuidv4(),
         app_id: appData.id,
         key: env.key,
-        value: env.value,
+        value: secretsService.encryptSecret(env.value),
+        scope: env.scope,
+        is_secret: env.is_secret,
       }));
       
       const { error: envError } = await supabase
@@ -183,13 +297,23 @@ export const createApp = async (req: AuthenticatedRequest, res: Response): Promi
       if (envError) throw envError;
     }
     
-    // デプロイをキュー
-    // 実際の実装では、ここでデプロイキューにタスクを追加するか、
-    // 別のサービスを呼び出してデプロイを開始します
+    // 最初のデプロイをキューに追加
+    const deploy = await deployQueue.enqueueDeploy({
+      appId: createdApp.id,
+      initiatedBy: req.user.id,
+      trigger: 'manual',
+      logs: 'Initial deployment queued...',
+    });
     
     res.status(201).json({
       message: 'App created successfully',
-      app: appData,
+      app: toPublicApp(createdApp),
+      deploy: {
+        id: deploy.id,
+        status: deploy.status,
+        created_at: deploy.created_at,
+      },
+      ...(warning ? { warning } : {}),
     });
   } catch (error: any) {
     res.status(error.statusCode || 500).json({
@@ -202,7 +326,7 @@ export const createApp = async (req: AuthenticatedRequest, res: Response): Promi
 // アプリ更新
 export const updateApp = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const { id } = req.params;
-  const { name, branch, buildMethod, domainType, customDomain, envVars } = req.body;
+  const { name, branch, buildMethod, domainType, customDomain, envVars, autoDeploy, healthCheck, resources, nodeVersion } = req.body;
   
   try {
     if (!req.user || !req.user.id) {
@@ -231,9 +355,37 @@ export const updateApp = async (req: AuthenticatedRequest, res: Response): Promi
     const updates: Partial<App> = {};
     if (name) updates.name = name;
     if (branch) updates.branch = branch;
-    if (buildMethod) updates.build_method = buildMethod as App['build_method'];
+    if (buildMethod) updates.build_method = buildStrategyService.parseBuildMethod(buildMethod);
     if (domainType) updates.domain_type = domainType as App['domain_type'];
     if (customDomain !== undefined) updates.custom_domain = customDomain || null;
+    if (healthCheck !== undefined) Object.assign(updates, healthCheckService.parseHealthCheckSettings(healthCheck));
+    if (nodeVersion !== undefined) updates.node_version = nodeVersionService.parseNodeVersionSetting(nodeVersion);
+    Object.assign(updates, buildPathService.parseBuildPathSettings(req.body));
+    const parsedEnvVars = envVars !== undefined ? environmentService.parseEnvVars(envVars) : null;
+    
+    // リソース制限はプランの上限まで設定できる
+    const plan = await planService.getPlanForUser(req.user.id);
+    if (resources !== undefined) {
+      const resourceLimits = planService.parseResourceLimits(resources);
+      planService.assertWithinPlan(resourceLimits, plan);
+      Object.assign(updates, resourceLimits);
+    }
+    
+    // 自動デプロイの切り替えに合わせてGitHubのWebhookを登録/削除
+    // GitHub側の操作に失敗した場合は設定を変更しない
+    if (autoDeploy !== undefined) {
+      const enable = !!autoDeploy;
+      
+      if (enable && !existingApp.webhook_id) {
+        const token = await webhookService.getGithubToken(req.user.id);
+        await webhookService.registerAppWebhook(existingApp, token);
+      } else if (!enable && existingApp.webhook_id) {
+        const token = await webhookService.getGithubToken(req.user.id);
+        await webhookService.unregisterAppWebhook(existingApp, token);
+      }
+      
+      updates.auto_deploy = enable;
+    }
     
     // アプリを更新 - テーブル名を変更
     const { data: updatedApp, error: updateError } = await supabase
@@ -246,8 +398,23 @@ export const updateApp = async (req: AuthenticatedRequest, res: Response): Promi
     if (updateError) throw updateError;
     if (!updatedApp) throw new AppError('App update failed', 500);
     
+    // 実行中のコンテナにはリビルドせずにリソース制限を反映する
+    // Dockerが変更を受け付けない場合（使用中のメモリより小さい制限など）は次回のデプロイで反映される
+    let warning: string | undefined;
+    const containerIds = replicaService.getAppContainerIds(updatedApp);
+    if (resources !== undefined && containerIds.length > 0) {
+      try {
+        const limits = planService.getResourceLimits(updatedApp, plan);
+        for (const containerId of containerIds) {
+          await dockerService.updateContainerResources(containerId, limits);
+        }
+      } catch (resourceError: any) {
+        warning = `Resource limits will be applied on the next deploy: ${resourceError.message}`;
+      }
+    }
+    
     // 環境変数を更新（あれば）- テーブル名を変更
-    if (envVars && Array.isArray(envVars)) {
+    if (parsedEnvVars) {
       // 既存の環境変数を削除
       const { error: deleteError } = await supabase
         .from('nextdock_environment_variables')
@@ -257,12 +424,14 @@ export const updateApp = async (req: AuthenticatedRequest, res: Response): Promi
       if (deleteError) throw deleteError;
       
       // 新しい環境変数を挿入
-      if (envVars.length > 0) {
-        const envVarsToInsert = envVars.map(env => ({
+      if (parsedEnvVars.length > 0) {
+        const envVarsToInsert = parsedEnvVars.map(env => ({
           id: uuidv4(),
           app_id: id,
           key: env.key,
-          value: env.value,
+          value: secretsService.encryptSecret(env.value),
+          scope: env.scope,
+          is_secret: env.is_secret,
         }));
         
         const { error: insertError } = await supabase
@@ -275,7 +444,8 @@ export const updateApp = async (req: AuthenticatedRequest, res: Response): Promi
     
     res.status(200).json({
       message: 'App updated successfully',
-      app: updatedApp,
+      app: toPublicApp(updatedApp),
+      ...(warning ? { warning } : {}),
     });
   } catch (error: any) {
     res.status(error.statusCode || 500).json({
@@ -312,18 +482,61 @@ export const deleteApp = async (req: AuthenticatedRequest, res: Response): Promi
       throw new AppError('You do not have permission to delete this app', 403);
     }
     
+    // 未実行のデプロイはキャンセルし、実行中のデプロイがあれば削除しない
+    // 実行中のデプロイはワーカーにキャンセルを要求し、中断した後に削除し直してもらう
+    const { data: activeDeploys, error: activeError } = await supabase
+      .from('nextdock_deploys')
+      .select('*')
+      .eq('app_id', id)
+      .in('status', ['pending', 'in_progress']);
+    
+    if (activeError) throw activeError;
+    
+    const running: Deploy[] = [];
+    for (const deploy of (activeDeploys || []) as Deploy[]) {
+      const cancelled = await deployQueue.cancelDeploy(deploy);
+      if (cancelled.status === 'in_progress') running.push(cancelled);
+    }
+    
+    if (running.length > 0) {
+      throw new AppError(`A deploy is in progress (${running.map(deploy => deploy.id).join(', ')}). Cancellation has been requested; delete the app again after it stops`, 409);
+    }
+    
     console.log(`Deleting app with ID: ${id}`);
 
-    // Dockerコンテナを停止して削除
-    if (existingApp.container_id) {
+    // GitHubに登録したWebhookを削除
+    if (existingApp.webhook_id) {
       try {
-        console.log(`Stopping and removing container: ${existingApp.container_id}`);
-        await dockerService.stopAndRemoveContainer(existingApp.container_id);
-      } catch (containerError: any) {
-        console.error('Error stopping/removing container:', containerError);
-        // コンテナ削除エラーは無視して処理を続行
+        const token = await webhookService.getGithubToken(req.user.id);
+        await webhookService.unregisterAppWebhook(existingApp, token);
+      } catch (webhookError: any) {
+        console.error('Error removing webhook:', webhookError);
+        // Webhook削除エラーは無視して処理を続行（GitHub側で手動削除が必要）
+      }
+    }
+
+    // GitHubに登録したデプロイキーを削除
+    if (existingApp.deploy_key_id) {
+      try {
+        const token = await webhookService.getGithubToken(req.user.id);
+        await githubService.removeDeployKey(
+          githubService.getRepositoryFullName(existingApp.repository),
+          token,
+          existingApp.deploy_key_id
+        );
+      } catch (keyError: any) {
+        console.error('Error removing deploy key:', githubService.describeGithubError(keyError));
+        // デプロイキー削除エラーは無視して処理を続行
       }
     }
+
+    // すべてのレプリカのDockerコンテナを停止して削除
+    // コンテナ削除エラーは無視して処理を続行
+    const containerIds = replicaService.getAppContainerIds(existingApp);
+    if (containerIds.length > 0) {
+      console.log(`Stopping and removing containers: ${containerIds.join(', ')}`);
+      await replicaService.removeContainers(containerIds);
+    }
     
     // RPCの代わりに、直接関連リソースを削除
     // 1. まず環境変数を削除
@@ -337,7 +550,25 @@ export const deleteApp = async (req: AuthenticatedRequest, res: Response): Promi
       console.error('Error deleting environment variables:', envDeleteError);
     }
     
-    // 2. デプロイを削除
+    // 2. Webhook配信ログとデプロイを削除
+    console.log('Deleting webhook deliveries');
+    const { error: deliveryDeleteError } = await supabase
+      .from('nextdock_webhook_deliveries')
+      .delete()
+      .eq('app_id', id);
+    
+    if (deliveryDeleteError) {
+      console.error('Error deleting webhook deliveries:', deliveryDeleteError);
+    }
+    
+    // デプロイごとのイメージを削除（デプロイのレコードを削除すると残ったイメージを追跡できなくなる）
+    try {
+      const removedTags = await deployImageService.removeAppImages(id);
+      console.log(`Removed ${removedTags.length} deploy image(s)`);
+    } catch (imageError) {
+      console.error('Error removing deploy images:', imageError);
+    }
+    
     console.log('Deleting deployments');
     const { error: deployDeleteError } = await supabase
       .from('nextdock_deploys')
@@ -409,13 +640,16 @@ export const toggleAppStatus = async (req: AuthenticatedRequest, res: Response):
     // アプリのステータスを更新
     const newStatus = action === 'start' ? 'running' : 'stopped';
     
-    // Dockerコンテナを開始/停止
-    if (existingApp.container_id) {
+    // すべてのレプリカのDockerコンテナを開始/停止
+    const containerIds = replicaService.getAppContainerIds(existingApp);
+    if (containerIds.length > 0) {
       try {
-        if (action === 'start') {
-          await dockerService.startContainer(existingApp.container_id);
-        } else {
-          await dockerService.stopContainer(existingApp.container_id);
+        for (const containerId of containerIds) {
+          if (action === 'start') {
+            await dockerService.startContainer(containerId);
+          } else {
+            await dockerService.stopContainer(containerId);
+          }
         }
       } catch (containerError: any) {
         // コンテナが見つからない場合など
@@ -423,6 +657,10 @@ export const toggleAppStatus = async (req: AuthenticatedRequest, res: Response):
         
         if (action === 'stop') {
           // 停止の場合はエラーを無視してステータスのみ更新
+          // （停止できなかったレプリカがあれば残りも停止する）
+          await Promise.all(containerIds.map(containerId =>
+            dockerService.stopContainer(containerId).catch(() => undefined)
+          ));
           console.log('Ignoring container error for stop action and updating status only');
         } else {
           // 開始の場合はデプロイが必要であることを伝える
@@ -453,7 +691,7 @@ export const toggleAppStatus = async (req: AuthenticatedRequest, res: Response):
     
     res.status(200).json({
       message: `App ${action === 'start' ? 'started' : 'stopped'} successfully`,
-      app: updatedApp,
+      app: toPublicApp(updatedApp),
     });
   } catch (error: any) {
     console.error('Error toggling app status:', error);
@@ -492,15 +730,34 @@ export const getContainerLogs = async (req: AuthenticatedRequest, res: Response)
     }
     
     // コンテナが存在しない場合
-    if (!existingApp.container_id) {
+    const containerIds = replicaService.getAppContainerIds(existingApp);
+    if (containerIds.length === 0) {
       throw new AppError('No container found for this app', 400);
     }
     
-    // コンテナログを取得
-    const logs = await dockerService.getContainerLogs(existingApp.container_id);
+    // すべてのレプリカのログを取得し、タイムスタンプ順にまとめる
+    const { options, filter } = parseLogQuery(req.query);
+    const showTimestamps = options.timestamps;
+    const replicaLines = await Promise.all(containerIds.map(async (containerId, index) =>
+      (await dockerService.getContainerLogLines(containerId, { ...options, timestamps: true }))
+        .map(line => ({ ...line, ...(containerIds.length > 1 ? { replica: index } : {}) }))
+    ));
+    let lines = replicaLines
+      .flat()
+      .filter(line => matchesFilter(line, filter))
+      .sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+    
+    // tailはレプリカごとに適用されるため、まとめた後にもう一度適用する
+    if (typeof options.tail === 'number') {
+      lines = lines.slice(Math.max(lines.length - options.tail, 0));
+    }
+    if (!showTimestamps) {
+      lines = lines.map(({ timestamp, ...line }) => line);
+    }
     
     res.status(200).json({
-      logs,
+      logs: lines.map(line => line.timestamp ? `${line.timestamp} ${line.text}` : line.text).join('\n'),
+      lines,
     });
   } catch (error: any) {
     console.error('Error fetching container logs:', error);
@@ -511,6 +768,412 @@ export const getContainerLogs = async (req: AuthenticatedRequest, res: Response)
   }
 };
 
+// コンテナログをServer-Sent Eventsで配信
+// 接続中はコンテナのログを追跡し、新しい行を1行ずつ送る
+export const streamContainerLogs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  
+  let heartbeat: NodeJS.Timeout | null = null;
+  const stops: (() => void)[] = [];
+  let closed = false;
+  
+  // ログの追跡とハートビートを止める（エラーやクライアントの切断など、どの経路で呼ばれても1回だけ処理する）
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    stops.forEach(stop => stop());
+  };
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認
+    const { data: existingApp, error: fetchError } = await supabase
+      .from('nextdock_apps')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    
+    if (!existingApp) {
+      throw new AppError('App not found', 404);
+    }
+    
+    // 権限チェック
+    if (existingApp.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to access this app logs', 403);
+    }
+    
+    // コンテナが存在しない場合
+    const containerIds = replicaService.getAppContainerIds(existingApp);
+    if (containerIds.length === 0) {
+      throw new AppError('No container found for this app', 400);
+    }
+    
+    // タイムスタンプは常に取得し、表示するかはクライアントが決める
+    const { options, filter } = parseLogQuery(req.query);
+    options.timestamps = true;
+    
+    // ヘッダーを送るまでのイベントは溜めておき、ヘッダーを送った後にまとめて書き込む
+    let streaming = false;
+    let ended = false;
+    const buffered: string[] = [];
+    
+    const send = (event: string, data: any) => {
+      const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+      if (streaming) {
+        res.write(message);
+      } else {
+        buffered.push(message);
+      }
+    };
+    
+    const end = () => {
+      close();
+      if (streaming) res.end();
+    };
+    
+    let running = containerIds.length;
+    req.on('close', close);
+    
+    // ヘッダーを送る前にすべてのレプリカの追跡を開始し、コンテナのエラーは通常のエラーレスポンスで返す
+    for (const [index, containerId] of containerIds.entries()) {
+      const stop = await dockerService.followContainerLogs(
+        containerId,
+        options,
+        line => {
+          if (matchesFilter(line, filter)) {
+            send('log', containerIds.length > 1 ? { ...line, replica: index } : line);
+          }
+        },
+        () => {
+          // すべてのレプリカが停止するとログのストリームも終了する
+          running--;
+          if (running > 0) return;
+          send('end', { reason: 'container stopped' });
+          ended = true;
+          end();
+        }
+      );
+      stops.push(stop);
+      
+      // 追跡を開始している間にクライアントが切断した場合
+      if (closed && !ended) {
+        stop();
+        return;
+      }
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // nginxのバッファリングを無効にする
+      'X-Accel-Buffering': 'no',
+    });
+    streaming = true;
+    buffered.forEach(message => res.write(message));
+    
+    // 追跡を開始している間にすべてのレプリカが停止していた場合
+    if (ended) {
+      res.end();
+      return;
+    }
+    
+    heartbeat = setInterval(() => res.write(': keep-alive\n\n'), LOG_STREAM_HEARTBEAT);
+  } catch (error: any) {
+    console.error('Error streaming container logs:', error);
+    close();
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to stream container logs',
+    });
+  }
+};
+
+// レプリカごとのコンテナの状態を取得
+export const getReplicas = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認
+    const { data: existingApp, error: fetchError } = await supabase
+      .from('nextdock_apps')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    
+    if (!existingApp) {
+      throw new AppError('App not found', 404);
+    }
+    
+    // 権限チェック
+    if (existingApp.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to access this app', 403);
+    }
+    
+    res.status(200).json({
+      replicas: replicaService.getReplicaCount(existingApp),
+      containers: await replicaService.getReplicaStates(existingApp),
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch replicas',
+    });
+  }
+};
+
+// レプリカ数を変更（実行中のアプリは再デプロイせずにコンテナを増減する）
+export const scaleApp = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    const replicas = replicaService.parseReplicaCount(req.body.replicas);
+    
+    // アプリが存在するか確認
+    const { data: existingApp, error: fetchError } = await supabase
+      .from('nextdock_apps')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    
+    if (!existingApp) {
+      throw new AppError('App not found', 404);
+    }
+    
+    // 権限チェック
+    if (existingApp.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to manage this app', 403);
+    }
+    
+    const updatedApp = await replicaService.scaleApp(existingApp, replicas);
+    
+    res.status(200).json({
+      message: `App scaled to ${replicas} replica(s)`,
+      app: toPublicApp(updatedApp),
+      containers: await replicaService.getReplicaStates(updatedApp),
+    });
+  } catch (error: any) {
+    console.error('Error scaling app:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to scale app',
+    });
+  }
+};
+
+// デプロイキー（SSH）を生成してリポジトリに登録
+// 登録後はトークンの代わりにデプロイキーでクローンする
+export const createDeployKey = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認
+    const { data: existingApp, error: fetchError } = await supabase
+      .from('nextdock_apps')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    
+    if (!existingApp) {
+      throw new AppError('App not found', 404);
+    }
+    
+    // 権限チェック
+    if (existingApp.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to manage this app', 403);
+    }
+    
+    const token = await webhookService.getGithubToken(req.user.id);
+    const repoFullName = githubService.getRepositoryFullName(existingApp.repository);
+    
+    // 既存のデプロイキーは置き換える
+    if (existingApp.deploy_key_id) {
+      await githubService.removeDeployKey(repoFullName, token, existingApp.deploy_key_id);
+    }
+    
+    const keyPair = githubService.generateDeployKey();
+    
+    let deployKey: any;
+    try {
+      deployKey = await githubService.addDeployKey(repoFullName, token, `NextDock (${existingApp.name})`, keyPair.public_key);
+    } catch (githubError: any) {
+      throw new AppError(`Failed to register deploy key: ${githubError.response?.data?.message || githubError.message}`, 400);
+    }
+    
+    const { data: updatedApp, error: updateError } = await supabase
+      .from('nextdock_apps')
+      .update({
+        deploy_key_id: deployKey.id,
+        deploy_key_public: keyPair.public_key,
+        deploy_key_private: secretsService.encryptSecret(keyPair.private_key),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (updateError) throw updateError;
+    
+    res.status(201).json({
+      message: 'Deploy key created successfully',
+      deploy_key: {
+        id: deployKey.id,
+        public_key: keyPair.public_key,
+        fingerprint: keyPair.fingerprint,
+      },
+      app: toPublicApp(updatedApp),
+    });
+  } catch (error: any) {
+    console.error('Error creating deploy key:', error.message);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to create deploy key',
+    });
+  }
+};
+
+// デプロイキーを削除（以降はGitHubトークンでクローンする）
+export const deleteDeployKey = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認
+    const { data: existingApp, error: fetchError } = await supabase
+      .from('nextdock_apps')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    
+    if (!existingApp) {
+      throw new AppError('App not found', 404);
+    }
+    
+    // 権限チェック
+    if (existingApp.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to manage this app', 403);
+    }
+    
+    if (existingApp.deploy_key_id) {
+      const token = await webhookService.getGithubToken(req.user.id);
+      await githubService.removeDeployKey(
+        githubService.getRepositoryFullName(existingApp.repository),
+        token,
+        existingApp.deploy_key_id
+      );
+    }
+    
+    const { data: updatedApp, error: updateError } = await supabase
+      .from('nextdock_apps')
+      .update({
+        deploy_key_id: null,
+        deploy_key_public: null,
+        deploy_key_private: null,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (updateError) throw updateError;
+    
+    res.status(200).json({
+      message: 'Deploy key deleted successfully',
+      app: toPublicApp(updatedApp),
+    });
+  } catch (error: any) {
+    console.error('Error deleting deploy key:', error.message);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to delete deploy key',
+    });
+  }
+};
+
+// ビルドキャッシュを削除
+// キャッシュマウントの識別子を変え、次回のビルドではレイヤーキャッシュも使わない
+// （使われなくなったキャッシュはBuildKitのガベージコレクションで削除される）
+export const clearBuildCache = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認
+    const { data: existingApp, error: fetchError } = await supabase
+      .from('nextdock_apps')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    
+    if (!existingApp) {
+      throw new AppError('App not found', 404);
+    }
+    
+    // 権限チェック
+    if (existingApp.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to manage this app', 403);
+    }
+    
+    const { data: updatedApp, error: updateError } = await supabase
+      .from('nextdock_apps')
+      .update({
+        build_cache_key: uuidv4().substring(0, 8),
+        build_no_cache: true,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (updateError) throw updateError;
+    
+    res.status(200).json({
+      message: 'Build cache cleared. The next deploy will build without cache',
+      app: toPublicApp(updatedApp),
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to clear build cache',
+    });
+  }
+};
+
 export default {
   getApps,
   getApp,
@@ -519,4 +1182,10 @@ export default {
   deleteApp,
   toggleAppStatus,
   getContainerLogs,
+  streamContainerLogs,
+  getReplicas,
+  scaleApp,
+  createDeployKey,
+  deleteDeployKey,
+  clearBuildCache,
 };
@@ -5,6 +5,7 @@ import dotenv from 'dotenv';
 import { v4 as uuidv4 } from 'uuid';
 import { User, AuthenticatedRequest, AppError } from '../types';
 import axios from 'axios';
+import secretsService from '../services/secretsService';
 
 dotenv.config();
 
@@ -288,10 +289,10 @@ export const connectGithub = async (req: AuthenticatedRequest, res: Response): P
       return;
     }
     
-    // GitHubトークンをユーザーレコードに保存 - テーブル名を変更
+    // GitHubトークンを暗号化してユーザーレコードに保存
     const { data, error } = await supabase
       .from('nextdock_users')
-      .update({ github_token: githubToken })
+      .update({ github_token: secretsService.encryptSecret(githubToken) })
       .eq('id', req.user.id)
       .select();
     
@@ -2,10 +2,14 @@ import { Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
-import { AuthenticatedRequest, AppError } from '../types';
+import { AuthenticatedRequest, AppError, EnvVar } from '../types';
+import deployQueue from '../services/deployQueue';
+import deployLogs from '../services/deployLogService';
+import deployImages from '../services/deployImageService';
 import githubService from '../services/githubService';
-import dockerService from '../services/dockerService';
-import fs from 'fs/promises';
+import buildStrategyService from '../services/buildStrategyService';
+import environmentService from '../services/environmentService';
+import secretsService from '../services/secretsService';
 import path from 'path';
 
 dotenv.config();
@@ -15,6 +19,11 @@ const supabaseUrl = process.env.SUPABASE_URL || '';
 const supabaseKey = process.env.SUPABASE_KEY || '';
 const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
 
+// ログストリームでデプロイの状態を確認する間隔
+const LOG_STREAM_INTERVAL = parseInt(process.env.DEPLOY_LOG_STREAM_INTERVAL || '1000');
+// 接続を維持するためのコメントを送る間隔
+const LOG_STREAM_HEARTBEAT = 15000;
+
 // アプリのデプロイ履歴を取得
 export const getDeployHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const { appId } = req.params;
@@ -106,18 +115,6 @@ export const getDeployDetails = async (req: AuthenticatedRequest, res: Response)
   }
 };
 
-// リポジトリURLを修正して、GitHub URLを完全な形式にする
-const getFullGitHubUrl = (repoUrl: string): string => {
-  if (!repoUrl.startsWith('https://')) {
-    // ドメインが含まれていない場合は追加
-    return `https://github.com/${repoUrl}.git`;
-  } else if (!repoUrl.endsWith('.git')) {
-    // .gitが含まれていない場合は追加
-    return `${repoUrl}.git`;
-  }
-  return repoUrl;
-};
-
 // 新しいデプロイをトリガー
 export const triggerDeploy = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const { appId } = req.params;
@@ -142,209 +139,12 @@ export const triggerDeploy = async (req: AuthenticatedRequest, res: Response): P
       throw new AppError('You do not have permission to deploy this app', 403);
     }
     
-    // 環境変数を取得 - テーブル名を変更
-    const { data: envVars, error: envError } = await supabase
-      .from('nextdock_environment_variables')
-      .select('key, value')
-      .eq('app_id', appId);
-    
-    if (envError) throw envError;
-    
-    // デプロイレコードを作成 - テーブル名を変更
-    const deployId = uuidv4();
-    const { data: deploy, error: createError } = await supabase
-      .from('nextdock_deploys')
-      .insert([
-        {
-          id: deployId,
-          app_id: appId,
-          status: 'pending',
-          logs: 'Deployment queued...',
-          initiated_by: req.user.id,
-        },
-      ])
-      .select()
-      .single();
-    
-    if (createError) throw createError;
-    if (!deploy) throw new AppError('Failed to create deploy record', 500);
-    
-    // 非同期でデプロイを開始
-    // 実際の実装では、ここでデプロイキューにタスクを追加するか、
-    // 別のサービスを呼び出してデプロイを開始します
-    // この例では、擬似的に非同期処理を行います
-    (async () => {
-      try {
-        // GitHubトークンを取得 - テーブル名を変更
-        const { data: userData, error: userError } = await supabase
-          .from('nextdock_users')
-          .select('github_token')
-          .eq('id', req.user?.id || '')
-          .single();
-          
-        if (!req.user || userError || !userData || !userData.github_token) {
-          throw new Error('GitHub token not found');
-        }
-
-        // デプロイステータスを「進行中」に更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({ status: 'in_progress', logs: 'Deployment started...\n' })
-          .eq('id', deployId);
-        
-        // リポジトリURLを適切な形式に変換
-        const fullRepositoryUrl = getFullGitHubUrl(app.repository);
-        console.log(`Original repository URL: ${app.repository}`);
-        console.log(`Full repository URL: ${fullRepositoryUrl}`);
-
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({ 
-            logs: `Deployment started...\nPreparing to clone repository: ${fullRepositoryUrl} (branch: ${app.branch})\n` 
-          })
-          .eq('id', deployId);
-        
-        // GitHubからリポジトリをクローン
-        const repoPath = `/tmp/repos/${appId}`;
-        const commitInfo = await githubService.cloneRepository(fullRepositoryUrl, app.branch, repoPath);
-        
-        // ログを更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Repository cloned. Commit: ${commitInfo.hash} - ${commitInfo.message}\n`,
-            commit_hash: commitInfo.hash,
-            commit_message: commitInfo.message,
-          })
-          .eq('id', deployId);
-        
-        // Dockerfileの存在を確認（大文字小文字の区別なく）
-        console.log(`Checking for Dockerfile in ${repoPath} with any case sensitivity`);
-        let hasDockerfile = await dockerService.checkDockerfile(repoPath);
-        
-        // 大文字小文字が異なるDockerfileを探す
-        if (!hasDockerfile) {
-          try {
-            const files = await fs.readdir(repoPath);
-            console.log(`Files in repository (${files.length}):`, files);
-            
-            // 大文字小文字を区別せずDockerfileという名前を持つファイルを探す
-            const dockerfileAlternatives = files.filter(f => 
-              f.toLowerCase() === 'dockerfile' && f !== 'Dockerfile'
-            );
-            
-            if (dockerfileAlternatives.length > 0) {
-              console.log(`Found alternative Dockerfile: ${dockerfileAlternatives[0]}`);
-              
-              // 正しい名前に変更
-              const altPath = path.join(repoPath, dockerfileAlternatives[0]);
-              const correctPath = path.join(repoPath, 'Dockerfile');
-              await fs.rename(altPath, correctPath);
-              console.log(`Renamed ${altPath} to ${correctPath}`);
-              
-              // 名前を変更したので、もう一度チェック
-              hasDockerfile = await dockerService.checkDockerfile(repoPath);
-              console.log(`After renaming, Dockerfile exists: ${hasDockerfile}`);
-            }
-          } catch (fsError) {
-            console.error('Error searching for alternative Dockerfile:', fsError);
-          }
-        }
-        
-        // ビルドメソッドの決定
-        const buildMethod = hasDockerfile ? 'dockerfile' : (app.build_method || 'auto');
-        console.log(`Using build method: ${buildMethod} (Dockerfile found: ${hasDockerfile})`);
-        
-        // Dockerイメージをビルド
-        const imageTag = `nextdock/${appId}:latest`;
-        
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Building Docker image: ${imageTag}...\n`
-          })
-          .eq('id', deployId);
-        
-        // Dockerイメージをビルド
-        await dockerService.buildImage(repoPath, imageTag, buildMethod, envVars);
-        
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Docker image built successfully. Starting container...\n`
-          })
-          .eq('id', deployId);
-        
-        // 既存のコンテナを削除（存在する場合）
-        if (app.container_id) {
-          await dockerService.stopAndRemoveContainer(app.container_id);
-        }
-        
-        // Dockerコンテナを実行
-        const containerId = await dockerService.runContainer(imageTag, app.subdomain, envVars);
-        
-        // アプリのコンテナIDとURLを更新
-        const baseDomain = process.env.BASE_DOMAIN || 'nextdock.dev';
-        const appUrl = process.env.USE_SSL === 'true' || process.env.USE_SSL === 'yes' ? 
-          `https://${app.subdomain}.${baseDomain}` : 
-          `http://${app.subdomain}.${baseDomain}`;
-
-        // アプリレコードを更新
-        await supabase
-          .from('nextdock_apps')
-          .update({
-            container_id: containerId,
-            status: 'running',
-            url: appUrl,
-            last_deployed_at: new Date().toISOString()
-          })
-          .eq('id', appId);
-
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Container started. App is now available at: ${appUrl}\nContainer ID: ${containerId}\n`
-          })
-          .eq('id', deployId);
-
-        // 成功したときの処理
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            status: 'success',
-            logs: `Deployment successful!\nApp is running at: ${appUrl}\n`,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', deployId);
-      } catch (error: any) {
-        console.error('Deployment failed:', error);
-        
-        // エラーメッセージをより詳細に
-        let errorMessage = `Deployment failed: ${error.message}\n`;
-        
-        // Dockerfileが見つからない場合の特別なガイダンス
-        if (error.message && error.message.includes('Cannot locate specified Dockerfile')) {
-          errorMessage += `\nリポジトリにDockerfileが見つかりませんでした。以下の対処法を試してください：\n`;
-          errorMessage += `1. リポジトリにDockerfileを追加する\n`;
-          errorMessage += `2. アプリ設定でビルド方法を 'auto' または 'nextjs' に変更する\n`;
-          errorMessage += `3. package.jsonファイルが正しく配置されているか確認する\n`;
-        }
-        
-        // デプロイ失敗を記録
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            status: 'failed',
-            logs: errorMessage,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', deployId);
-      }
-    })();
+    // デプロイをキューに追加
+    // デプロイワーカーがpendingのデプロイを取得して実行します
+    const deploy = await deployQueue.enqueueDeploy({
+      appId,
+      initiatedBy: req.user.id,
+    });
     
     res.status(202).json({
       message: 'Deployment triggered',
@@ -410,6 +210,255 @@ export const getDeployLogs = async (req: AuthenticatedRequest, res: Response): P
   }
 };
 
+// 実行中または未実行のデプロイをキャンセル
+export const cancelDeploy = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { appId, deployId } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認し、所有権をチェック
+    const { data: app, error: appError } = await supabase
+      .from('nextdock_apps')
+      .select('user_id')
+      .eq('id', appId)
+      .single();
+    
+    if (appError || !app) {
+      throw new AppError('App not found', 404);
+    }
+    
+    if (app.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to cancel this deploy', 403);
+    }
+    
+    const { data: deploy, error: deployError } = await supabase
+      .from('nextdock_deploys')
+      .select('*')
+      .eq('id', deployId)
+      .eq('app_id', appId)
+      .single();
+    
+    if (deployError || !deploy) {
+      throw new AppError('Deploy not found', 404);
+    }
+    
+    const updated = await deployQueue.cancelDeploy(deploy);
+    
+    // 実行中のデプロイはワーカーが中断した時点でcancelledになる
+    res.status(updated.status === 'cancelled' ? 200 : 202).json({
+      message: updated.status === 'cancelled' ? 'Deployment cancelled' : 'Cancellation requested',
+      deploy: {
+        id: updated.id,
+        status: updated.status,
+        cancel_requested_at: updated.cancel_requested_at,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to cancel deployment',
+    });
+  }
+};
+
+// 過去の成功したデプロイにロールバック
+// ビルドは行わず、保存されているイメージからコンテナを起動する新しいデプロイを作成する
+export const rollbackDeploy = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { appId, deployId } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認し、所有権をチェック
+    const { data: app, error: appError } = await supabase
+      .from('nextdock_apps')
+      .select('user_id')
+      .eq('id', appId)
+      .single();
+    
+    if (appError || !app) {
+      throw new AppError('App not found', 404);
+    }
+    
+    if (app.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to deploy this app', 403);
+    }
+    
+    const { data: source, error: deployError } = await supabase
+      .from('nextdock_deploys')
+      .select('*')
+      .eq('id', deployId)
+      .eq('app_id', appId)
+      .single();
+    
+    if (deployError || !source) {
+      throw new AppError('Deploy not found', 404);
+    }
+    
+    if (source.status !== 'success') {
+      throw new AppError('Only successful deploys can be rolled back to', 409);
+    }
+    
+    if (!(await deployImages.isDeployImageAvailable(source))) {
+      throw new AppError('The image of this deploy is no longer available', 409);
+    }
+    
+    const deploy = await deployQueue.enqueueDeploy({
+      appId,
+      initiatedBy: req.user.id,
+      trigger: 'rollback',
+      rollbackOf: source.id,
+      commitHash: source.commit_hash,
+      commitMessage: source.commit_message,
+      logs: `Rollback to deploy ${source.id} queued (image: ${source.image_tag})`,
+    });
+    
+    res.status(202).json({
+      message: 'Rollback triggered',
+      deploy: {
+        id: deploy.id,
+        status: deploy.status,
+        rollback_of: deploy.rollback_of,
+        created_at: deploy.created_at,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to trigger rollback',
+    });
+  }
+};
+
+// デプロイのログをServer-Sent Eventsで配信
+// ログは追記のみなので、前回送信した位置以降の差分だけを送る
+export const streamDeployLogs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { appId, deployId } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    // アプリが存在するか確認し、所有権をチェック
+    const { data: app, error: appError } = await supabase
+      .from('nextdock_apps')
+      .select('user_id')
+      .eq('id', appId)
+      .single();
+    
+    if (appError || !app) {
+      throw new AppError('App not found', 404);
+    }
+    
+    if (app.user_id !== req.user.id) {
+      throw new AppError('You do not have permission to access this app', 403);
+    }
+    
+    const { data: initial, error: deployError } = await supabase
+      .from('nextdock_deploys')
+      .select('id')
+      .eq('id', deployId)
+      .eq('app_id', appId)
+      .single();
+    
+    if (deployError || !initial) {
+      throw new AppError('Deploy not found', 404);
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // nginxのバッファリングを無効にする
+      'X-Accel-Buffering': 'no',
+    });
+    
+    const send = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    let sentLength = 0;
+    let lastStatus: string | null = null;
+    let closed = false;
+    let pollTimer: NodeJS.Timeout | null = null;
+    
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), LOG_STREAM_HEARTBEAT);
+    
+    const close = () => {
+      closed = true;
+      clearInterval(heartbeat);
+      if (pollTimer) clearTimeout(pollTimer);
+    };
+    
+    req.on('close', close);
+    
+    const poll = async () => {
+      if (closed) return;
+      
+      try {
+        const { data: deploy, error } = await supabase
+          .from('nextdock_deploys')
+          .select('logs, status')
+          .eq('id', deployId)
+          .single();
+        
+        if (error || !deploy) throw error || new Error('Deploy not found');
+        if (closed) return;
+        
+        // 同じプロセスで実行中のデプロイは、まだ書き込まれていないログも送る
+        const buffered = deployLogs.getDeployLog(deployId);
+        const logs = buffered && buffered.length >= (deploy.logs || '').length ? buffered : (deploy.logs || '');
+        
+        // ログが置き換えられた場合は最初から送り直す
+        if (logs.length < sentLength) {
+          send('reset', {});
+          sentLength = 0;
+        }
+        
+        if (logs.length > sentLength) {
+          send('log', { text: logs.slice(sentLength) });
+          sentLength = logs.length;
+        }
+        
+        if (deploy.status !== lastStatus) {
+          send('status', { status: deploy.status });
+          lastStatus = deploy.status;
+        }
+        
+        // デプロイが終了したらストリームを閉じる
+        if (deploy.status !== 'pending' && deploy.status !== 'in_progress') {
+          send('end', { status: deploy.status });
+          close();
+          res.end();
+          return;
+        }
+      } catch (pollError: any) {
+        console.error(`Error streaming logs for deploy ${deployId}:`, pollError);
+        send('error', { message: pollError.message || 'Failed to fetch deploy logs' });
+      }
+      
+      pollTimer = setTimeout(poll, LOG_STREAM_INTERVAL);
+    };
+    
+    await poll();
+  } catch (error: any) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to stream deploy logs',
+    });
+  }
+};
+
 // 利用可能なポートを見つける
 const findAvailablePort = async (start: number = 3002, end: number = 4000): Promise<number> => {
   const { data: apps } = await supabase
@@ -476,8 +525,7 @@ export const deployFromRepository = async (req: AuthenticatedRequest, res: Respo
       throw new AppError('Repository URL is required', 400);
     }
     
-    // リポジトリURLを適切な形式に変換
-    const fullRepositoryUrl = getFullGitHubUrl(repositoryUrl);
+    const parsedEnvVars = environmentService.parseEnvVars(envVars);
     
     // サブドメイン名を生成（appNameをベースに）
     const subdomain = await generateUniqueSubdomain(appName || path.basename(repositoryUrl, '.git'));
@@ -506,7 +554,8 @@ export const deployFromRepository = async (req: AuthenticatedRequest, res: Respo
           subdomain,
           port,
           status: 'pending',
-          build_method: buildMethod,
+          build_method: buildStrategyService.parseBuildMethod(buildMethod),
+          webhook_secret: githubService.generateWebhookSecret(),
         },
       ])
       .select()
@@ -516,16 +565,16 @@ export const deployFromRepository = async (req: AuthenticatedRequest, res: Respo
       throw new AppError('Failed to create app', 500);
     }
     
-    // Nginx Proxy用の環境変数を追加
-    const proxyEnvVars = [
-      { key: 'VIRTUAL_HOST', value: appDomain },
-      { key: 'VIRTUAL_PORT', value: '80' },
-      { key: 'LETSENCRYPT_HOST', value: appDomain },
-      { key: 'LETSENCRYPT_EMAIL', value: process.env.DEFAULT_EMAIL || 'admin@nextdock.dev' }
+    // Nginx Proxy用の環境変数を追加（コンテナの実行時にだけ使う）
+    const proxyEnvVars: EnvVar[] = [
+      { key: 'VIRTUAL_HOST', value: appDomain, scope: 'runtime', is_secret: false },
+      { key: 'VIRTUAL_PORT', value: '80', scope: 'runtime', is_secret: false },
+      { key: 'LETSENCRYPT_HOST', value: appDomain, scope: 'runtime', is_secret: false },
+      { key: 'LETSENCRYPT_EMAIL', value: process.env.DEFAULT_EMAIL || 'admin@nextdock.dev', scope: 'runtime', is_secret: false }
     ];
     
     // 環境変数を保存
-    const allEnvVars = [...envVars, ...proxyEnvVars];
+    const allEnvVars = [...parsedEnvVars, ...proxyEnvVars];
     if (allEnvVars.length > 0) {
       const { error: envError } = await supabase
         .from('nextdock_environment_variables')
@@ -533,8 +582,9 @@ export const deployFromRepository = async (req: AuthenticatedRequest, res: Respo
           allEnvVars.map(env => ({
             app_id: appId,
             key: env.key,
-            value: env.value,
-            is_secret: env.key.includes('SECRET') || env.key.includes('KEY')
+            value: secretsService.encryptSecret(env.value),
+            scope: env.scope,
+            is_secret: env.is_secret
           }))
         );
       
@@ -543,179 +593,11 @@ export const deployFromRepository = async (req: AuthenticatedRequest, res: Respo
       }
     }
     
-    // デプロイレコードを作成
-    const deployId = uuidv4();
-    const { data: deploy, error: createError } = await supabase
-      .from('nextdock_deploys')
-      .insert([
-        {
-          id: deployId,
-          app_id: appId,
-          status: 'pending',
-          logs: 'Deployment queued...',
-          initiated_by: req.user.id,
-        },
-      ])
-      .select()
-      .single();
-    
-    if (createError || !deploy) {
-      throw new AppError('Failed to create deploy record', 500);
-    }
-    
-    // 非同期でデプロイを開始
-    (async () => {
-      try {
-        // GitHubトークンを取得
-        const { data: userData, error: userError } = await supabase
-          .from('nextdock_users')
-          .select('github_token')
-          .eq('id', req.user?.id || '')
-          .single();
-          
-        if (!req.user || userError || !userData || !userData.github_token) {
-          throw new Error('GitHub token not found');
-        }
-
-        // デプロイステータスを「進行中」に更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({ status: 'in_progress', logs: 'Deployment started...\n' })
-          .eq('id', deployId);
-        
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({ 
-            logs: `Deployment started...\nPreparing to clone repository: ${fullRepositoryUrl} (branch: ${branch})\n` 
-          })
-          .eq('id', deployId);
-        
-        // GitHubからリポジトリをクローン
-        const repoPath = `/tmp/repos/${appId}`;
-        const commitInfo = await githubService.cloneRepository(fullRepositoryUrl, branch, repoPath);
-        
-        // ログを更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Repository cloned. Commit: ${commitInfo.hash} - ${commitInfo.message}\n`,
-            commit_hash: commitInfo.hash,
-            commit_message: commitInfo.message,
-          })
-          .eq('id', deployId);
-        
-        // Dockerfileの存在を確認
-        let hasDockerfile = await dockerService.checkDockerfile(repoPath);
-        
-        // 大文字小文字が異なるDockerfileを探す
-        if (!hasDockerfile) {
-          try {
-            const files = await fs.readdir(repoPath);
-            
-            // 大文字小文字を区別せずDockerfileという名前を持つファイルを探す
-            const dockerfileAlternatives = files.filter(f => 
-              f.toLowerCase() === 'dockerfile' && f !== 'Dockerfile'
-            );
-            
-            if (dockerfileAlternatives.length > 0) {
-              // 正しい名前に変更
-              const altPath = path.join(repoPath, dockerfileAlternatives[0]);
-              const correctPath = path.join(repoPath, 'Dockerfile');
-              await fs.rename(altPath, correctPath);
-              
-              // 名前を変更したので、もう一度チェック
-              hasDockerfile = await dockerService.checkDockerfile(repoPath);
-            }
-          } catch (fsError) {
-            console.error('Error searching for alternative Dockerfile:', fsError);
-          }
-        }
-        
-        // ビルドメソッドの決定
-        const finalBuildMethod = hasDockerfile ? 'dockerfile' : (buildMethod || 'auto');
-        
-        // Dockerイメージをビルド
-        const imageTag = `nextdock/${appId}:latest`;
-        
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Building Docker image: ${imageTag}...\n`
-          })
-          .eq('id', deployId);
-        
-        // Dockerイメージをビルド
-        await dockerService.buildImage(repoPath, imageTag, finalBuildMethod, allEnvVars);
-        
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Docker image built successfully. Starting container...\n`
-          })
-          .eq('id', deployId);
-        
-        // コンテナIDを取得
-        const containerId = await dockerService.runContainer(imageTag, app.subdomain, allEnvVars);
-        
-        // URLを生成
-        const baseDomain = process.env.BASE_DOMAIN || 'nextdock.dev';
-        const appUrl = process.env.USE_SSL === 'true' || process.env.USE_SSL === 'yes' ? 
-          `https://${app.subdomain}.${baseDomain}` : 
-          `http://${app.subdomain}.${baseDomain}`;
-        
-        // アプリレコードを更新
-        await supabase
-          .from('nextdock_apps')
-          .update({
-            container_id: containerId,
-            status: 'running',
-            url: appUrl,
-            last_deployed_at: new Date().toISOString()
-          })
-          .eq('id', appId);
-        
-        // ログ更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            logs: `Container started. App is now available at: ${appUrl}\nContainer ID: ${containerId}\n`
-          })
-          .eq('id', deployId);
-        
-        // 成功したときの処理
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            status: 'success',
-            logs: `Deployment successful!\nApp is running at: ${appUrl}\n`,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', deployId);
-      } catch (deployError: any) {
-        console.error('Deployment failed:', deployError);
-        
-        // エラーログを更新
-        await supabase
-          .from('nextdock_deploys')
-          .update({
-            status: 'failed',
-            logs: `Deployment failed: ${deployError.message}\n${deployError.stack || ''}`,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', deployId);
-        
-        // アプリのステータスを「失敗」に更新
-        await supabase
-          .from('nextdock_apps')
-          .update({
-            status: 'failed',
-          })
-          .eq('id', appId);
-      }
-    })();
+    // デプロイをキューに追加
+    const deploy = await deployQueue.enqueueDeploy({
+      appId,
+      initiatedBy: req.user.id,
+    });
     
     res.status(202).json({
       message: 'App creation and deployment triggered',
@@ -743,5 +625,8 @@ export default {
   getDeployDetails,
   triggerDeploy,
   getDeployLogs,
+  streamDeployLogs,
+  cancelDeploy,
+  rollbackDeploy,
   deployFromRepository,
 };
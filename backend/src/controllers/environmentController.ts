@@ -0,0 +1,255 @@
+import { Response } from 'express';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { AuthenticatedRequest, App, AppError, Deploy, EnvVar } from '../types';
+import deployQueue from '../services/deployQueue';
+import deployImages from '../services/deployImageService';
+import environmentService from '../services/environmentService';
+import secretsService from '../services/secretsService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+const ENV_VAR_COLUMNS = 'id, app_id, key, value, scope, is_secret, created_at';
+
+// 保存されている環境変数の値を復号する
+const decryptRow = (row: any): EnvVar => secretsService.decryptEnvVars([row as EnvVar])[0];
+
+// アプリが存在し、ユーザーが所有者であることを確認してアプリを取得
+const getOwnedApp = async (req: AuthenticatedRequest): Promise<App> => {
+  if (!req.user || !req.user.id) {
+    throw new AppError('Unauthorized', 401);
+  }
+
+  const { data: app, error } = await supabase
+    .from('nextdock_apps')
+    .select('*')
+    .eq('id', req.params.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!app) {
+    throw new AppError('App not found', 404);
+  }
+  if (app.user_id !== req.user.id) {
+    throw new AppError('You do not have permission to manage this app', 403);
+  }
+
+  return app as App;
+};
+
+// アプリの環境変数を取得
+const getAppEnvVars = async (appId: string): Promise<EnvVar[]> => {
+  const { data, error } = await supabase
+    .from('nextdock_environment_variables')
+    .select(ENV_VAR_COLUMNS)
+    .eq('app_id', appId)
+    .order('key', { ascending: true });
+
+  if (error) throw error;
+  return secretsService.decryptEnvVars((data || []) as EnvVar[]);
+};
+
+// アプリの環境変数を1つ取得
+const getAppEnvVar = async (appId: string, envVarId: string): Promise<EnvVar> => {
+  const { data, error } = await supabase
+    .from('nextdock_environment_variables')
+    .select(ENV_VAR_COLUMNS)
+    .eq('id', envVarId)
+    .eq('app_id', appId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new AppError('Environment variable not found', 404);
+  }
+  return decryptRow(data);
+};
+
+// 実行時の環境変数の変更を反映するため、ビルドせずに現在のイメージからコンテナを起動し直すデプロイをキューに追加
+// restartが指定されなかった場合や、ビルド時のみの環境変数の変更、動いているデプロイのイメージがない場合は再起動しない
+const restartIfRequested = async (
+  req: AuthenticatedRequest,
+  app: App,
+  changed: EnvVar[]
+): Promise<{ message: string; deploy: Deploy | null }> => {
+  const requested = req.query.restart === 'true' || req.body?.restart === true;
+  if (!requested) {
+    return { message: 'Changes will take effect on the next deploy', deploy: null };
+  }
+  if (!changed.some(environmentService.isRuntimeEnvVar)) {
+    return { message: 'Build-time variables take effect on the next deploy. Container was not restarted', deploy: null };
+  }
+
+  const { data: current, error } = app.current_deploy_id
+    ? await supabase.from('nextdock_deploys').select('*').eq('id', app.current_deploy_id).maybeSingle()
+    : { data: null, error: null };
+
+  if (error) throw error;
+  if (!current || !(await deployImages.isDeployImageAvailable(current as Deploy))) {
+    return { message: 'No running deploy to restart. Changes will take effect on the next deploy', deploy: null };
+  }
+
+  const deploy = await deployQueue.enqueueDeploy({
+    appId: app.id,
+    initiatedBy: req.user!.id,
+    trigger: 'restart',
+    rollbackOf: current.id,
+    commitHash: current.commit_hash,
+    commitMessage: current.commit_message,
+    coalesce: true,
+    logs: `Restart with updated environment variables queued (image: ${current.image_tag})`,
+  });
+
+  return { message: 'Restart with updated environment variables triggered', deploy };
+};
+
+const toDeploySummary = (deploy: Deploy | null) =>
+  deploy ? { id: deploy.id, status: deploy.status, trigger: deploy.trigger, created_at: deploy.created_at } : null;
+
+// 環境変数の一覧を取得（シークレットの値はマスクする）
+export const getEnvironmentVariables = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const app = await getOwnedApp(req);
+    const envVars = await getAppEnvVars(app.id);
+
+    res.status(200).json({
+      environment: envVars.map(env => environmentService.toPublicEnvVar(env)),
+    });
+  } catch (error: any) {
+    console.error('Error fetching environment variables:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch environment variables',
+    });
+  }
+};
+
+// 環境変数を1つ取得
+// シークレットの値はreveal=trueを指定した場合だけ返す
+export const getEnvironmentVariable = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const app = await getOwnedApp(req);
+    const envVar = await getAppEnvVar(app.id, req.params.envVarId);
+
+    res.status(200).json({
+      environment: environmentService.toPublicEnvVar(envVar, req.query.reveal === 'true'),
+    });
+  } catch (error: any) {
+    console.error('Error fetching environment variable:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch environment variable',
+    });
+  }
+};
+
+// 環境変数を追加
+export const createEnvironmentVariable = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const app = await getOwnedApp(req);
+    const envVar = environmentService.parseEnvVar(req.body);
+    environmentService.assertNoConflict(await getAppEnvVars(app.id), envVar);
+
+    const { data, error } = await supabase
+      .from('nextdock_environment_variables')
+      .insert({ id: uuidv4(), app_id: app.id, ...secretsService.encryptEnvVar(envVar) })
+      .select(ENV_VAR_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    const created = decryptRow(data);
+
+    const restart = await restartIfRequested(req, app, [created]);
+
+    res.status(201).json({
+      message: `Environment variable ${envVar.key} added. ${restart.message}`,
+      environment: environmentService.toPublicEnvVar(created),
+      deploy: toDeploySummary(restart.deploy),
+    });
+  } catch (error: any) {
+    console.error('Error creating environment variable:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to create environment variable',
+    });
+  }
+};
+
+// 環境変数を更新（指定された項目だけを変更する）
+export const updateEnvironmentVariable = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const app = await getOwnedApp(req);
+    const existing = await getAppEnvVar(app.id, req.params.envVarId);
+    const updates = environmentService.parseEnvVarUpdate(req.body);
+    environmentService.assertNoConflict(await getAppEnvVars(app.id), { ...existing, ...updates });
+
+    const { data, error } = await supabase
+      .from('nextdock_environment_variables')
+      .update(updates.value !== undefined ? { ...updates, value: secretsService.encryptSecret(updates.value) } : updates)
+      .eq('id', existing.id)
+      .eq('app_id', app.id)
+      .select(ENV_VAR_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    const updated = decryptRow(data);
+
+    // スコープを変更した場合は、変更前に実行時に使っていた場合も再起動する
+    const restart = await restartIfRequested(req, app, [existing, updated]);
+
+    res.status(200).json({
+      message: `Environment variable ${updated.key} updated. ${restart.message}`,
+      environment: environmentService.toPublicEnvVar(updated),
+      deploy: toDeploySummary(restart.deploy),
+    });
+  } catch (error: any) {
+    console.error('Error updating environment variable:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to update environment variable',
+    });
+  }
+};
+
+// 環境変数を削除
+export const deleteEnvironmentVariable = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const app = await getOwnedApp(req);
+    const existing = await getAppEnvVar(app.id, req.params.envVarId);
+
+    const { error } = await supabase
+      .from('nextdock_environment_variables')
+      .delete()
+      .eq('id', existing.id)
+      .eq('app_id', app.id);
+
+    if (error) throw error;
+
+    const restart = await restartIfRequested(req, app, [existing]);
+
+    res.status(200).json({
+      message: `Environment variable ${existing.key} deleted. ${restart.message}`,
+      deploy: toDeploySummary(restart.deploy),
+    });
+  } catch (error: any) {
+    console.error('Error deleting environment variable:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to delete environment variable',
+    });
+  }
+};
+
+export default {
+  getEnvironmentVariables,
+  getEnvironmentVariable,
+  createEnvironmentVariable,
+  updateEnvironmentVariable,
+  deleteEnvironmentVariable,
+};
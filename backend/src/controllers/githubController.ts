@@ -1,9 +1,15 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import axios from 'axios';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
-import { AuthenticatedRequest, AppError, GithubRepository } from '../types';
+import { AuthenticatedRequest, AppError, GithubRepository, RawBodyRequest, WebhookDelivery } from '../types';
+import deployQueue from '../services/deployQueue';
+import githubService from '../services/githubService';
+import webhookService from '../services/webhookService';
+import buildpackService from '../services/buildpackService';
+import buildPathService from '../services/buildPathService';
+import secretsService from '../services/secretsService';
 
 dotenv.config();
 
@@ -15,6 +21,12 @@ const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
 // GitHub APIのベースURL
 const GITHUB_API_URL = 'https://api.github.com';
 
+// 同じアプリへのプッシュをまとめる待機時間
+const WEBHOOK_DEBOUNCE_MS = parseInt(process.env.WEBHOOK_DEBOUNCE_MS || '10000');
+
+// PostgreSQLの一意制約違反のエラーコード
+const UNIQUE_VIOLATION = '23505';
+
 // ユーザーのGitHubリポジトリを取得
 export const getRepositories = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -22,21 +34,17 @@ export const getRepositories = async (req: AuthenticatedRequest, res: Response):
       throw new AppError('Unauthorized', 401);
     }
     
-    // ユーザーのGitHubトークンを取得 - テーブル名を変更
-    const { data: userData, error: userError } = await supabase
-      .from('nextdock_users')
-      .select('github_token')
-      .eq('id', req.user.id)
-      .single();
+    // ユーザーのGitHubトークンを取得
+    const githubToken = await secretsService.getGithubToken(req.user.id);
     
-    if (userError || !userData || !userData.github_token) {
+    if (!githubToken) {
       throw new AppError('GitHub account not connected', 401);
     }
     
     // GitHubからリポジトリを取得
     const response = await axios.get(`${GITHUB_API_URL}/user/repos`, {
       headers: {
-        'Authorization': `Bearer ${userData.github_token}`,
+        'Authorization': `Bearer ${githubToken}`,
         'Accept': 'application/vnd.github.v3+json',
       },
       params: {
@@ -100,29 +108,26 @@ export const getBranches = async (req: AuthenticatedRequest, res: Response): Pro
     console.log(`Fetching branches for repository: ${decodedRepoName}`);
     console.log(`User ID: ${req.user.id}`);
     
-    // ユーザーのGitHubトークンを取得 - テーブル名を変更
-    const { data: userData, error: userError } = await supabase
-      .from('nextdock_users')
-      .select('github_token')
-      .eq('id', req.user.id)
-      .single();
-    
-    if (userError) {
+    // ユーザーのGitHubトークンを取得
+    let githubToken: string | null;
+    try {
+      githubToken = await secretsService.getGithubToken(req.user.id);
+    } catch (userError) {
       console.error('Error fetching user data from Supabase:', userError);
       throw new AppError('Failed to fetch user data', 500);
     }
     
-    if (!userData || !userData.github_token) {
+    if (!githubToken) {
       console.error('GitHub token not found for user:', req.user.id);
       throw new AppError('GitHub account not connected', 401);
     }
     
-    console.log(`GitHub token found for user. Token starts with: ${userData.github_token.substring(0, 5)}...`);
+    console.log(`GitHub token found for user. Token starts with: ${githubToken.substring(0, 5)}...`);
     
     // GitHubからブランチを取得
     const response = await axios.get(`${GITHUB_API_URL}/repos/${decodedRepoName}/branches`, {
       headers: {
-        'Authorization': `Bearer ${userData.github_token}`,
+        'Authorization': `Bearer ${githubToken}`,
         'Accept': 'application/vnd.github.v3+json',
       },
     });
@@ -139,7 +144,7 @@ export const getBranches = async (req: AuthenticatedRequest, res: Response): Pro
       branches,
     });
   } catch (error: any) {
-    console.error('Error fetching branches:', error);
+    console.error('Error fetching branches:', githubService.describeGithubError(error));
     
     if (error.response) {
       console.error('GitHub API error:', {
@@ -171,64 +176,324 @@ export const getBranches = async (req: AuthenticatedRequest, res: Response): Pro
   }
 };
 
-// GitHubウェブフックを処理（自動デプロイ用）
-export const handleWebhook = async (req: Request, res: Response): Promise<void> => {
-  const { body, headers } = req;
-  const event = headers['x-github-event'];
+// Webhookの処理対象となるアプリの情報
+interface WebhookApp {
+  id: string;
+  user_id: string;
+  repository: string;
+  branch: string;
+  auto_deploy: boolean;
+  webhook_secret?: string;
+}
+
+// Webhook配信をアプリごとに処理した結果
+interface WebhookResult {
+  result: WebhookDelivery['result'];
+  message: string;
+  deploy_id?: string;
+}
+
+// 配信ログを記録
+const recordDelivery = async (
+  appId: string,
+  deliveryId: string,
+  event: string,
+  outcome: WebhookResult
+): Promise<void> => {
+  const { error } = await supabase
+    .from('nextdock_webhook_deliveries')
+    .insert([
+      {
+        id: uuidv4(),
+        app_id: appId,
+        delivery_id: deliveryId,
+        event,
+        result: outcome.result,
+        message: outcome.message,
+        deploy_id: outcome.deploy_id,
+      },
+    ]);
+  
+  if (error) {
+    console.error('Failed to record webhook delivery:', error);
+  }
+};
+
+// 配信の処理を始める前に配信ログを記録し、処理する権利を得る（同じ配信IDがすでに処理されている場合はnull）
+// (app_id, delivery_id) の一意インデックスにより、同時に届いた同じ配信のうち1件だけが記録に成功する
+// 処理に失敗した配信は結果がerrorになり、インデックスの対象から外れるため再送で処理し直せる
+const claimDelivery = async (appId: string, deliveryId: string, event: string): Promise<string | null> => {
+  const id = uuidv4();
+  const { error } = await supabase
+    .from('nextdock_webhook_deliveries')
+    .insert([
+      {
+        id,
+        app_id: appId,
+        delivery_id: deliveryId,
+        event,
+        result: 'processing',
+        message: 'Processing delivery',
+      },
+    ]);
+  
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return null;
+    throw error;
+  }
+  
+  return id;
+};
+
+// 処理した配信の結果を配信ログに記録
+const completeDelivery = async (id: string, outcome: WebhookResult): Promise<void> => {
+  const { error } = await supabase
+    .from('nextdock_webhook_deliveries')
+    .update({
+      result: outcome.result,
+      message: outcome.message,
+      deploy_id: outcome.deploy_id,
+    })
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Failed to record webhook delivery:', error);
+  }
+};
+
+// 検証済みの配信をアプリごとに処理
+const processDelivery = async (app: WebhookApp, event: string, body: any): Promise<WebhookResult> => {
+  if (event === 'ping') {
+    return { result: 'processed', message: 'pong' };
+  }
   
   // プッシュイベントのみを処理
   if (event !== 'push') {
+    return { result: 'ignored', message: `Event '${event}' ignored` };
+  }
+  
+  const branch = (body.ref || '').replace('refs/heads/', '');
+  if (branch !== app.branch) {
+    return { result: 'ignored', message: `Push to branch '${branch}' ignored (app tracks '${app.branch}')` };
+  }
+  
+  // ブランチの削除はデプロイ対象外
+  if (body.deleted || !body.after || /^0+$/.test(body.after)) {
+    return { result: 'ignored', message: 'Branch deletion ignored' };
+  }
+  
+  if (!app.auto_deploy) {
+    return { result: 'ignored', message: 'Auto-deploy is disabled for this app' };
+  }
+  
+  // 短時間に連続したプッシュはまとめ、最新のコミットのみをビルドする
+  const deploy = await deployQueue.enqueueDeploy({
+    appId: app.id,
+    initiatedBy: app.user_id,
+    trigger: 'webhook',
+    logs: 'Auto-deployment queued from GitHub webhook...',
+    commitHash: body.after,
+    commitMessage: body.head_commit?.message || body.commits?.[0]?.message || 'Webhook triggered deploy',
+    delayMs: WEBHOOK_DEBOUNCE_MS,
+    coalesce: true,
+  });
+  
+  return {
+    result: 'processed',
+    message: `Deploy queued for commit ${body.after.substring(0, 7)}`,
+    deploy_id: deploy.id,
+  };
+};
+
+// リポジトリ内のデプロイできるアプリの候補を取得（モノレポのルートディレクトリの選択に使う）
+export const getProjects = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { repoName } = req.params;
+  const branch = typeof req.query.branch === 'string' && req.query.branch ? req.query.branch : 'HEAD';
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    const githubToken = await secretsService.getGithubToken(req.user.id);
+    
+    if (!githubToken) {
+      throw new AppError('GitHub account not connected', 401);
+    }
+    
+    const projects = await githubService.detectRepositoryProjects(decodeURIComponent(repoName), branch, githubToken);
+    
     res.status(200).json({
-      message: 'Event ignored',
+      projects,
+    });
+  } catch (error: any) {
+    if (error.response) {
+      console.error('Error detecting projects:', githubService.describeGithubError(error));
+      res.status(error.response.status === 404 ? 404 : 502).json({
+        error: error.response.status === 404 ? 'Not Found' : 'Bad Gateway',
+        message: error.response.status === 404 ? 'Repository or branch not found' : 'Failed to read the repository from GitHub',
+      });
+      return;
+    }
+    
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to detect projects',
     });
-    return;
   }
+};
+
+// リポジトリを解析してbuildpackのビルドプランを取得（初回のデプロイの前に新規作成画面で表示する）
+export const getBuildPlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { repoName } = req.params;
+  const branch = typeof req.query.branch === 'string' && req.query.branch ? req.query.branch : 'HEAD';
   
   try {
-    const repository = body.repository.full_name;
-    const branch = body.ref.replace('refs/heads/', '');
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    const { root_directory: rootDirectory } = buildPathService.parseBuildPathSettings({ rootDirectory: req.query.rootDirectory || null });
+    
+    const githubToken = await secretsService.getGithubToken(req.user.id);
+    
+    if (!githubToken) {
+      throw new AppError('GitHub account not connected', 401);
+    }
+    
+    const source = await githubService.createRepositorySource(decodeURIComponent(repoName), branch, githubToken, rootDirectory || '');
+    const plan = await buildpackService.createBuildPlan(source);
     
-    // このリポジトリとブランチに関連するアプリを検索 - テーブル名を変更
-    const { data: apps, error } = await supabase
+    res.status(200).json({
+      plan,
+    });
+  } catch (error: any) {
+    if (error.response) {
+      console.error('Error creating build plan:', githubService.describeGithubError(error));
+      res.status(error.response.status === 404 ? 404 : 502).json({
+        error: error.response.status === 404 ? 'Not Found' : 'Bad Gateway',
+        message: error.response.status === 404 ? 'Repository, branch or directory not found' : 'Failed to read the repository from GitHub',
+      });
+      return;
+    }
+    
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to create the build plan',
+    });
+  }
+};
+
+// GitHubウェブフックを処理（自動デプロイ用）
+// /webhook/:appId はアプリ単位のURL、/webhook はリポジトリ名から対象アプリを探す
+export const handleWebhook = async (req: RawBodyRequest, res: Response): Promise<void> => {
+  const { body, headers } = req;
+  const { appId } = req.params;
+  const event = String(headers['x-github-event'] || '');
+  const deliveryId = String(headers['x-github-delivery'] || '');
+  const signature = headers['x-hub-signature-256'] as string | undefined;
+  
+  if (!event || !deliveryId) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'Missing X-GitHub-Event or X-GitHub-Delivery header',
+    });
+    return;
+  }
+  
+  try {
+    // 候補となるアプリを取得
+    let query = supabase
       .from('nextdock_apps')
-      .select('id, user_id, auto_deploy')
-      .eq('repository', repository)
-      .eq('branch', branch)
-      .eq('auto_deploy', true);
+      .select('id, user_id, repository, branch, auto_deploy, webhook_secret');
+    
+    if (appId) {
+      query = query.eq('id', appId);
+    } else {
+      const repository = body.repository || {};
+      
+      // アプリには owner/repo 形式とURL形式のどちらでも保存されている
+      const repositoryNames = [
+        repository.full_name,
+        repository.html_url,
+        repository.html_url ? `${repository.html_url}.git` : null,
+        repository.clone_url,
+      ].filter(Boolean);
+      
+      query = query.in('repository', repositoryNames);
+    }
+    
+    const { data: apps, error } = await query;
     
     if (error) throw error;
     
     if (!apps || apps.length === 0) {
-      res.status(200).json({
-        message: 'No matching apps configured for auto-deploy',
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No matching apps found for this webhook',
       });
       return;
     }
     
-    // 各アプリのデプロイをキュー
-    const deployPromises = apps.map(async (app) => {
-      // デプロイレコードを作成 - テーブル名を変更
-      await supabase
-        .from('nextdock_deploys')
-        .insert([
-          {
-            id: uuidv4(),
-            app_id: app.id,
-            status: 'pending',
-            logs: 'Auto-deployment queued from GitHub webhook...',
-            initiated_by: app.user_id,
-            commit_hash: body.after,
-            commit_message: body.commits[0]?.message || 'Webhook triggered deploy',
-          },
-        ]);
+    // 署名を検証し、アプリごとのシークレットと一致するものだけを処理する
+    const payload = req.rawBody || Buffer.from('');
+    const verifiedApps: WebhookApp[] = [];
+    
+    for (const app of apps as WebhookApp[]) {
+      if (app.webhook_secret && githubService.verifyWebhookSignature(app.webhook_secret, payload, signature)) {
+        verifiedApps.push(app);
+      } else if (appId) {
+        await recordDelivery(app.id, deliveryId, event, {
+          result: 'rejected',
+          message: signature ? 'Invalid signature' : 'Missing X-Hub-Signature-256 header',
+        });
+      }
+    }
+    
+    if (verifiedApps.length === 0) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Webhook signature verification failed',
+      });
+      return;
+    }
+    
+    const results: (WebhookResult & { app_id: string })[] = [];
+    
+    for (const app of verifiedApps) {
+      // 同じ配信IDは一度だけ処理する
+      const claimId = await claimDelivery(app.id, deliveryId, event);
+      if (!claimId) {
+        const outcome: WebhookResult = { result: 'duplicate', message: 'Delivery already processed' };
+        await recordDelivery(app.id, deliveryId, event, outcome);
+        results.push({ app_id: app.id, ...outcome });
+        continue;
+      }
       
-      // 実際の実装では、ここでデプロイキューにタスクを追加します
-    });
+      let outcome: WebhookResult;
+      try {
+        outcome = await processDelivery(app, event, body);
+      } catch (processError: any) {
+        console.error(`Error processing webhook for app ${app.id}:`, processError);
+        outcome = { result: 'error', message: processError.message || 'Failed to process delivery' };
+      }
+      
+      await completeDelivery(claimId, outcome);
+      results.push({ app_id: app.id, ...outcome });
+    }
     
-    await Promise.all(deployPromises);
+    // すべてが重複だった場合は409を返す
+    if (results.every(r => r.result === 'duplicate')) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: `Delivery ${deliveryId} has already been processed`,
+      });
+      return;
+    }
     
     res.status(200).json({
-      message: `Auto-deploy triggered for ${apps.length} app(s)`,
+      message: `Webhook processed for ${results.length} app(s)`,
+      results,
     });
   } catch (error: any) {
     console.error('Error processing webhook:', error);
@@ -240,8 +505,139 @@ export const handleWebhook = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// アプリの所有権を確認して取得
+const getOwnedApp = async (appId: string, userId: string) => {
+  const { data: app, error } = await supabase
+    .from('nextdock_apps')
+    .select('*')
+    .eq('id', appId)
+    .single();
+  
+  if (error || !app) {
+    throw new AppError('App not found', 404);
+  }
+  
+  if (app.user_id !== userId) {
+    throw new AppError('You do not have permission to access this app', 403);
+  }
+  
+  return app;
+};
+
+// アプリのWebhook設定（URLとシークレット）を取得
+export const getWebhookSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { appId } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    const app = await getOwnedApp(appId, req.user.id);
+    
+    // 以前に作成されたアプリにはシークレットがないため、ここで発行する
+    let secret = app.webhook_secret;
+    if (!secret) {
+      secret = githubService.generateWebhookSecret();
+      
+      const { error: updateError } = await supabase
+        .from('nextdock_apps')
+        .update({ webhook_secret: secret })
+        .eq('id', appId);
+      
+      if (updateError) throw updateError;
+    }
+    
+    res.status(200).json({
+      webhook: {
+        url: githubService.getWebhookUrl(appId),
+        secret,
+        content_type: 'json',
+        events: ['push'],
+        hook_id: app.webhook_id || null,
+        registered: !!app.webhook_id,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch webhook settings',
+    });
+  }
+};
+
+// アプリのWebhook配信ログを取得
+export const getWebhookDeliveries = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { appId } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    await getOwnedApp(appId, req.user.id);
+    
+    const { data: deliveries, error } = await supabase
+      .from('nextdock_webhook_deliveries')
+      .select('*')
+      .eq('app_id', appId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+    
+    if (error) throw error;
+    
+    res.status(200).json({
+      deliveries: deliveries || [],
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to fetch webhook deliveries',
+    });
+  }
+};
+
+// GitHubからWebhookにpingを送信させ、到達できるか確認
+export const pingWebhook = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { appId } = req.params;
+  
+  try {
+    if (!req.user || !req.user.id) {
+      throw new AppError('Unauthorized', 401);
+    }
+    
+    const app = await getOwnedApp(appId, req.user.id);
+    const token = await webhookService.getGithubToken(req.user.id);
+    const hook = await webhookService.pingAppWebhook(app, token);
+    
+    // こちら側で受信したpingの記録
+    const { data: deliveries } = await supabase
+      .from('nextdock_webhook_deliveries')
+      .select('*')
+      .eq('app_id', appId)
+      .eq('event', 'ping')
+      .order('created_at', { ascending: false })
+      .limit(1);
+    
+    res.status(200).json({
+      hook,
+      delivery: deliveries && deliveries.length > 0 ? deliveries[0] : null,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      error: error.name || 'Internal Server Error',
+      message: error.message || 'Failed to ping webhook',
+    });
+  }
+};
+
 export default {
   getRepositories,
   getBranches,
+  getProjects,
+  getBuildPlan,
   handleWebhook,
+  getWebhookSettings,
+  getWebhookDeliveries,
+  pingWebhook,
 };
@@ -11,11 +11,23 @@ import appsRouter from './routes/apps';
 import deploysRouter from './routes/deploys';
 import domainsRouter from './routes/domains';
 import githubRouter from './routes/github';
-import { ErrorResponse, AppError } from './types';
+import adminRouter from './routes/admin';
+import { ErrorResponse, AppError, RawBodyRequest } from './types';
+import deployQueue from './services/deployQueue';
+import reconcileService from './services/reconcileService';
+import secretsService from './services/secretsService';
 
 // 設定の読み込み
 dotenv.config();
 
+// シークレットを暗号化するマスターキーがなければ起動しない
+try {
+  secretsService.assertSecretsConfigured();
+} catch (error: any) {
+  console.error(`Failed to start NextDock API server: ${error.message}`);
+  process.exit(1);
+}
+
 // アプリケーションの初期化
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -56,7 +68,12 @@ app.use(cors({
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
-app.use(express.json());
+app.use(express.json({
+  // GitHub Webhookの署名検証には生のリクエストボディが必要
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  },
+}));
 app.use(morgan('dev'));
 
 // ルーティングの設定
@@ -65,6 +82,7 @@ app.use('/api/apps', appsRouter);
 app.use('/api/deploys', deploysRouter);
 app.use('/api/domains', domainsRouter);
 app.use('/api/github', githubRouter);
+app.use('/api/admin', adminRouter);
 
 // ルートエンドポイント
 app.get('/api', (req: Request, res: Response) => {
@@ -100,6 +118,14 @@ app.use((err: Error | AppError, req: Request, res: Response, next: NextFunction)
 // サーバー起動
 app.listen(PORT, () => {
   console.log(`NextDock API server is running on port ${PORT}`);
+  
+  // デプロイワーカーとリコンサイラーを同じプロセスで起動（別プロセスで動かす場合は無効化）
+  if (process.env.DEPLOY_WORKER_EMBEDDED !== 'false') {
+    deployQueue.startDeployWorker().catch((error) => {
+      console.error('Failed to start deploy worker:', error);
+    });
+    reconcileService.startReconciler();
+  }
 });
 
 export default app;
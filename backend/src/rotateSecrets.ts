@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+import secretsService from './services/secretsService';
+
+// 設定の読み込み
+dotenv.config();
+
+// 環境変数の値、GitHubトークン、デプロイキーの秘密鍵を現在のマスターキー（SECRETS_MASTER_KEY）で暗号化し直す
+// 鍵を変更する場合は、古い鍵をSECRETS_PREVIOUS_MASTER_KEYSに移してから実行してください
+secretsService.rotateSecrets()
+  .then(result => {
+    console.log(`Secret rotation completed: ${result.env_vars} environment variable(s), ${result.github_tokens} GitHub token(s), ${result.deploy_keys} deploy key(s)`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Failed to rotate secrets:', error);
+    process.exit(1);
+  });
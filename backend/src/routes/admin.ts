@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import adminController from '../controllers/adminController';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+// すべてのルートで管理者権限が必要
+router.use(authenticate, requireAdmin);
+
+// プラン一覧を取得
+router.get('/plans', adminController.getPlans);
+
+// プランを作成
+router.post('/plans', adminController.createPlan);
+
+// プランを更新
+router.put('/plans/:id', adminController.updatePlan);
+
+// プランを削除
+router.delete('/plans/:id', adminController.deletePlan);
+
+// 対応するアプリがないコンテナの一覧を取得
+router.get('/orphans', adminController.getOrphans);
+
+// 対応するアプリがないコンテナを削除
+router.delete('/orphans/:containerId', adminController.deleteOrphan);
+
+// コンテナの状態をすぐに突き合わせる
+router.post('/reconcile', adminController.reconcile);
+
+// ユーザーにプランを割り当てる
+router.put('/users/:id/plan', adminController.assignUserPlan);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import appsController from '../controllers/appsController';
+import environmentController from '../controllers/environmentController';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -28,4 +29,25 @@ router.post('/:id/status', appsController.toggleAppStatus);
 // コンテナログの取得
 router.get('/:id/logs', appsController.getContainerLogs);
 
+// コンテナログのストリーミング（Server-Sent Events）
+router.get('/:id/logs/stream', appsController.streamContainerLogs);
+
+// レプリカの状態取得/レプリカ数の変更
+router.get('/:id/replicas', appsController.getReplicas);
+router.put('/:id/replicas', appsController.scaleApp);
+
+// デプロイキー（SSH）の作成/削除
+router.post('/:id/deploy-key', appsController.createDeployKey);
+router.delete('/:id/deploy-key', appsController.deleteDeployKey);
+
+// ビルドキャッシュの削除
+router.delete('/:id/build-cache', appsController.clearBuildCache);
+
+// 環境変数の一覧取得/追加/取得/更新/削除（restart=trueで実行時の環境変数の変更をビルドせずに反映する）
+router.get('/:id/environment', environmentController.getEnvironmentVariables);
+router.post('/:id/environment', environmentController.createEnvironmentVariable);
+router.get('/:id/environment/:envVarId', environmentController.getEnvironmentVariable);
+router.put('/:id/environment/:envVarId', environmentController.updateEnvironmentVariable);
+router.delete('/:id/environment/:envVarId', environmentController.deleteEnvironmentVariable);
+
 export default router;
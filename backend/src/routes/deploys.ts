@@ -19,6 +19,15 @@ router.post('/app/:appId', deploysController.triggerDeploy);
 // デプロイのログを取得
 router.get('/app/:appId/deploy/:deployId/logs', deploysController.getDeployLogs);
 
+// デプロイのログをストリーミング（Server-Sent Events）
+router.get('/app/:appId/deploy/:deployId/logs/stream', deploysController.streamDeployLogs);
+
+// デプロイをキャンセル
+router.post('/app/:appId/deploy/:deployId/cancel', deploysController.cancelDeploy);
+
+// 過去のデプロイにロールバック
+router.post('/app/:appId/deploy/:deployId/rollback', deploysController.rollbackDeploy);
+
 // リポジトリURLから直接デプロイ（新規アプリ作成）
 router.post('/repository', deploysController.deployFromRepository);
 
@@ -10,7 +10,23 @@ router.get('/repositories', authenticate, githubController.getRepositories);
 // リポジトリのブランチを取得（認証が必要）
 router.get('/repositories/:repoName/branches', authenticate, githubController.getBranches);
 
-// GitHubウェブフックを処理（認証不要）
+// リポジトリ内のデプロイできるアプリの候補を取得（認証が必要）
+router.get('/repositories/:repoName/projects', authenticate, githubController.getProjects);
+
+// リポジトリを解析したbuildpackのビルドプランを取得（認証が必要）
+router.get('/repositories/:repoName/build-plan', authenticate, githubController.getBuildPlan);
+
+// GitHubウェブフックを処理（認証不要、署名で検証）
 router.post('/webhook', githubController.handleWebhook);
+router.post('/webhook/:appId', githubController.handleWebhook);
+
+// アプリのWebhook設定を取得（認証が必要）
+router.get('/apps/:appId/webhook', authenticate, githubController.getWebhookSettings);
+
+// アプリのWebhook配信ログを取得（認証が必要）
+router.get('/apps/:appId/webhook/deliveries', authenticate, githubController.getWebhookDeliveries);
+
+// GitHubからWebhookにpingを送信（認証が必要）
+router.post('/apps/:appId/webhook/ping', authenticate, githubController.pingWebhook);
 
 export default router;
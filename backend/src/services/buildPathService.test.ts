@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBuildPathSettings } from './buildPathService';
+
+test('normalizes relative paths inside the repository', () => {
+  assert.deepEqual(
+    parseBuildPathSettings({ rootDirectory: './apps/web/', dockerfilePath: 'apps/web/../web/Dockerfile', buildContext: '.' }),
+    { root_directory: 'apps/web', dockerfile_path: 'apps/web/Dockerfile', build_context: null }
+  );
+});
+
+test('resets empty values and leaves omitted settings unchanged', () => {
+  assert.deepEqual(parseBuildPathSettings({ rootDirectory: '', dockerfilePath: null }), { root_directory: null, dockerfile_path: null });
+  assert.deepEqual(parseBuildPathSettings({}), {});
+});
+
+test('rejects paths outside of the repository', () => {
+  for (const value of ['..', '../other', 'apps/../../etc', '/etc/passwd', 'apps\\web']) {
+    assert.throws(
+      () => parseBuildPathSettings({ rootDirectory: value }),
+      (error: any) => error.statusCode === 400 && /relative path inside the repository/.test(error.message),
+      value
+    );
+  }
+});
+
+test('rejects non-string paths', () => {
+  assert.throws(() => parseBuildPathSettings({ dockerfilePath: 1 }), /dockerfilePath must be a string/);
+});
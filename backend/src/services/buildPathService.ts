@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { App, AppError, BuildPaths } from '../types';
+
+// アプリの設定のうち、リポジトリ内のパスを指定する項目
+const PATH_SETTINGS: { field: 'root_directory' | 'dockerfile_path' | 'build_context'; name: string }[] = [
+  { field: 'root_directory', name: 'rootDirectory' },
+  { field: 'dockerfile_path', name: 'dockerfilePath' },
+  { field: 'build_context', name: 'buildContext' },
+];
+
+// リポジトリのルートからの相対パスを検証して正規化する（空欄はnull）
+const parseRepositoryPath = (value: any, name: string): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') {
+    throw new AppError(`${name} must be a string`, 400);
+  }
+
+  const trimmed = value.trim().replace(/^\.\/+/, '').replace(/\/+$/, '');
+  if (trimmed === '' || trimmed === '.') return null;
+
+  const normalized = path.posix.normalize(trimmed);
+  if (trimmed.includes('\\') || path.posix.isAbsolute(normalized) || normalized.split('/').includes('..')) {
+    throw new AppError(`${name} must be a relative path inside the repository`, 400);
+  }
+  return normalized;
+};
+
+// リクエストで受け取ったパスの設定を検証し、アプリの更新内容に変換
+// 指定されなかった項目は変更せず、nullや空欄を指定した項目は既定値に戻す
+export const parseBuildPathSettings = (input: Record<string, any>): Partial<App> => {
+  const updates: Partial<App> = {};
+
+  for (const { field, name } of PATH_SETTINGS) {
+    if (input[name] !== undefined) {
+      updates[field] = parseRepositoryPath(input[name], name);
+    }
+  }
+
+  return updates;
+};
+
+// アプリのディレクトリ、Dockerfile、ビルドコンテキストのパスを決める
+// Dockerfileの既定値はアプリのディレクトリのDockerfile
+// ビルドコンテキストの既定値は、リポジトリのDockerfileを使う場合はアプリのディレクトリ、
+// Dockerfileを生成する場合はワークスペースの依存関係を含めるためリポジトリのルート
+export const resolveBuildPaths = (repoPath: string, app: App, generated: boolean = false): BuildPaths => {
+  const rootDirectory = app.root_directory || '';
+  const appPath = path.join(repoPath, rootDirectory);
+  const dockerfilePath = path.join(repoPath, app.dockerfile_path || path.posix.join(rootDirectory, 'Dockerfile'));
+  const contextPath = path.join(repoPath, app.build_context ?? (generated ? '' : rootDirectory));
+
+  // Dockerfileとアプリのディレクトリはビルドコンテキストに含まれている必要がある
+  const isInside = (target: string) => {
+    const relative = path.relative(contextPath, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  };
+
+  if (!isInside(dockerfilePath)) {
+    throw new AppError(`Dockerfile ${app.dockerfile_path || path.relative(repoPath, dockerfilePath)} must be inside the build context (${app.build_context || '/'})`, 400);
+  }
+  if (generated && !isInside(appPath)) {
+    throw new AppError(`Root directory ${rootDirectory} must be inside the build context (${app.build_context || '/'})`, 400);
+  }
+
+  return { appPath, dockerfilePath, contextPath };
+};
+
+// アプリのディレクトリがリポジトリに存在するか確認
+export const assertAppDirectoryExists = async (repoPath: string, app: App): Promise<void> => {
+  if (!app.root_directory) return;
+
+  const stat = await fs.stat(path.join(repoPath, app.root_directory)).catch(() => null);
+  if (!stat || !stat.isDirectory()) {
+    throw new AppError(`Root directory "${app.root_directory}" does not exist in the repository`, 400);
+  }
+};
+
+export default {
+  parseBuildPathSettings,
+  resolveBuildPaths,
+  assertAppDirectoryExists,
+};
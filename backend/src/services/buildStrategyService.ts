@@ -0,0 +1,359 @@
+import fs from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+import dockerService from './dockerService';
+import buildpackService from './buildpackService';
+import {
+  AppError,
+  BuildMethod,
+  BuildStrategyMatch,
+  BuildStrategyName,
+  NextjsDockerfileOptions,
+  NodeBuilderStage,
+} from '../types';
+
+dotenv.config();
+
+// 静的サイトを配信するイメージ
+const STATIC_SERVER_IMAGE = process.env.STATIC_SERVER_IMAGE || 'nginx:alpine';
+
+// 判定に使うプロジェクトの情報
+interface ProjectInfo {
+  packageJson: Record<string, any> | null;
+  // dependenciesとdevDependenciesをまとめたもの
+  dependencies: Record<string, string>;
+  scripts: Record<string, string>;
+  files: string[];
+}
+
+type StrategyDetection = Omit<BuildStrategyMatch, 'strategy'>;
+
+interface BuildStrategy {
+  name: BuildStrategyName;
+  label: string;
+  // プロジェクトに合う場合は判定結果を返す
+  detect: (project: ProjectInfo, appPath: string) => Promise<StrategyDetection | null>;
+  // ビルド方法で明示的に選ばれたが、detectが当てはまらなかった場合の既定値（nullの場合はエラーにする）
+  defaults: Partial<StrategyDetection> | null;
+  // defaultsがnullの場合のエラーメッセージ
+  undetectedMessage?: string;
+  // ビルダーステージに続くDockerfileの内容を生成する（Next.jsはdockerServiceで生成する）
+  generate?: (builder: NodeBuilderStage, match: BuildStrategyMatch) => string;
+  // Node.jsのビルダーステージを使わないDockerfileの内容を生成する（match.nodeがfalseの場合）
+  // buildSecretsはビルド時に使う環境変数の名前
+  generateWithoutBuilder?: (match: BuildStrategyMatch, appDir: string, buildSecrets: string[]) => string;
+}
+
+// アプリのディレクトリのpackage.jsonとファイルの一覧を読み込む
+const readProject = async (appPath: string): Promise<ProjectInfo> => {
+  const packageJson = await fs.readFile(path.join(appPath, 'package.json'), 'utf8')
+    .then(content => JSON.parse(content), () => null);
+  const files = await fs.readdir(appPath).catch(() => [] as string[]);
+
+  return {
+    packageJson,
+    dependencies: packageJson ? { ...packageJson.devDependencies, ...packageJson.dependencies } : {},
+    scripts: (packageJson && packageJson.scripts) || {},
+    files,
+  };
+};
+
+// package.jsonのstartスクリプト、mainの順に起動コマンドを決める
+const getStartCommand = (project: ProjectInfo): string[] | null => {
+  if (project.scripts.start) return ['npm', 'start'];
+  if (project.packageJson && typeof project.packageJson.main === 'string') return ['node', project.packageJson.main];
+  return null;
+};
+
+// 依存関係をインストールするステージに続けて、buildスクリプトを実行する
+const buildStep = (builder: NodeBuilderStage, match: BuildStrategyMatch): string => {
+  return match.build ? `\n# アプリケーションをビルド\nRUN ${builder.withBuildSecrets(builder.build)}\n` : '';
+};
+
+// Node.jsで起動する本番環境用イメージ（ビルダーのファイルをそのままコピーする）
+const nodeRunner = (builder: NodeBuilderStage, command: string[]): string => `
+# 本番環境用イメージ
+FROM ${builder.nodeImage} AS runner
+
+# 作業ディレクトリを設定
+WORKDIR /app
+
+# ビルドされたアプリケーションと依存関係をコピー
+COPY --from=builder /app ./
+${builder.appDir ? `WORKDIR ${builder.workdir}\n` : ''}
+# ポート開放と環境変数
+EXPOSE 80
+ENV NODE_ENV=production
+ENV PORT=80
+ENV HOST=0.0.0.0
+ENV HOSTNAME=0.0.0.0
+
+# アプリケーションを起動
+CMD ${JSON.stringify(command)}
+`;
+
+// nginxで配信する本番環境用イメージ
+// 存在しないパスはindex.htmlを返してSPAのルーティングに対応し、ドットファイルは配信しない
+const staticRunner = (source: string): string => `
+# 本番環境用イメージ（nginxで静的なファイルを配信）
+FROM ${STATIC_SERVER_IMAGE} AS runner
+
+# 配信の設定
+RUN rm -rf /usr/share/nginx/html/* && \\
+    printf 'server {\\n  listen 80;\\n  root /usr/share/nginx/html;\\n  index index.html;\\n  location ~ /[.] {\\n    deny all;\\n  }\\n  location / {\\n    try_files $uri $uri.html $uri/ /index.html;\\n  }\\n}\\n' > /etc/nginx/conf.d/default.conf
+
+# ビルドされたファイルをコピー
+COPY ${source} /usr/share/nginx/html
+
+# ポート開放
+EXPOSE 80
+`;
+
+// 静的サイトのDockerfile（package.jsonがなければリポジトリのファイルをそのまま配信する）
+const generateStaticDockerfile = (builder: NodeBuilderStage | null, match: BuildStrategyMatch, appDir: string): string => {
+  const outputDir = match.output_dir || '.';
+  if (!builder) {
+    return staticRunner(path.posix.join(appDir || '.', outputDir));
+  }
+  return `${builder.dockerfile}${buildStep(builder, match)}${staticRunner(`--from=builder ${path.posix.join(builder.workdir, outputDir)}`)}`;
+};
+
+// Node.jsで起動するプロジェクトのDockerfile
+const generateNodeDockerfile = (builder: NodeBuilderStage, match: BuildStrategyMatch): string => {
+  return `${builder.dockerfile}${buildStep(builder, match)}${nodeRunner(builder, match.start_command || ['npm', 'start'])}`;
+};
+
+// ビルド戦略の一覧（autoでは最もスコアが高い戦略を選ぶ）
+const STRATEGIES: BuildStrategy[] = [
+  {
+    name: 'nextjs',
+    label: 'Next.js',
+    detect: async (project, appPath) => {
+      if (!project.dependencies.next) return null;
+      // 静的なファイルを書き出す設定の場合は静的サイトとして配信する
+      const output = await dockerService.detectNextjsOutput(appPath);
+      if (output.mode === 'export') return null;
+      return { score: 90, reason: 'found next in package.json', node: true, build: true };
+    },
+    defaults: { node: true, build: true },
+  },
+  {
+    name: 'remix',
+    label: 'Remix',
+    detect: async project => {
+      const dependency = Object.keys(project.dependencies).find(name => name.startsWith('@remix-run/'));
+      if (!dependency) return null;
+      return { score: 85, reason: `found ${dependency} in package.json`, node: true, build: !!project.scripts.build, start_command: ['npm', 'start'] };
+    },
+    defaults: { node: true, build: true, start_command: ['npm', 'start'] },
+    generate: generateNodeDockerfile,
+  },
+  {
+    name: 'astro',
+    label: 'Astro',
+    detect: async project => {
+      if (!project.dependencies.astro) return null;
+      // Nodeアダプターがあればサーバーとして起動し、なければ静的なファイルを配信する
+      if (project.dependencies['@astrojs/node']) {
+        return { score: 85, reason: 'found astro with the @astrojs/node adapter in package.json', node: true, build: true, start_command: ['node', './dist/server/entry.mjs'] };
+      }
+      return { score: 85, reason: 'found astro without a server adapter in package.json (static output)', node: true, build: true, output_dir: 'dist' };
+    },
+    defaults: { node: true, build: true, output_dir: 'dist' },
+    generate: (builder, match) => match.start_command
+      ? generateNodeDockerfile(builder, match)
+      : generateStaticDockerfile(builder, match, builder.appDir),
+  },
+  {
+    name: 'nestjs',
+    label: 'NestJS',
+    detect: async project => {
+      if (!project.dependencies['@nestjs/core']) return null;
+      return { score: 85, reason: 'found @nestjs/core in package.json', node: true, build: !!project.scripts.build, start_command: ['node', 'dist/main'] };
+    },
+    defaults: { node: true, build: true, start_command: ['node', 'dist/main'] },
+    generate: generateNodeDockerfile,
+  },
+  {
+    name: 'static',
+    label: 'static site',
+    detect: async (project, appPath) => {
+      if (!project.packageJson) {
+        if (!project.files.includes('index.html')) return null;
+        return { score: 20, reason: 'found index.html without package.json', node: false, build: false, output_dir: '.' };
+      }
+
+      const build = !!project.scripts.build;
+      if (project.dependencies.next) {
+        const output = await dockerService.detectNextjsOutput(appPath);
+        if (output.mode !== 'export') return null;
+        return { score: 95, reason: `found output: 'export' in ${output.config_file}`, node: true, build: true, output_dir: 'out' };
+      }
+      // サーバーが必要なフレームワークはViteを使っていても静的サイトとして扱わない
+      if (project.dependencies['@sveltejs/kit'] || project.dependencies.nuxt) return null;
+      if (project.dependencies.vite && build) {
+        return { score: 60, reason: 'found vite in package.json', node: true, build, output_dir: 'dist' };
+      }
+      if (project.dependencies['react-scripts'] && build) {
+        return { score: 60, reason: 'found react-scripts in package.json', node: true, build, output_dir: 'build' };
+      }
+      return null;
+    },
+    defaults: { build: true, output_dir: 'dist' },
+    generate: (builder, match) => generateStaticDockerfile(builder, match, builder.appDir),
+    generateWithoutBuilder: (match, appDir) => generateStaticDockerfile(null, match, appDir),
+  },
+  {
+    name: 'node',
+    label: 'Node.js',
+    detect: async project => {
+      const command = getStartCommand(project);
+      if (!command) return null;
+      return {
+        score: 10,
+        reason: project.scripts.start ? 'found a start script in package.json' : `found main (${project.packageJson!.main}) in package.json`,
+        node: true,
+        build: !!project.scripts.build,
+        start_command: command,
+      };
+    },
+    defaults: { node: true, start_command: ['npm', 'start'] },
+    generate: generateNodeDockerfile,
+  },
+  {
+    name: 'buildpack',
+    label: 'buildpack',
+    detect: async (project, appPath) => {
+      const plan = await buildpackService.createBuildPlan(await buildpackService.createLocalSource(appPath));
+      if (!plan) return null;
+      // Node.jsのプロジェクトはほかの戦略を優先する
+      return {
+        score: plan.language === 'node' ? 5 : 70,
+        reason: `${plan.reason} (${plan.language})`,
+        node: false,
+        build: !!plan.build,
+        plan,
+      };
+    },
+    defaults: null,
+    undetectedMessage: `Could not detect the language of the project. Add ${buildpackService.BUILDPACK_CONFIG_FILE} with "image" and "start" to the app directory`,
+    generateWithoutBuilder: (match, appDir, buildSecrets) => buildpackService.generateBuildpackDockerfile(match.plan!, appDir, buildSecrets),
+  },
+];
+
+// ビルド方法として指定できる値
+export const BUILD_METHODS: BuildMethod[] = ['auto', 'dockerfile', ...STRATEGIES.map(strategy => strategy.name)];
+
+// ビルド戦略の表示名
+export const getBuildStrategyLabel = (name: BuildStrategyName): string => {
+  const strategy = STRATEGIES.find(s => s.name === name);
+  return strategy ? strategy.label : name;
+};
+
+// リクエストで受け取ったビルド方法を検証
+export const parseBuildMethod = (value: any): BuildMethod => {
+  if (!BUILD_METHODS.includes(value)) {
+    throw new AppError(`buildMethod must be one of ${BUILD_METHODS.join(', ')}`, 400);
+  }
+  return value;
+};
+
+// プロジェクトに当てはまるビルド戦略をスコアの高い順に返す
+export const detectBuildStrategies = async (appPath: string): Promise<BuildStrategyMatch[]> => {
+  const project = await readProject(appPath);
+  const matches: BuildStrategyMatch[] = [];
+
+  for (const strategy of STRATEGIES) {
+    const detection = await strategy.detect(project, appPath);
+    if (detection) matches.push({ strategy: strategy.name, ...detection });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+};
+
+// Dockerfileを生成するビルド戦略を選ぶ
+// autoでは最もスコアが高い戦略を選び、ビルド方法で指定されている場合はその戦略を使う
+export const selectBuildStrategy = async (
+  appPath: string,
+  buildMethod: BuildMethod
+): Promise<{ selected: BuildStrategyMatch; candidates: BuildStrategyMatch[] }> => {
+  const candidates = await detectBuildStrategies(appPath);
+
+  if (buildMethod === 'auto') {
+    if (candidates.length === 0) {
+      throw new AppError('Could not detect the project type. Add a Dockerfile to your repository or choose a build method in the app settings', 400);
+    }
+    return { selected: candidates[0], candidates: candidates.slice(1) };
+  }
+
+  const strategy = STRATEGIES.find(s => s.name === buildMethod);
+  if (!strategy) {
+    throw new AppError(`Build method ${buildMethod} cannot generate a Dockerfile`, 400);
+  }
+
+  const detected = candidates.find(match => match.strategy === strategy.name);
+  if (!detected && !strategy.defaults) {
+    throw new AppError(strategy.undetectedMessage || `Could not detect a ${strategy.label} project`, 400);
+  }
+
+  const project = await readProject(appPath);
+  const selected: BuildStrategyMatch = detected
+    ? { ...detected, reason: `selected in the app settings (${detected.reason})` }
+    : {
+      node: !!project.packageJson,
+      build: !!project.scripts.build,
+      ...strategy.defaults,
+      strategy: strategy.name,
+      score: 0,
+      reason: 'selected in the app settings',
+    };
+
+  if (selected.node && !project.packageJson) {
+    throw new AppError(`${strategy.label} build requires a package.json in the app directory`, 400);
+  }
+
+  return { selected, candidates: candidates.filter(match => match !== detected) };
+};
+
+// ビルド戦略に合うDockerfileを生成して書き込む
+// contextPathはビルドコンテキスト、options.rootDirectoryはそこからアプリのディレクトリへの相対パス
+export const generateDockerfile = async (
+  contextPath: string,
+  match: BuildStrategyMatch,
+  options: NextjsDockerfileOptions = {}
+): Promise<string> => {
+  const strategy = STRATEGIES.find(s => s.name === match.strategy);
+  if (!strategy) {
+    throw new AppError(`Unknown build strategy: ${match.strategy}`, 400);
+  }
+
+  if (!strategy.generate && !strategy.generateWithoutBuilder) {
+    return dockerService.generateNextjsDockerfile(contextPath, options);
+  }
+
+  const appDir = options.rootDirectory ? options.rootDirectory.split(path.sep).join('/') : '';
+  const dockerfilePath = options.dockerfilePath || path.join(contextPath, appDir, 'Dockerfile');
+  const builder = match.node ? await dockerService.generateNodeBuilderStage(contextPath, options) : null;
+  let dockerfile: string;
+  if (builder && strategy.generate) {
+    dockerfile = strategy.generate(builder, match);
+  } else if (!builder && strategy.generateWithoutBuilder) {
+    dockerfile = strategy.generateWithoutBuilder(match, appDir, options.buildSecrets || []);
+  } else {
+    throw new AppError(`${strategy.label} build requires a package.json in the app directory`, 400);
+  }
+
+  await dockerService.writeDockerfile(dockerfilePath, dockerfile);
+  console.log(`Generated ${strategy.label} Dockerfile at ${dockerfilePath}${builder ? ` (package manager: ${builder.packageManager.name}, base image: ${builder.nodeImage})` : ''}`);
+
+  return dockerfilePath;
+};
+
+export default {
+  BUILD_METHODS,
+  getBuildStrategyLabel,
+  parseBuildMethod,
+  detectBuildStrategies,
+  selectBuildStrategy,
+  generateDockerfile,
+};
@@ -0,0 +1,292 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodeVersionService from './nodeVersionService';
+import dockerService from './dockerService';
+import { AppError, BuildPlan, BuildpackLanguage, ProjectFileSource } from '../types';
+
+// ビルドプランを上書きする設定ファイル（アプリのディレクトリに置く）
+export const BUILDPACK_CONFIG_FILE = 'nextdock.json';
+
+// 設定ファイルで指定できる項目
+const CONFIG_FIELDS = ['language', 'image', 'install', 'build', 'start', 'port'] as const;
+
+// バージョンが指定されていない場合に使うベースイメージのバージョン
+const DEFAULT_VERSIONS = {
+  python: '3.12',
+  go: '1.22',
+  ruby: '3.3',
+};
+
+const LANGUAGES: BuildpackLanguage[] = ['node', 'python', 'go', 'ruby', 'custom'];
+
+// 設定ファイルの値に含められない文字（改行・タブなどの制御文字）
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/;
+
+type DetectedPlan = Omit<BuildPlan, 'port' | 'config_file' | 'overrides'>;
+
+// クローンしたディレクトリからファイルを読む
+export const createLocalSource = async (appPath: string): Promise<ProjectFileSource> => ({
+  files: await fs.readdir(appPath).catch(() => [] as string[]),
+  read: file => fs.readFile(path.join(appPath, file), 'utf8').catch(() => null),
+});
+
+// Procfileのwebプロセスのコマンド
+const readProcfile = async (source: ProjectFileSource): Promise<string | null> => {
+  if (!source.files.includes('Procfile')) return null;
+  const procfile = await source.read('Procfile');
+  const web = procfile && procfile.split('\n').map(line => line.match(/^web:\s*(.+)$/)).find(match => match);
+  return web ? web[1].trim() : null;
+};
+
+// .python-versionなどのバージョンの指定を読み取る（3.11、3.11.4、python-3.11.4など）
+const readVersion = async (source: ProjectFileSource, file: string, prefix: string): Promise<string | null> => {
+  if (!source.files.includes(file)) return null;
+  const content = await source.read(file);
+  const match = content && content.trim().match(new RegExp(`^(?:${prefix}-)?(\\d+\\.\\d+)(?:\\.\\d+)?`));
+  return match ? match[1] : null;
+};
+
+const detectNode = async (source: ProjectFileSource): Promise<DetectedPlan | null> => {
+  if (!source.files.includes('package.json')) return null;
+  const packageJson = JSON.parse(await source.read('package.json') || '{}');
+  const scripts = packageJson.scripts || {};
+
+  let installFiles = ['package.json'];
+  let install = 'npm install';
+  if (source.files.includes('pnpm-lock.yaml')) {
+    installFiles = ['package.json', 'pnpm-lock.yaml'];
+    install = 'corepack enable && pnpm install --frozen-lockfile';
+  } else if (source.files.includes('yarn.lock')) {
+    installFiles = ['package.json', 'yarn.lock'];
+    install = 'corepack enable && yarn install';
+  } else if (source.files.includes('package-lock.json')) {
+    installFiles = ['package.json', 'package-lock.json'];
+    install = 'npm ci';
+  }
+
+  return {
+    language: 'node',
+    reason: 'found package.json',
+    image: nodeVersionService.getNodeImage(String(nodeVersionService.DEFAULT_NODE_VERSION)),
+    install_files: installFiles,
+    install,
+    build: scripts.build ? 'npm run build' : null,
+    start: await readProcfile(source) || (scripts.start ? 'npm start' : typeof packageJson.main === 'string' ? `node ${packageJson.main}` : null),
+  };
+};
+
+const detectPython = async (source: ProjectFileSource): Promise<DetectedPlan | null> => {
+  const manifest = ['requirements.txt', 'pyproject.toml', 'Pipfile'].find(file => source.files.includes(file));
+  if (!manifest) return null;
+
+  const version = await readVersion(source, '.python-version', 'python') ||
+    await readVersion(source, 'runtime.txt', 'python') ||
+    DEFAULT_VERSIONS.python;
+
+  const installs: Record<string, { files: string[]; command: string }> = {
+    'requirements.txt': { files: ['requirements.txt'], command: 'pip install --no-cache-dir -r requirements.txt' },
+    // pyproject.tomlはパッケージ自体をインストールするため、ソースをコピーしてからインストールする
+    'pyproject.toml': { files: [], command: 'pip install --no-cache-dir .' },
+    'Pipfile': {
+      files: source.files.includes('Pipfile.lock') ? ['Pipfile', 'Pipfile.lock'] : ['Pipfile'],
+      command: 'pip install --no-cache-dir pipenv && pipenv install --system --deploy',
+    },
+  };
+
+  // Procfile、よくあるエントリーポイントの順に起動コマンドを決める
+  const entrypoint = ['main.py', 'app.py', 'server.py'].find(file => source.files.includes(file));
+  const start = await readProcfile(source) ||
+    (entrypoint ? `python ${entrypoint}` : null) ||
+    (source.files.includes('manage.py') ? 'python manage.py runserver 0.0.0.0:$PORT' : null);
+
+  return {
+    language: 'python',
+    reason: `found ${manifest}`,
+    image: `python:${version}-slim`,
+    install_files: installs[manifest].files,
+    install: installs[manifest].command,
+    build: null,
+    start,
+  };
+};
+
+const detectGo = async (source: ProjectFileSource): Promise<DetectedPlan | null> => {
+  if (!source.files.includes('go.mod')) return null;
+  const goMod = await source.read('go.mod') || '';
+  const version = goMod.match(/^go\s+(\d+\.\d+)/m);
+
+  return {
+    language: 'go',
+    reason: 'found go.mod',
+    image: `golang:${version ? version[1] : DEFAULT_VERSIONS.go}-alpine`,
+    install_files: source.files.includes('go.sum') ? ['go.mod', 'go.sum'] : ['go.mod'],
+    install: 'go mod download',
+    build: 'CGO_ENABLED=0 go build -o /usr/local/bin/app .',
+    start: await readProcfile(source) || 'app',
+  };
+};
+
+const detectRuby = async (source: ProjectFileSource): Promise<DetectedPlan | null> => {
+  if (!source.files.includes('Gemfile')) return null;
+  const version = await readVersion(source, '.ruby-version', 'ruby') || DEFAULT_VERSIONS.ruby;
+  const rails = source.files.includes('bin') && !!(await source.read('Gemfile') || '').match(/gem\s+['"]rails['"]/);
+
+  return {
+    language: 'ruby',
+    reason: 'found Gemfile',
+    image: `ruby:${version}`,
+    install_files: source.files.includes('Gemfile.lock') ? ['Gemfile', 'Gemfile.lock'] : ['Gemfile'],
+    install: 'bundle install',
+    build: null,
+    start: await readProcfile(source) ||
+      (rails ? 'bundle exec rails server -b 0.0.0.0 -p $PORT' : null) ||
+      (source.files.includes('config.ru') ? 'bundle exec rackup -o 0.0.0.0 -p $PORT' : null),
+  };
+};
+
+// 言語の判定（確認する順）
+// Node.jsはフロントエンドのビルドのためにほかの言語と一緒に使われることが多いため最後に確認する
+const DETECTORS = [detectPython, detectGo, detectRuby, detectNode];
+
+// 設定ファイルの内容を検証（指定されていない項目は含めない）
+export const parseBuildPlanConfig = (content: string): Partial<Pick<BuildPlan, typeof CONFIG_FIELDS[number]>> => {
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new AppError(`${BUILDPACK_CONFIG_FILE} is not valid JSON`, 400);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new AppError(`${BUILDPACK_CONFIG_FILE} must contain a JSON object`, 400);
+  }
+
+  const fields = config as Record<string, unknown>;
+  const parsed: Partial<Pick<BuildPlan, typeof CONFIG_FIELDS[number]>> = {};
+  for (const field of CONFIG_FIELDS) {
+    const value = fields[field];
+    if (value === undefined) continue;
+
+    if (field === 'port') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+        throw new AppError(`"port" in ${BUILDPACK_CONFIG_FILE} must be an integer between 1 and 65535`, 400);
+      }
+      parsed.port = value;
+    } else if (field === 'language') {
+      if (!LANGUAGES.includes(value as BuildpackLanguage)) {
+        throw new AppError(`"language" in ${BUILDPACK_CONFIG_FILE} must be one of ${LANGUAGES.join(', ')}`, 400);
+      }
+      parsed.language = value as BuildpackLanguage;
+    } else if (value === null && (field === 'install' || field === 'build')) {
+      // installとbuildはnullを指定すると実行しない
+      parsed[field] = null;
+    } else {
+      if (typeof value !== 'string' || value.trim() === '') {
+        throw new AppError(`"${field}" in ${BUILDPACK_CONFIG_FILE} must be a non-empty string`, 400);
+      }
+      // 値はDockerfileの1行に埋め込むため、改行などで別の命令を追加できないようにする
+      if (CONTROL_CHARACTERS.test(value.trim())) {
+        throw new AppError(`"${field}" in ${BUILDPACK_CONFIG_FILE} must not contain newlines or control characters`, 400);
+      }
+      if (field === 'image' && /\s/.test(value.trim())) {
+        throw new AppError(`"image" in ${BUILDPACK_CONFIG_FILE} must be an image name without spaces`, 400);
+      }
+      parsed[field] = value.trim();
+    }
+  }
+
+  return parsed;
+};
+
+// アプリのディレクトリを解析してビルドプランを作る
+// 言語を判定してインストール・ビルド・起動のコマンドを決め、設定ファイルがあればその内容で上書きする
+// 言語を判定できず、設定ファイルでもイメージと起動コマンドが指定されていない場合はnull
+export const createBuildPlan = async (source: ProjectFileSource): Promise<BuildPlan | null> => {
+  const configContent = source.files.includes(BUILDPACK_CONFIG_FILE) ? await source.read(BUILDPACK_CONFIG_FILE) : null;
+  const config = configContent !== null ? parseBuildPlanConfig(configContent) : {};
+
+  // 設定ファイルで言語が指定されている場合はその言語として判定する
+  let detected: DetectedPlan | null = null;
+  for (const detect of DETECTORS) {
+    const plan = await detect(source).catch(() => null);
+    if (plan && (!config.language || plan.language === config.language)) {
+      detected = plan;
+      break;
+    }
+  }
+
+  if (!detected) {
+    if (!config.image || !config.start) return null;
+    detected = {
+      language: config.language || 'custom',
+      reason: `configured in ${BUILDPACK_CONFIG_FILE}`,
+      image: config.image,
+      install_files: [],
+      install: null,
+      build: null,
+      start: null,
+    };
+  }
+
+  const overrides = Object.keys(config);
+  return {
+    ...detected,
+    ...config,
+    // インストールのコマンドを変更した場合は、必要なファイルがわからないためすべてのファイルをコピーしてから実行する
+    install_files: config.install !== undefined ? [] : detected.install_files,
+    port: config.port || 80,
+    config_file: configContent !== null ? BUILDPACK_CONFIG_FILE : null,
+    overrides,
+  } as BuildPlan;
+};
+
+// ビルドプランでDockerfileを生成できるか確認（起動コマンドを判定できなかった場合はエラー）
+export const assertBuildPlan = (plan: BuildPlan): void => {
+  if (!plan.start) {
+    throw new AppError(`Could not determine the start command for the ${plan.language} app. Add a Procfile or set "start" in ${BUILDPACK_CONFIG_FILE}`, 400);
+  }
+};
+
+// ビルドプランからDockerfileを生成
+// appDirはビルドコンテキストからアプリのディレクトリへの相対パス（ルートは空文字）
+// buildSecretsの環境変数はインストールとビルドのコマンドでだけ読み込む
+export const generateBuildpackDockerfile = (plan: BuildPlan, appDir: string, buildSecrets: string[] = []): string => {
+  assertBuildPlan(plan);
+
+  const from = (file: string) => path.posix.join(appDir || '.', file);
+  const run = (command: string) => `RUN ${dockerService.mountBuildSecrets(command, buildSecrets)}`;
+  const copyInstallFiles = plan.install && plan.install_files.length > 0
+    ? `\n# 依存関係のファイルをコピー\nCOPY ${plan.install_files.map(from).join(' ')} ./\n\n# 依存関係をインストール\n${run(plan.install)}\n`
+    : '';
+  const installAfterCopy = plan.install && plan.install_files.length === 0
+    ? `\n# 依存関係をインストール\n${run(plan.install)}\n`
+    : '';
+  const build = plan.build ? `\n# アプリケーションをビルド\n${run(plan.build)}\n` : '';
+
+  return `
+# ベースイメージ（${plan.language}）
+FROM ${plan.image}
+
+# 作業ディレクトリを設定
+WORKDIR /app
+${copyInstallFiles}
+# すべてのファイルをコピー
+COPY ${appDir ? `${appDir}/` : '.'} ./
+${installAfterCopy}${build}
+# ポート開放と環境変数
+EXPOSE ${plan.port}
+ENV PORT=${plan.port}
+LABEL ${dockerService.IMAGE_PORT_LABEL}="${plan.port}"
+
+# アプリケーションを起動（環境変数を展開するためシェルで実行する）
+CMD ["sh", "-c", ${JSON.stringify(`exec ${plan.start}`)}]
+`;
+};
+
+export default {
+  BUILDPACK_CONFIG_FILE,
+  createLocalSource,
+  parseBuildPlanConfig,
+  createBuildPlan,
+  assertBuildPlan,
+  generateBuildpackDockerfile,
+};
@@ -0,0 +1,162 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { App, Deploy } from '../types';
+import dockerService from './dockerService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// ロールバック用にイメージを残す成功したデプロイの数
+const IMAGE_RETENTION = Math.max(1, parseInt(process.env.DEPLOY_IMAGE_RETENTION || '5'));
+
+// デプロイごとのイメージタグ（デプロイのたびにイメージを上書きしないようにデプロイIDでタグ付けする）
+export const getDeployImageTag = (appId: string, deployId: string): string => {
+  return `nextdock/${appId}:${deployId}`;
+};
+
+// 生成するDockerfileのキャッシュマウントの識別子（アプリごと。キャッシュを削除すると変わる）
+export const getBuildCacheId = (app: App): string => {
+  return `nextdock-${app.id}-${app.build_cache_key || 'default'}`;
+};
+
+// ビルドのキャッシュとして使うイメージ（現在動いているデプロイのイメージ）
+// キャッシュが削除された直後やイメージが残っていない場合はnull
+export const getBuildCacheImage = async (app: App): Promise<string | null> => {
+  if (app.build_no_cache || !app.current_deploy_id) return null;
+
+  const { data: deploy, error } = await supabase
+    .from('nextdock_deploys')
+    .select('id, status, image_tag, image_removed_at')
+    .eq('id', app.current_deploy_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!deploy || !(await isDeployImageAvailable(deploy as Deploy))) return null;
+
+  return deploy.image_tag;
+};
+
+// デプロイのイメージがロールバックに使えるか確認
+export const isDeployImageAvailable = async (deploy: Deploy): Promise<boolean> => {
+  if (deploy.status !== 'success' || !deploy.image_tag || deploy.image_removed_at) {
+    return false;
+  }
+  return dockerService.imageExists(deploy.image_tag);
+};
+
+// 直近の成功したデプロイのイメージだけを残し、それ以外のイメージを削除する
+// 失敗・キャンセルしたデプロイのイメージはロールバックに使えないため残さない
+export const pruneDeployImages = async (appId: string, currentDeployId?: string): Promise<string[]> => {
+  const { data: deploys, error } = await supabase
+    .from('nextdock_deploys')
+    .select('id, status, image_tag, completed_at')
+    .eq('app_id', appId)
+    .not('image_tag', 'is', null)
+    .is('image_removed_at', null)
+    .order('completed_at', { ascending: false, nullsFirst: true });
+
+  if (error) throw error;
+
+  const keep = new Set<string>();
+  for (const deploy of (deploys || []) as Deploy[]) {
+    if (deploy.id === currentDeployId) {
+      keep.add(deploy.image_tag as string);
+    }
+  }
+
+  // ロールバックで同じイメージを使うデプロイがあるため、イメージ単位で数える
+  for (const deploy of (deploys || []) as Deploy[]) {
+    if (keep.size >= IMAGE_RETENTION) break;
+    if (deploy.status === 'success') {
+      keep.add(deploy.image_tag as string);
+    }
+  }
+
+  // 未実行・実行中のロールバックや再起動は、実行するまでimage_tagがないため、元のデプロイのイメージを残す
+  const { data: queued, error: queuedError } = await supabase
+    .from('nextdock_deploys')
+    .select('rollback_of')
+    .eq('app_id', appId)
+    .in('status', ['pending', 'in_progress'])
+    .not('rollback_of', 'is', null);
+
+  if (queuedError) throw queuedError;
+
+  const rollbackSources = new Set(((queued || []) as Deploy[]).map(deploy => deploy.rollback_of as string));
+  const protectedTags = new Set(((deploys || []) as Deploy[])
+    .filter(deploy => rollbackSources.has(deploy.id))
+    .map(deploy => deploy.image_tag as string));
+
+  // 実行中のデプロイのイメージは対象外
+  const removable = ((deploys || []) as Deploy[]).filter(deploy =>
+    !keep.has(deploy.image_tag as string) &&
+    !protectedTags.has(deploy.image_tag as string) &&
+    deploy.status !== 'pending' &&
+    deploy.status !== 'in_progress'
+  );
+
+  const removedTags: string[] = [];
+  for (const tag of Array.from(new Set(removable.map(deploy => deploy.image_tag as string)))) {
+    try {
+      if (!(await dockerService.removeImage(tag))) continue;
+    } catch (removeError) {
+      console.error(`Failed to remove image ${tag}:`, removeError);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('nextdock_deploys')
+      .update({ image_removed_at: new Date().toISOString() })
+      .eq('app_id', appId)
+      .eq('image_tag', tag);
+
+    if (updateError) {
+      console.error(`Failed to mark image ${tag} as removed:`, updateError);
+    }
+
+    removedTags.push(tag);
+  }
+
+  if (removedTags.length > 0) {
+    console.log(`Removed ${removedTags.length} old image(s) for app ${appId}`);
+  }
+
+  return removedTags;
+};
+
+// アプリのデプロイのイメージをすべて削除（アプリを削除するときに使う）
+// 削除に失敗したイメージは記録して続行する
+export const removeAppImages = async (appId: string): Promise<string[]> => {
+  const { data: deploys, error } = await supabase
+    .from('nextdock_deploys')
+    .select('image_tag')
+    .eq('app_id', appId)
+    .not('image_tag', 'is', null)
+    .is('image_removed_at', null);
+
+  if (error) throw error;
+
+  const removedTags: string[] = [];
+  for (const tag of Array.from(new Set(((deploys || []) as Deploy[]).map(deploy => deploy.image_tag as string)))) {
+    try {
+      if (await dockerService.removeImage(tag)) removedTags.push(tag);
+    } catch (removeError) {
+      console.error(`Failed to remove image ${tag}:`, removeError);
+    }
+  }
+
+  return removedTags;
+};
+
+export default {
+  getDeployImageTag,
+  getBuildCacheId,
+  getBuildCacheImage,
+  isDeployImageAvailable,
+  pruneDeployImages,
+  removeAppImages,
+};
@@ -0,0 +1,118 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// ログをデータベースに書き込む間隔（ビルド出力のように細かいログをまとめて書き込む）
+const FLUSH_INTERVAL = parseInt(process.env.DEPLOY_LOG_FLUSH_INTERVAL || '1000');
+
+// 実行中のデプロイのログ
+// ログは追記のみで、データベースには全体を書き込む
+interface DeployLogBuffer {
+  logs: string;
+  timer: NodeJS.Timeout | null;
+  flushing: Promise<void> | null;
+}
+
+const buffers = new Map<string, DeployLogBuffer>();
+
+// メッセージを行ごとにタイムスタンプ付きのログ行にする
+export const formatLogLines = (message: string, date: Date = new Date()): string => {
+  const timestamp = date.toISOString();
+  return message
+    .split('\n')
+    .map(line => line.replace(/\r$/, ''))
+    .filter(line => line.trim() !== '')
+    .map(line => `[${timestamp}] ${line}\n`)
+    .join('');
+};
+
+// ログをデータベースに書き込む
+export const flushDeployLog = async (deployId: string): Promise<void> => {
+  const buffer = buffers.get(deployId);
+  if (!buffer) return;
+
+  if (buffer.timer) {
+    clearTimeout(buffer.timer);
+    buffer.timer = null;
+  }
+
+  // 書き込み中であれば完了を待ってから最新の内容を書き込む
+  if (buffer.flushing) {
+    await buffer.flushing;
+  }
+
+  const logs = buffer.logs;
+  buffer.flushing = (async () => {
+    const { error } = await supabase
+      .from('nextdock_deploys')
+      .update({ logs })
+      .eq('id', deployId);
+
+    if (error) {
+      console.error(`Failed to write logs for deploy ${deployId}:`, error);
+    }
+  })();
+
+  try {
+    await buffer.flushing;
+  } finally {
+    buffer.flushing = null;
+  }
+};
+
+// デプロイのログを開始（既存のログに続けて追記する）
+export const openDeployLog = (deployId: string, existingLogs: string = ''): void => {
+  buffers.set(deployId, {
+    logs: existingLogs && !existingLogs.endsWith('\n') ? `${existingLogs}\n` : existingLogs,
+    timer: null,
+    flushing: null,
+  });
+};
+
+// ログを追記し、一定時間後にデータベースに書き込む
+// 開始されていないログに追記すると既存のログを上書きしてしまうため無視する
+export const appendDeployLog = (deployId: string, message: string): void => {
+  const buffer = buffers.get(deployId);
+  if (!buffer) {
+    console.warn(`Deploy log for ${deployId} is not open, dropping message: ${message}`);
+    return;
+  }
+
+  const lines = formatLogLines(message);
+  if (!lines) return;
+
+  buffer.logs += lines;
+
+  if (!buffer.timer) {
+    buffer.timer = setTimeout(() => {
+      flushDeployLog(deployId).catch(err => console.error(`Failed to flush logs for deploy ${deployId}:`, err));
+    }, FLUSH_INTERVAL);
+  }
+};
+
+// 現在のログ全体を取得
+export const getDeployLog = (deployId: string): string | null => {
+  const buffer = buffers.get(deployId);
+  return buffer ? buffer.logs : null;
+};
+
+// 残りのログを書き込んでバッファを破棄
+export const closeDeployLog = async (deployId: string): Promise<void> => {
+  await flushDeployLog(deployId);
+  buffers.delete(deployId);
+};
+
+export default {
+  formatLogLines,
+  openDeployLog,
+  appendDeployLog,
+  flushDeployLog,
+  getDeployLog,
+  closeDeployLog,
+};
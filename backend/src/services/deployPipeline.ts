@@ -0,0 +1,659 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  App,
+  Deploy,
+  EnvVar,
+  CloneCredentials,
+  DeployCancelledError,
+  DeployStageName,
+  DeployStageResult,
+  CloneStageOutput,
+  DetectStageOutput,
+  BuildStageOutput,
+  ReleaseStageOutput,
+  VerifyStageOutput,
+  NodeVersionInfo,
+  BuildMethod,
+} from '../types';
+import githubService from './githubService';
+import dockerService from './dockerService';
+import deployLogs from './deployLogService';
+import deployImages from './deployImageService';
+import healthCheck from './healthCheckService';
+import planService from './planService';
+import replicaService from './replicaService';
+import nodeVersionService from './nodeVersionService';
+import buildPaths from './buildPathService';
+import buildStrategies from './buildStrategyService';
+import environment from './environmentService';
+import secrets from './secretsService';
+import buildpackService from './buildpackService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// ステージの実行順序
+export const DEPLOY_STAGES: DeployStageName[] = ['clone', 'detect', 'build', 'release', 'verify'];
+
+// Node.jsのバージョンを選んだ根拠のログ表示
+const NODE_VERSION_SOURCES: Record<NodeVersionInfo['source'], string> = {
+  app: 'app settings',
+  engines: 'package.json engines.node',
+  nvmrc: '.nvmrc',
+  'node-version': '.node-version',
+  default: 'default (no version declared)',
+};
+
+// パイプライン全体の実行結果
+export interface DeployPipelineResult {
+  status: 'success' | 'failed' | 'cancelled';
+  stages: DeployStageResult[];
+  failedStage?: DeployStageName;
+  error?: string;
+}
+
+// パイプライン実行中に共有する情報
+interface PipelineContext {
+  deploy: Deploy;
+  app: App;
+  envVars: EnvVar[];
+  credentials: CloneCredentials;
+  repoPath: string;
+  stages: DeployStageResult[];
+  signal?: AbortSignal;
+  // releaseで起動した新しいコンテナ（レプリカごと）
+  candidateContainerIds: string[];
+  // 新しいコンテナにトラフィックを切り替えたか（切り替え後はキャンセル・失敗しても元に戻さない）
+  promoted: boolean;
+}
+
+// リポジトリURLを修正して、GitHub URLを完全な形式にする
+const getFullGitHubUrl = (repoUrl: string): string => {
+  if (!repoUrl.startsWith('https://')) {
+    // ドメインが含まれていない場合は追加
+    return `https://github.com/${repoUrl}.git`;
+  } else if (!repoUrl.endsWith('.git')) {
+    // .gitが含まれていない場合は追加
+    return `${repoUrl}.git`;
+  }
+  return repoUrl;
+};
+
+// アプリのURLを生成
+const getAppUrl = (app: App): string => {
+  const baseDomain = process.env.BASE_DOMAIN || 'nextdock.dev';
+  return process.env.USE_SSL === 'true' || process.env.USE_SSL === 'yes' ?
+    `https://${app.subdomain}.${baseDomain}` :
+    `http://${app.subdomain}.${baseDomain}`;
+};
+
+// デプロイレコードを更新
+const updateDeploy = async (deployId: string, fields: Partial<Deploy>): Promise<void> => {
+  const { error } = await supabase
+    .from('nextdock_deploys')
+    .update(fields)
+    .eq('id', deployId);
+
+  if (error) {
+    console.error(`Failed to update deploy ${deployId}:`, error);
+  }
+};
+
+// デプロイログに残す前に認証情報を取り除く
+const redact = (ctx: PipelineContext | null, text: string): string => {
+  if (!ctx) return githubService.redactSecrets(text);
+  const secret = ctx.credentials.type === 'token' ? ctx.credentials.token : ctx.credentials.private_key;
+  return githubService.redactSecrets(text, [secret]);
+};
+
+// イメージのサイズをログ用に整形
+const formatImageSize = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// デプロイログにタイムスタンプ付きで追記
+const log = (ctx: PipelineContext, message: string): void => {
+  deployLogs.appendDeployLog(ctx.deploy.id, redact(ctx, message));
+};
+
+// ステージを実行し、結果をデプロイレコードに記録する
+const runStage = async <T extends Record<string, any>>(
+  ctx: PipelineContext,
+  stage: DeployStageName,
+  fn: () => Promise<T>
+): Promise<T> => {
+  if (ctx.signal && ctx.signal.aborted) {
+    throw new DeployCancelledError();
+  }
+
+  const startedAt = new Date();
+  console.log(`[deploy ${ctx.deploy.id}] BEGIN stage: ${stage}`);
+  log(ctx, `==> Stage ${stage} started`);
+
+  const record = (result: Pick<DeployStageResult<T>, 'status' | 'output' | 'error'>) => {
+    const finishedAt = new Date();
+    ctx.stages.push({
+      stage,
+      started_at: startedAt.toISOString(),
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      ...result,
+    });
+  };
+
+  try {
+    const output = await fn();
+    record({ status: 'success', output });
+    log(ctx, `==> Stage ${stage} completed (${ctx.stages[ctx.stages.length - 1].duration_ms}ms)`);
+    await updateDeploy(ctx.deploy.id, { stages: ctx.stages });
+    return output;
+  } catch (error: any) {
+    if (error instanceof DeployCancelledError) {
+      record({ status: 'cancelled' });
+      log(ctx, `==> Stage ${stage} cancelled`);
+    } else {
+      record({ status: 'failed', error: redact(ctx, error.message || String(error)) });
+      log(ctx, `==> Stage ${stage} failed: ${error.message || error}`);
+    }
+    await updateDeploy(ctx.deploy.id, { stages: ctx.stages });
+    throw error;
+  } finally {
+    console.log(`[deploy ${ctx.deploy.id}] END stage: ${stage}`);
+  }
+};
+
+// clone: リポジトリを取得
+const cloneStage = async (ctx: PipelineContext): Promise<CloneStageOutput> => {
+  const { app, deploy } = ctx;
+  const repositoryUrl = getFullGitHubUrl(app.repository);
+  console.log(`Original repository URL: ${app.repository}`);
+  console.log(`Full repository URL: ${repositoryUrl}`);
+
+  // Webhookからのデプロイはプッシュされたコミットに固定する
+  const pinnedCommit = deploy.commit_hash;
+
+  log(ctx, `Cloning repository: ${repositoryUrl} (branch: ${app.branch}${pinnedCommit ? `, commit: ${pinnedCommit}` : ''}, auth: ${ctx.credentials.type})`);
+
+  const commit = await githubService.cloneRepository(repositoryUrl, app.branch, ctx.repoPath, pinnedCommit, ctx.credentials, ctx.signal);
+
+  log(ctx, `Repository cloned. Commit: ${commit.hash} - ${commit.message}`);
+  await updateDeploy(deploy.id, {
+    commit_hash: commit.hash,
+    commit_message: commit.message,
+  });
+
+  return { repository_url: repositoryUrl, branch: app.branch, auth: ctx.credentials.type, commit };
+};
+
+// detect: Dockerfileの有無からビルド方法を決定
+const detectStage = async (ctx: PipelineContext): Promise<DetectStageOutput> => {
+  const { app, repoPath } = ctx;
+
+  // モノレポの場合はアプリのディレクトリとDockerfileのパスを設定から決める
+  await buildPaths.assertAppDirectoryExists(repoPath, app);
+  let paths = buildPaths.resolveBuildPaths(repoPath, app);
+  if (app.root_directory || app.dockerfile_path || app.build_context) {
+    log(ctx, `Root directory: ${app.root_directory || '/'}, Dockerfile: ${path.relative(repoPath, paths.dockerfilePath)}`);
+  }
+
+  const dockerfileDir = path.dirname(paths.dockerfilePath);
+  const dockerfileName = path.basename(paths.dockerfilePath);
+
+  console.log(`Checking for Dockerfile in ${dockerfileDir} with any case sensitivity`);
+  let hasDockerfile = await dockerService.checkDockerfile(repoPath, paths.dockerfilePath);
+
+  // 大文字小文字が異なるDockerfileを探す
+  if (!hasDockerfile) {
+    try {
+      const files = await fs.readdir(dockerfileDir);
+
+      // 大文字小文字を区別せずDockerfileという名前を持つファイルを探す
+      const dockerfileAlternatives = files.filter(f =>
+        f.toLowerCase() === dockerfileName.toLowerCase() && f !== dockerfileName
+      );
+
+      if (dockerfileAlternatives.length > 0) {
+        console.log(`Found alternative Dockerfile: ${dockerfileAlternatives[0]}`);
+
+        // 正しい名前に変更
+        const altPath = path.join(dockerfileDir, dockerfileAlternatives[0]);
+        const correctPath = paths.dockerfilePath;
+        await fs.rename(altPath, correctPath);
+        console.log(`Renamed ${altPath} to ${correctPath}`);
+
+        // 名前を変更したので、もう一度チェック
+        hasDockerfile = await dockerService.checkDockerfile(repoPath, paths.dockerfilePath);
+      }
+    } catch (fsError) {
+      console.error('Error searching for alternative Dockerfile:', fsError);
+    }
+  }
+
+  const buildMethod: BuildMethod = hasDockerfile ? 'dockerfile' : (app.build_method || 'auto');
+  console.log(`Using build method: ${buildMethod} (Dockerfile found: ${hasDockerfile})`);
+  log(ctx, `Using build method: ${buildMethod} (Dockerfile found: ${hasDockerfile})`);
+
+  // Dockerfileを生成する場合は、プロジェクトの種類を判定してビルド戦略を選ぶ
+  if (!hasDockerfile && buildMethod !== 'dockerfile') {
+    // 生成する場合のビルドコンテキストは既定でリポジトリのルート
+    paths = buildPaths.resolveBuildPaths(repoPath, app, true);
+    const { selected: strategy, candidates } = await buildStrategies.selectBuildStrategy(paths.appPath, buildMethod);
+    log(ctx, `Using ${buildStrategies.getBuildStrategyLabel(strategy.strategy)} build strategy: ${strategy.reason}`);
+    if (candidates.length > 0) {
+      log(ctx, `Other matching strategies: ${candidates.map(candidate => `${candidate.strategy} (${candidate.reason})`).join(', ')}`);
+    }
+
+    // buildpackの場合はビルドプランを表示する（起動コマンドがわからない場合はビルドの前に失敗させる）
+    if (strategy.plan) {
+      const plan = strategy.plan;
+      log(ctx, `Build plan: ${plan.language} on ${plan.image}, install: ${plan.install || 'none'}, build: ${plan.build || 'none'}, start: ${plan.start || 'unknown'}, port: ${plan.port}`);
+      if (plan.config_file) {
+        log(ctx, `Build plan settings from ${plan.config_file}: ${plan.overrides.join(', ') || 'none'}`);
+      }
+      buildpackService.assertBuildPlan(plan);
+    }
+
+    const result: DetectStageOutput = { has_dockerfile: hasDockerfile, build_method: buildMethod, strategy, strategy_candidates: candidates, paths };
+
+    // 依存関係をインストールする場合は、リポジトリで使われているパッケージマネージャーを検出する
+    if (strategy.node) {
+      const packageManager = await dockerService.detectPackageManager(paths.appPath, paths.contextPath);
+      log(ctx, `Detected package manager: ${packageManager.name}${packageManager.version ? `@${packageManager.version}` : ''} (from ${packageManager.source === 'packageManager' ? 'packageManager field' : packageManager.source === 'lockfile' ? packageManager.lockfile : 'default'})`);
+
+      // ベースイメージのNode.jsのバージョンを選ぶ（対応していない指定の場合はここで失敗させる）
+      const nodeVersion = await nodeVersionService.resolveNodeVersion(paths.appPath, app, paths.contextPath);
+      (nodeVersion.warnings || []).forEach(warning => log(ctx, `Warning: ${warning}. Ignoring it.`));
+      log(ctx, `Using Node.js ${nodeVersion.version} (${nodeVersion.image}) from ${NODE_VERSION_SOURCES[nodeVersion.source]}${nodeVersion.declared && nodeVersion.source !== 'app' ? `: "${nodeVersion.declared}"` : ''}`);
+
+      result.package_manager = packageManager;
+      result.node_version = nodeVersion;
+    }
+
+    // standalone出力を使えるか判定する（使えない場合は.nextとnode_modulesをそのまま入れる）
+    if (strategy.strategy === 'nextjs') {
+      const output = await dockerService.detectNextjsOutput(paths.appPath);
+      log(ctx, output.mode === 'standalone'
+        ? `Using Next.js standalone output (${output.source === 'config' ? `configured in ${output.config_file}` : 'enabled by NextDock'})`
+        : output.source === 'unsupported'
+          ? `Next.js ${output.next_version} does not support standalone output. The image will include the full node_modules`
+          : `Standalone output is disabled by ${output.config_file}. The image will include the full node_modules`);
+      result.nextjs_output = output;
+    }
+
+    await updateDeploy(ctx.deploy.id, {
+      build_strategy: strategy.strategy,
+      package_manager: result.package_manager ? result.package_manager.name : null,
+      node_version: result.node_version ? result.node_version.version : null,
+    });
+
+    return result;
+  }
+
+  return { has_dockerfile: hasDockerfile, build_method: buildMethod, paths };
+};
+
+// build: Dockerイメージをビルド
+const buildStage = async (ctx: PipelineContext, detected: DetectStageOutput): Promise<BuildStageOutput> => {
+  const { app } = ctx;
+  const imageTag = deployImages.getDeployImageTag(app.id, ctx.deploy.id);
+
+  // 現在のデプロイのイメージをレイヤーキャッシュとして使う
+  const cacheFrom = await deployImages.getBuildCacheImage(app);
+  log(ctx, `Building Docker image: ${imageTag}`);
+  log(ctx, app.build_no_cache ? 'Build cache was cleared. Building without cache' : `Build cache: ${cacheFrom || 'none (first build)'}`);
+
+  // ビルド時の環境変数（値はBuildKitのシークレットとして渡し、ログには名前だけを出す）
+  const buildEnvKeys = ctx.envVars.filter(environment.isBuildEnvVar).map(env => env.key);
+  if (buildEnvKeys.length > 0) {
+    log(ctx, `Build environment variables: ${buildEnvKeys.join(', ')}`);
+  }
+
+  // Dockerfileを生成し、何をビルドしたか確認できるようにデプロイに記録する
+  if (detected.strategy) {
+    const dockerfilePath = await buildStrategies.generateDockerfile(detected.paths.contextPath, detected.strategy, {
+      cacheId: deployImages.getBuildCacheId(app),
+      packageManager: detected.package_manager,
+      nodeVersion: detected.node_version,
+      output: detected.nextjs_output,
+      rootDirectory: path.relative(detected.paths.contextPath, detected.paths.appPath),
+      dockerfilePath: detected.paths.dockerfilePath,
+      buildSecrets: buildEnvKeys,
+    });
+    const dockerfile = await fs.readFile(dockerfilePath, 'utf8');
+    log(ctx, `Generated ${buildStrategies.getBuildStrategyLabel(detected.strategy.strategy)} Dockerfile${detected.package_manager ? ` for ${detected.package_manager.name}` : ''}${detected.node_version ? ` on ${detected.node_version.image}` : ''}`);
+    await updateDeploy(ctx.deploy.id, { dockerfile });
+  }
+
+  // ビルドの出力をそのままデプロイログに追記
+  const startedAt = Date.now();
+  await dockerService.buildImage(detected.paths.contextPath, imageTag, detected.build_method, ctx.envVars, line => log(ctx, line), ctx.signal, {
+    cacheFrom: cacheFrom ? [cacheFrom] : [],
+    noCache: !!app.build_no_cache,
+    cacheId: deployImages.getBuildCacheId(app),
+  }, detected.paths.dockerfilePath);
+  const duration = Date.now() - startedAt;
+
+  // イメージのサイズを記録（取得できなくてもデプロイは続ける）
+  const imageSize = await dockerService.getImageSize(imageTag).catch(() => null);
+
+  log(ctx, `Docker image built successfully in ${(duration / 1000).toFixed(1)}s${imageSize !== null ? ` (${formatImageSize(imageSize)})` : ''}`);
+  await updateDeploy(ctx.deploy.id, { image_tag: imageTag, build_duration_ms: duration, build_cache_from: cacheFrom, image_size_bytes: imageSize });
+
+  // キャッシュを削除したあとのビルドが終わったら、次回からキャッシュを使う
+  if (app.build_no_cache) {
+    await supabase
+      .from('nextdock_apps')
+      .update({ build_no_cache: false })
+      .eq('id', app.id);
+  }
+
+  return { image_tag: imageTag, duration_ms: duration, cache_from: cacheFrom, image_size_bytes: imageSize };
+};
+
+// build（ロールバック・再起動）: ビルドせずにロールバック元のデプロイのイメージを再利用
+const reuseImageStage = async (ctx: PipelineContext, sourceDeployId: string): Promise<BuildStageOutput> => {
+  const { data: source, error } = await supabase
+    .from('nextdock_deploys')
+    .select('*')
+    .eq('id', sourceDeployId)
+    .eq('app_id', ctx.app.id)
+    .single();
+
+  if (error || !source) {
+    throw new Error(`Rollback source deploy ${sourceDeployId} not found`);
+  }
+
+  if (!(await deployImages.isDeployImageAvailable(source as Deploy))) {
+    throw new Error(`Image of deploy ${sourceDeployId} is no longer available`);
+  }
+
+  log(ctx, ctx.deploy.trigger === 'restart'
+    ? `Restarting with the current environment variables. Reusing image of deploy ${sourceDeployId}: ${source.image_tag}`
+    : `Rolling back to deploy ${sourceDeployId}. Reusing image: ${source.image_tag}`);
+  await updateDeploy(ctx.deploy.id, { image_tag: source.image_tag, image_size_bytes: source.image_size_bytes ?? null });
+
+  return { image_tag: source.image_tag, reused_from: sourceDeployId, image_size_bytes: source.image_size_bytes ?? null };
+};
+
+// release: 新しいコンテナをレプリカの数だけバージョン付きの名前で起動する
+// nginx-proxyから到達できないステージング用のネットワークで起動するため、この時点では既存のコンテナがトラフィックを受け続ける
+const releaseStage = async (ctx: PipelineContext, built: BuildStageOutput): Promise<ReleaseStageOutput> => {
+  const { app, deploy } = ctx;
+  const replicas = replicaService.getReplicaCount(app);
+
+  // アプリのリソース制限（プランの上限を超える場合は上限に合わせる）
+  const resources = planService.getResourceLimits(app, await planService.getPlanForUser(app.user_id));
+  log(ctx, `Resource limits: memory ${resources.memory_mb}MB, cpus ${resources.cpus}, pids ${resources.pids_limit ?? 'unlimited'}`);
+
+  const containerNames: string[] = [];
+  for (let index = 0; index < replicas; index++) {
+    const containerName = replicaService.getReplicaName(app, deploy.id, index);
+    log(ctx, `Starting new container: ${containerName} (replica ${index + 1}/${replicas})`);
+
+    const containerId = await replicaService.startReplicaContainer(app, built.image_tag, ctx.envVars, resources, containerName);
+    ctx.candidateContainerIds.push(containerId);
+    containerNames.push(containerName);
+
+    log(ctx, `Container started. Container ID: ${containerId}`);
+  }
+
+  return {
+    container_ids: [...ctx.candidateContainerIds],
+    container_names: containerNames,
+    previous_container_ids: replicaService.getAppContainerIds(app),
+    url: getAppUrl(app),
+  };
+};
+
+// verify: 新しいコンテナのヘルスチェック後にトラフィックを切り替え、古いコンテナを削除
+const verifyStage = async (ctx: PipelineContext, released: ReleaseStageOutput): Promise<VerifyStageOutput> => {
+  const { app } = ctx;
+  const settings = healthCheck.getHealthCheckSettings(app);
+
+  // アプリのヘルスチェック設定ですべてのレプリカを確認し、結果をデプロイに記録（失敗したレプリカがあればその結果）
+  const results = await Promise.all(released.container_ids.map((containerId, index) =>
+    healthCheck.runHealthCheck(containerId, dockerService.getStagingNetwork(), settings, {
+      signal: ctx.signal,
+      onLog: message => log(ctx, released.container_ids.length > 1 ? `[replica ${index}] ${message}` : message),
+    })
+  ));
+  const result = results.find(r => r.status !== 'passed') || results[0];
+  await updateDeploy(ctx.deploy.id, { health_check: result });
+
+  if (result.status !== 'passed') {
+    throw new Error(`Health check failed after ${result.attempts} attempt(s): ${result.error}`);
+  }
+
+  // nginx-proxyのネットワークに参加させてからステージング用のネットワークを外す
+  log(ctx, 'Switching traffic to the new container(s)...');
+  await replicaService.promoteContainers(released.container_ids);
+
+  // アプリレコードを更新
+  // 更新できなかった場合は新しいコンテナを振り分け先から外し、古いコンテナで動かし続ける
+  const { error: appUpdateError } = await supabase
+    .from('nextdock_apps')
+    .update({
+      container_id: released.container_ids[0],
+      container_ids: released.container_ids,
+      current_deploy_id: ctx.deploy.id,
+      status: 'running',
+      url: released.url,
+      last_deployed_at: new Date().toISOString()
+    })
+    .eq('id', app.id);
+
+  if (appUpdateError) {
+    await replicaService.withdrawContainers(released.container_ids);
+    throw new Error(`Failed to update app record: ${appUpdateError.message}`);
+  }
+
+  // ここからは新しいコンテナがアプリのコンテナとして記録されているため、失敗しても削除しない
+  ctx.promoted = true;
+  log(ctx, `Traffic switched. App is now available at: ${released.url}`);
+
+  // 古いコンテナを振り分け先から外して削除
+  // 削除に失敗しても新しいコンテナは既に動いているためデプロイは失敗にしない
+  await replicaService.retireContainers(released.previous_container_ids, message => log(ctx, message));
+
+  return { running: true, health_check: result, drained_container_ids: released.previous_container_ids };
+};
+
+// 切り替え前に中断したデプロイの新しいコンテナを削除
+const removeCandidates = async (ctx: PipelineContext | null): Promise<void> => {
+  if (!ctx || ctx.candidateContainerIds.length === 0 || ctx.promoted) return;
+
+  await replicaService.removeContainers(ctx.candidateContainerIds);
+  deployLogs.appendDeployLog(ctx.deploy.id, `Removed new container(s): ${ctx.candidateContainerIds.join(', ')}`);
+};
+
+// 失敗したステージに応じたエラーメッセージを作成
+const describeFailure = (stage: DeployStageName | undefined, error: any): string => {
+  let errorMessage = `Deployment failed${stage ? ` at ${stage} stage` : ''}: ${error.message}\n`;
+
+  // Dockerfileが見つからない場合の特別なガイダンス
+  if (error.message && error.message.includes('Cannot locate specified Dockerfile')) {
+    errorMessage += `\nリポジトリにDockerfileが見つかりませんでした。以下の対処法を試してください：\n`;
+    errorMessage += `1. リポジトリにDockerfileを追加する\n`;
+    errorMessage += `2. アプリ設定でビルド方法を 'auto' または 'nextjs' に変更する\n`;
+    errorMessage += `3. package.jsonファイルが正しく配置されているか確認する\n`;
+  }
+
+  return errorMessage;
+};
+
+// パイプラインの実行前に必要な情報を読み込む
+const loadContext = async (deploy: Deploy, signal?: AbortSignal): Promise<PipelineContext> => {
+  // アプリ情報を取得
+  const { data: app, error: appError } = await supabase
+    .from('nextdock_apps')
+    .select('*')
+    .eq('id', deploy.app_id)
+    .single();
+
+  if (appError || !app) {
+    throw new Error('App not found');
+  }
+
+  // 環境変数を取得
+  const { data: envVars, error: envError } = await supabase
+    .from('nextdock_environment_variables')
+    .select('key, value, scope, is_secret')
+    .eq('app_id', deploy.app_id);
+
+  if (envError) throw envError;
+
+  // デプロイキーが設定されていればSSHで、なければ連携済みのGitHubトークンでクローンする
+  let credentials: CloneCredentials;
+  if (app.deploy_key_private) {
+    credentials = { type: 'deploy_key', private_key: secrets.decryptSecret(app.deploy_key_private) };
+  } else {
+    const githubToken = await secrets.getGithubToken(app.user_id);
+    if (!githubToken) {
+      throw new Error('GitHub token not found');
+    }
+
+    credentials = { type: 'token', token: githubToken };
+  }
+
+  return {
+    deploy,
+    app: app as App,
+    envVars: secrets.decryptEnvVars(envVars || []),
+    credentials,
+    repoPath: `/tmp/repos/${deploy.app_id}`,
+    stages: [],
+    signal,
+    candidateContainerIds: [],
+    promoted: false,
+  };
+};
+
+// 実行しないステージをスキップとして記録
+const skipStages = (ctx: PipelineContext, stages: DeployStageName[]): void => {
+  const now = new Date().toISOString();
+  for (const stage of stages) {
+    ctx.stages.push({ stage, status: 'skipped', started_at: now, finished_at: now, duration_ms: 0 });
+  }
+};
+
+// 実行されなかったステージをスキップとして記録
+const fillSkippedStages = (stages: DeployStageResult[]): DeployStageResult[] => {
+  const now = new Date().toISOString();
+  for (const stage of DEPLOY_STAGES) {
+    if (!stages.some(s => s.stage === stage)) {
+      stages.push({ stage, status: 'skipped', started_at: now, finished_at: now, duration_ms: 0 });
+    }
+  }
+  return stages;
+};
+
+// デプロイパイプラインを実行
+// すべてのデプロイ（手動・新規作成・Webhook）はこの関数を通して実行される
+// signalが中断されると、実行中のクローンやビルドを止めてキャンセルとして記録する
+// トラフィックは新しいコンテナのヘルスチェックが通ってから切り替えるため、切り替え前に失敗・キャンセルしても既存のコンテナはそのまま動き続ける
+// ロールバックと再起動のデプロイはclone・detect・buildを行わず、ロールバック元のイメージからコンテナを起動する
+export const runDeployPipeline = async (deploy: Deploy, signal?: AbortSignal): Promise<DeployPipelineResult> => {
+  let ctx: PipelineContext | null = null;
+
+  // ログはこれまでの内容（キュー投入時のログなど）に追記する
+  deployLogs.openDeployLog(deploy.id, deploy.logs || '');
+  deployLogs.appendDeployLog(deploy.id, `Deployment started (attempt ${deploy.attempts || 1})`);
+
+  try {
+    const context = await loadContext(deploy, signal);
+    ctx = context;
+
+    let built: BuildStageOutput;
+    const rollbackOf = deploy.rollback_of;
+    if (rollbackOf) {
+      skipStages(context, ['clone', 'detect']);
+      built = await runStage(context, 'build', () => reuseImageStage(context, rollbackOf));
+    } else {
+      await runStage(context, 'clone', () => cloneStage(context));
+      const detected = await runStage(context, 'detect', () => detectStage(context));
+      built = await runStage(context, 'build', () => buildStage(context, detected));
+    }
+    const released = await runStage(context, 'release', () => releaseStage(context, built));
+    await runStage(context, 'verify', () => verifyStage(context, released));
+
+    // 成功したときの処理
+    // ログをすべて書き込んでからステータスを更新する（ログのストリームはステータスの変化で終了するため）
+    log(context, `Deployment successful!\nApp is running at: ${released.url}`);
+    await deployLogs.closeDeployLog(deploy.id);
+
+    await updateDeploy(deploy.id, {
+      status: 'success',
+      completed_at: new Date().toISOString(),
+    });
+
+    // ロールバック用に残す数を超えた古いイメージを削除
+    try {
+      await deployImages.pruneDeployImages(deploy.app_id, deploy.id);
+    } catch (pruneError) {
+      console.error(`Failed to prune images for app ${deploy.app_id}:`, pruneError);
+    }
+
+    return { status: 'success', stages: context.stages };
+  } catch (error: any) {
+    // キャンセルの場合は既存のコンテナとアプリのステータスをそのまま残す
+    if (error instanceof DeployCancelledError) {
+      console.log(`Deployment ${deploy.id} cancelled`);
+
+      const stages = fillSkippedStages(ctx ? ctx.stages : []);
+
+      await removeCandidates(ctx);
+      deployLogs.appendDeployLog(deploy.id, 'Deployment cancelled. The previously running container was left untouched.');
+      await deployLogs.closeDeployLog(deploy.id);
+
+      await updateDeploy(deploy.id, {
+        status: 'cancelled',
+        stages,
+        completed_at: new Date().toISOString(),
+      });
+
+      return { status: 'cancelled', stages };
+    }
+
+    console.error(`Deployment failed: ${redact(ctx, error.message || String(error))}`);
+
+    const stages = fillSkippedStages(ctx ? ctx.stages : []);
+    const failedStage = stages.find(s => s.status === 'failed')?.stage;
+
+    // デプロイ失敗を記録
+    await removeCandidates(ctx);
+    deployLogs.appendDeployLog(deploy.id, redact(ctx, describeFailure(failedStage, error)));
+
+    // 切り替え前に失敗した場合、既存のコンテナがあればそのまま動き続けている
+    const previousKept = !!ctx && replicaService.getAppContainerIds(ctx.app).length > 0 && !ctx.promoted;
+    if (previousKept) {
+      deployLogs.appendDeployLog(deploy.id, 'The previously running container was left untouched.');
+    }
+    await deployLogs.closeDeployLog(deploy.id);
+
+    await updateDeploy(deploy.id, {
+      status: 'failed',
+      stages,
+      completed_at: new Date().toISOString(),
+    });
+
+    // 動いているコンテナがなければアプリのステータスを「失敗」に更新
+    if (!previousKept) {
+      await supabase
+        .from('nextdock_apps')
+        .update({ status: 'failed' })
+        .eq('id', deploy.app_id);
+    }
+
+    return { status: 'failed', stages, failedStage, error: redact(ctx, error.message || String(error)) };
+  }
+};
+
+export default {
+  DEPLOY_STAGES,
+  runDeployPipeline,
+};
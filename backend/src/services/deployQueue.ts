@@ -0,0 +1,455 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import os from 'os';
+import { Deploy, AppError } from '../types';
+import deployPipeline from './deployPipeline';
+import deployLogs from './deployLogService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// ワーカーの設定
+const POLL_INTERVAL = parseInt(process.env.DEPLOY_WORKER_INTERVAL || '5000');
+const CONCURRENCY = parseInt(process.env.DEPLOY_WORKER_CONCURRENCY || '1');
+const MAX_ATTEMPTS = parseInt(process.env.DEPLOY_MAX_ATTEMPTS || '3');
+const HEARTBEAT_INTERVAL = parseInt(process.env.DEPLOY_WORKER_HEARTBEAT_INTERVAL || '15000');
+// この時間ハートビートが更新されていない実行中のデプロイは、ワーカーが終了したものとして復旧する
+const HEARTBEAT_TIMEOUT = parseInt(process.env.DEPLOY_WORKER_HEARTBEAT_TIMEOUT || '60000');
+
+// APIサーバーに組み込んだワーカーと単独のワーカーを区別するための識別子
+const WORKER_ID = `${os.hostname()}:${process.pid}:${uuidv4().substring(0, 8)}`;
+
+// PostgreSQLの一意制約違反のエラーコード
+const UNIQUE_VIOLATION = '23505';
+
+// このプロセスで実行中のデプロイ（キャンセル用のAbortControllerを保持）
+const activeDeploys = new Map<string, AbortController>();
+let pollTimer: NodeJS.Timeout | null = null;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+// キューに追加するデプロイの情報
+export interface EnqueueDeployOptions {
+  appId: string;
+  initiatedBy: string;
+  trigger?: Deploy['trigger'];
+  logs?: string;
+  commitHash?: string;
+  commitMessage?: string;
+  // ロールバック元のデプロイID（ビルドせずにそのデプロイのイメージを使う）
+  rollbackOf?: string;
+  // 指定した時間（ミリ秒）が経過するまで実行しない
+  delayMs?: number;
+  // 同じアプリ・同じトリガーの未実行デプロイを新しいデプロイで置き換える
+  coalesce?: boolean;
+}
+
+// デプロイレコードを更新
+const updateDeploy = async (deployId: string, fields: Partial<Deploy>): Promise<void> => {
+  const { error } = await supabase
+    .from('nextdock_deploys')
+    .update(fields)
+    .eq('id', deployId);
+
+  if (error) {
+    console.error(`Failed to update deploy ${deployId}:`, error);
+  }
+};
+
+// 未実行のデプロイを新しいデプロイで置き換えたものとして記録
+const supersedePendingDeploys = async (
+  appId: string,
+  trigger: Deploy['trigger'],
+  reason: string
+): Promise<number> => {
+  const { data, error } = await supabase
+    .from('nextdock_deploys')
+    .update({
+      status: 'skipped',
+      logs: deployLogs.formatLogLines(reason),
+      completed_at: new Date().toISOString(),
+    })
+    .eq('app_id', appId)
+    .eq('trigger', trigger)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to supersede pending deploys for app ${appId}:`, error);
+    return 0;
+  }
+
+  return data ? data.length : 0;
+};
+
+// デプロイをキューに追加（pendingのレコードを作成）
+export const enqueueDeploy = async (options: EnqueueDeployOptions): Promise<Deploy> => {
+  const trigger = options.trigger || 'manual';
+
+  if (options.coalesce) {
+    const superseded = await supersedePendingDeploys(
+      options.appId,
+      trigger,
+      `Skipped: superseded by a newer deploy${options.commitHash ? ` (commit ${options.commitHash.substring(0, 7)})` : ''}.\n`
+    );
+    if (superseded > 0) {
+      console.log(`Superseded ${superseded} pending deploy(s) for app ${options.appId}`);
+    }
+  }
+
+  const scheduledAt = options.delayMs ? new Date(Date.now() + options.delayMs) : new Date();
+
+  const { data: deploy, error } = await supabase
+    .from('nextdock_deploys')
+    .insert([
+      {
+        id: uuidv4(),
+        app_id: options.appId,
+        status: 'pending',
+        logs: deployLogs.formatLogLines(options.logs || 'Deployment queued...'),
+        initiated_by: options.initiatedBy,
+        trigger,
+        commit_hash: options.commitHash,
+        commit_message: options.commitMessage,
+        rollback_of: options.rollbackOf,
+        attempts: 0,
+        scheduled_at: scheduledAt.toISOString(),
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (!deploy) throw new Error('Failed to create deploy record');
+
+  // 同一プロセスでワーカーが動いていれば実行予定時刻に処理する
+  if (pollTimer) {
+    setTimeout(() => {
+      processQueue().catch(err => console.error('Error processing deploy queue:', err));
+    }, options.delayMs || 0);
+  }
+
+  return deploy as Deploy;
+};
+
+// pendingのデプロイを取得して実行権を得る
+// 条件付き更新により、複数のワーカーが同じデプロイを取得することはない
+// 同じアプリのデプロイが実行中の場合は、in_progressのデプロイをアプリごとに1件に制限する一意インデックスにより更新が失敗する
+const claimDeploy = async (deploy: Deploy): Promise<Deploy | null> => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('nextdock_deploys')
+    .update({
+      status: 'in_progress',
+      attempts: (deploy.attempts || 0) + 1,
+      started_at: now,
+      locked_by: WORKER_ID,
+      heartbeat_at: now,
+    })
+    .eq('id', deploy.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      console.log(`Deploy ${deploy.id} is waiting for another deploy of app ${deploy.app_id}`);
+    } else {
+      console.error(`Failed to claim deploy ${deploy.id}:`, error);
+    }
+    return null;
+  }
+
+  return data as Deploy | null;
+};
+
+// アプリに実行中のデプロイがあるか確認
+// 取得を試みる前の絞り込みで、同時実行の防止はclaimDeployの一意インデックスで保証する
+const hasRunningDeploy = async (appId: string): Promise<boolean> => {
+  const { data } = await supabase
+    .from('nextdock_deploys')
+    .select('id')
+    .eq('app_id', appId)
+    .eq('status', 'in_progress')
+    .limit(1);
+
+  return !!data && data.length > 0;
+};
+
+// デプロイのキャンセルを要求
+// 未実行のデプロイはその場でキャンセルし、実行中のデプロイは実行しているワーカーに中断させる
+export const cancelDeploy = async (deploy: Deploy): Promise<Deploy> => {
+  const now = new Date().toISOString();
+
+  if (deploy.status === 'pending') {
+    const { data, error } = await supabase
+      .from('nextdock_deploys')
+      .update({
+        status: 'cancelled',
+        logs: `${deploy.logs || ''}${deployLogs.formatLogLines('Deployment cancelled before it started.')}`,
+        cancel_requested_at: now,
+        completed_at: now,
+      })
+      .eq('id', deploy.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data as Deploy;
+
+    // 更新の直前にワーカーが取得した場合は実行中のデプロイとしてキャンセルする
+    const { data: latest, error: fetchError } = await supabase
+      .from('nextdock_deploys')
+      .select('*')
+      .eq('id', deploy.id)
+      .single();
+
+    if (fetchError) throw fetchError;
+    return cancelDeploy(latest as Deploy);
+  }
+
+  if (deploy.status !== 'in_progress') {
+    throw new AppError(`Deploy cannot be cancelled (status: ${deploy.status})`, 409);
+  }
+
+  const { data, error } = await supabase
+    .from('nextdock_deploys')
+    .update({ cancel_requested_at: now })
+    .eq('id', deploy.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // このプロセスで実行中であればすぐに中断する（他のワーカーは次のポーリングで検知する）
+  const controller = activeDeploys.get(deploy.id);
+  if (controller) {
+    deployLogs.appendDeployLog(deploy.id, 'Cancellation requested.');
+    controller.abort();
+  }
+
+  return data as Deploy;
+};
+
+// 実行中のデプロイにキャンセル要求が届いていれば中断する
+const checkCancellationRequests = async (): Promise<void> => {
+  const running = Array.from(activeDeploys.entries()).filter(([, controller]) => !controller.signal.aborted);
+  if (running.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('nextdock_deploys')
+    .select('id')
+    .in('id', running.map(([id]) => id))
+    .not('cancel_requested_at', 'is', null);
+
+  if (error) {
+    console.error('Failed to check cancellation requests:', error);
+    return;
+  }
+
+  for (const { id } of data || []) {
+    console.log(`Cancelling deploy ${id}`);
+    activeDeploys.get(id)?.abort();
+  }
+};
+
+// このワーカーで実行中のデプロイのハートビートを更新
+const sendHeartbeat = async (): Promise<void> => {
+  const running = Array.from(activeDeploys.keys());
+  if (running.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('nextdock_deploys')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .in('id', running)
+    .eq('locked_by', WORKER_ID)
+    .eq('status', 'in_progress')
+    .select('id');
+
+  if (error) {
+    console.error('Failed to update deploy heartbeat:', error);
+    return;
+  }
+
+  const updated = new Set((data || []).map(({ id }) => id));
+  for (const id of running) {
+    if (!updated.has(id) && activeDeploys.has(id)) {
+      console.warn(`Deploy ${id} is no longer locked by this worker (${WORKER_ID})`);
+    }
+  }
+};
+
+// キューを確認し、実行可能なデプロイを開始
+export const processQueue = async (): Promise<void> => {
+  if (polling) return;
+  polling = true;
+
+  try {
+    await checkCancellationRequests();
+
+    const capacity = CONCURRENCY - activeDeploys.size;
+    if (capacity <= 0) return;
+
+    // 実行予定時刻を過ぎたpendingのデプロイを古い順に取得
+    const { data: pendingDeploys, error } = await supabase
+      .from('nextdock_deploys')
+      .select('*')
+      .eq('status', 'pending')
+      .or(`scheduled_at.is.null,scheduled_at.lte.${new Date().toISOString()}`)
+      .order('created_at', { ascending: true })
+      .limit(capacity * 5);
+
+    if (error) throw error;
+
+    let started = 0;
+    for (const pending of (pendingDeploys || []) as Deploy[]) {
+      if (started >= capacity) break;
+
+      // 同じアプリのデプロイは同時に実行しない
+      if (await hasRunningDeploy(pending.app_id)) continue;
+
+      const deploy = await claimDeploy(pending);
+      if (!deploy) continue;
+
+      started++;
+      const controller = new AbortController();
+      activeDeploys.set(deploy.id, controller);
+      console.log(`Deploy worker picked up deploy ${deploy.id} (app: ${deploy.app_id}, attempt: ${deploy.attempts})`);
+
+      deployPipeline.runDeployPipeline(deploy, controller.signal)
+        .then(result => console.log(`Deploy ${deploy.id} finished: ${result.status}${result.failedStage ? ` (failed at ${result.failedStage})` : ''}`))
+        .catch(err => console.error(`Unexpected error in deploy ${deploy.id}:`, err))
+        .finally(() => {
+          activeDeploys.delete(deploy.id);
+          // 空きができたので次のデプロイを確認
+          setImmediate(() => {
+            processQueue().catch(err => console.error('Error processing deploy queue:', err));
+          });
+        });
+    }
+  } finally {
+    polling = false;
+  }
+};
+
+// ワーカーが終了して中断されたデプロイを、まだ実行中のままであれば更新する
+// ハートビートが変わっていないことを条件にするため、他のワーカーと同時に復旧しても一度しか更新されない
+const releaseOrphanedDeploy = async (deploy: Deploy, fields: Partial<Deploy>): Promise<boolean> => {
+  let query = supabase
+    .from('nextdock_deploys')
+    .update({ ...fields, locked_by: null, heartbeat_at: null })
+    .eq('id', deploy.id)
+    .eq('status', 'in_progress');
+  query = deploy.heartbeat_at ? query.eq('heartbeat_at', deploy.heartbeat_at) : query.is('heartbeat_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error(`Failed to update orphaned deploy ${deploy.id}:`, error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+};
+
+// 中断されたデプロイを復旧
+// ハートビートがHEARTBEAT_TIMEOUTより長く更新されていないデプロイは、実行していたワーカーが途中で終了したもの
+export const recoverOrphanedDeploys = async (): Promise<void> => {
+  const staleBefore = new Date(Date.now() - HEARTBEAT_TIMEOUT).toISOString();
+  const { data: orphaned, error } = await supabase
+    .from('nextdock_deploys')
+    .select('*')
+    .eq('status', 'in_progress')
+    .or(`heartbeat_at.is.null,heartbeat_at.lt.${staleBefore}`);
+
+  if (error) {
+    console.error('Failed to fetch orphaned deploys:', error);
+    return;
+  }
+
+  for (const deploy of (orphaned || []) as Deploy[]) {
+    // このプロセスで実行中のものは対象外
+    if (activeDeploys.has(deploy.id)) continue;
+
+    const attempts = deploy.attempts || 0;
+
+    if (deploy.cancel_requested_at) {
+      // キャンセルが要求されていたデプロイは再実行しない
+      if (await releaseOrphanedDeploy(deploy, {
+        status: 'cancelled',
+        logs: `${deploy.logs || ''}${deployLogs.formatLogLines('Deployment was interrupted by a server restart after cancellation was requested.')}`,
+        completed_at: new Date().toISOString(),
+      })) {
+        console.log(`Marked orphaned deploy ${deploy.id} as cancelled`);
+      }
+    } else if (attempts < MAX_ATTEMPTS) {
+      if (await releaseOrphanedDeploy(deploy, {
+        status: 'pending',
+        logs: `${deploy.logs || ''}${deployLogs.formatLogLines(`Deployment was interrupted by a server restart. Re-queued (attempt ${attempts}/${MAX_ATTEMPTS}).`)}`,
+      })) {
+        console.log(`Re-queued orphaned deploy ${deploy.id} (attempt ${attempts}/${MAX_ATTEMPTS}, worker: ${deploy.locked_by || 'unknown'})`);
+      }
+    } else {
+      const released = await releaseOrphanedDeploy(deploy, {
+        status: 'failed',
+        logs: `${deploy.logs || ''}${deployLogs.formatLogLines(`Deployment was interrupted by a server restart and retry limit (${MAX_ATTEMPTS}) was reached.`)}`,
+        completed_at: new Date().toISOString(),
+      });
+      if (!released) continue;
+
+      console.log(`Marked orphaned deploy ${deploy.id} as failed (attempts exhausted)`);
+      await supabase
+        .from('nextdock_apps')
+        .update({ status: 'failed' })
+        .eq('id', deploy.app_id);
+    }
+  }
+};
+
+// ワーカーを起動
+export const startDeployWorker = async (): Promise<void> => {
+  if (pollTimer) return;
+
+  console.log(`Starting deploy worker ${WORKER_ID} (interval: ${POLL_INTERVAL}ms, concurrency: ${CONCURRENCY})`);
+  await recoverOrphanedDeploys();
+
+  pollTimer = setInterval(() => {
+    processQueue().catch(err => console.error('Error processing deploy queue:', err));
+  }, POLL_INTERVAL);
+
+  // 実行中のデプロイのハートビートを更新し、他のワーカーで中断されたデプロイを復旧する
+  heartbeatTimer = setInterval(() => {
+    sendHeartbeat()
+      .then(recoverOrphanedDeploys)
+      .catch(err => console.error('Error updating deploy heartbeat:', err));
+  }, HEARTBEAT_INTERVAL);
+
+  await processQueue();
+};
+
+// ワーカーを停止（実行中のデプロイはハートビートが途絶えた後に復旧される）
+export const stopDeployWorker = (): void => {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+    console.log('Deploy worker stopped');
+  }
+};
+
+export default {
+  enqueueDeploy,
+  cancelDeploy,
+  processQueue,
+  recoverOrphanedDeploys,
+  startDeployWorker,
+  stopDeployWorker,
+};
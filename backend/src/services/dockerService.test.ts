@@ -0,0 +1,128 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'net';
+import * as grpc from '@grpc/grpc-js';
+import { createBuildSessionServer, createLogDemuxer, createLineSplitter } from './dockerService';
+import { ContainerLogLine } from '../types';
+
+// BuildKitと同じように、ビルドのセッションのgRPCサーバーを呼び出す
+// openBuildSessionと同じく、Dockerが中継する接続の代わりにTCPの接続をサーバーに渡す
+
+const SECRET_VALUE = 'x'.repeat(300);
+
+let listener: net.Server;
+let server: grpc.Server;
+let client: grpc.Client;
+
+// フィールド番号1の文字列だけを持つメッセージ（GetSecretRequest・HealthCheckRequest）
+const encodeRequest = (value: string): Buffer => {
+  const data = Buffer.from(value);
+  assert.ok(data.length < 0x80);
+  return Buffer.concat([Buffer.from([0x0a, data.length]), data]);
+};
+
+// GetSecretResponse（bytes data = 1）からシークレットの値を読み出す
+const decodeSecretResponse = (buffer: Buffer): string => {
+  assert.equal(buffer[0], 0x0a);
+  let length = 0;
+  let shift = 0;
+  let offset = 1;
+  while (true) {
+    const byte = buffer[offset++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) break;
+    shift += 7;
+  }
+  return buffer.subarray(offset, offset + length).toString('utf8');
+};
+
+const call = (method: string, request: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    client.makeUnaryRequest(
+      method,
+      (value: Buffer) => value,
+      (value: Buffer) => value,
+      request,
+      (error, response) => (error ? reject(error) : resolve(response as Buffer))
+    );
+  });
+
+before(async () => {
+  server = createBuildSessionServer({ NPM_TOKEN: SECRET_VALUE });
+  const injector = server.createConnectionInjector(grpc.ServerCredentials.createInsecure());
+  listener = net.createServer(socket => injector.injectConnection(socket));
+  await new Promise<void>(resolve => listener.listen(0, '127.0.0.1', resolve));
+
+  const { port } = listener.address() as AddressInfo;
+  client = new grpc.Client(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+});
+
+after(() => {
+  client.close();
+  server.forceShutdown();
+  listener.close();
+});
+
+test('returns build secrets by id', async () => {
+  const response = await call('/moby.buildkit.secrets.v1.Secrets/GetSecret', encodeRequest('NPM_TOKEN'));
+  assert.equal(decodeSecretResponse(response), SECRET_VALUE);
+});
+
+test('returns NOT_FOUND for unknown secrets', async () => {
+  await assert.rejects(
+    call('/moby.buildkit.secrets.v1.Secrets/GetSecret', encodeRequest('MISSING')),
+    (error: any) => error.code === grpc.status.NOT_FOUND
+  );
+});
+
+test('reports the session as serving to health checks', async () => {
+  const response = await call('/grpc.health.v1.Health/Check', encodeRequest(''));
+  assert.deepEqual([...response], [0x08, 0x01]);
+});
+
+// TTYなしのコンテナのログのフレーム（ストリーム種別1バイト + 予約3バイト + サイズ4バイト + データ）
+const frame = (stream: 1 | 2, text: string): Buffer => {
+  const data = Buffer.from(text);
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(data.length, 4);
+  return Buffer.concat([header, data]);
+};
+
+const demuxLines = (tty: boolean, chunks: Buffer[], timestamps = false): ContainerLogLine[] => {
+  const lines: ContainerLogLine[] = [];
+  const splitter = createLineSplitter(timestamps, line => lines.push(line));
+  const demux = createLogDemuxer(tty, splitter.push);
+  chunks.forEach(chunk => demux(chunk));
+  splitter.flush();
+  return lines;
+};
+
+test('demuxes stdout and stderr frames split across chunks', () => {
+  const data = Buffer.concat([frame(1, 'hello\nwor'), frame(2, 'oops\n'), frame(1, 'ld\n')]);
+
+  // ヘッダーの途中・データの途中を含め、1バイトずつ渡しても同じ結果になる
+  const chunks = Array.from(data, byte => Buffer.from([byte]));
+  const expected = [
+    { stream: 'stdout', text: 'hello' },
+    { stream: 'stderr', text: 'oops' },
+    { stream: 'stdout', text: 'world' },
+  ];
+
+  assert.deepEqual(demuxLines(false, [data]), expected);
+  assert.deepEqual(demuxLines(false, chunks), expected);
+  assert.deepEqual(demuxLines(false, [data.subarray(0, 5), data.subarray(5, 20), data.subarray(20)]), expected);
+});
+
+test('passes TTY output through as stdout and flushes the last partial line', () => {
+  assert.deepEqual(demuxLines(true, [Buffer.from('first\r\nsec'), Buffer.from('ond')]), [
+    { stream: 'stdout', text: 'first' },
+    { stream: 'stdout', text: 'second' },
+  ]);
+});
+
+test('splits timestamps from log lines', () => {
+  assert.deepEqual(demuxLines(false, [frame(1, '2024-01-01T00:00:00.000000000Z ready\n')], true), [
+    { stream: 'stdout', timestamp: '2024-01-01T00:00:00.000000000Z', text: 'ready' },
+  ]);
+});
@@ -2,11 +2,19 @@ import axios from 'axios';
 import simpleGit, { SimpleGit } from 'simple-git';
 import Docker from 'dockerode';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import dotenv from 'dotenv';
 import { promisify } from 'util';
 import { exec } from 'child_process';
-import { GithubBranch, AppError, CommitInfo, EnvVar } from '../types';
+import zlib from 'zlib';
+import * as grpc from '@grpc/grpc-js';
+import tar from 'tar-fs';
+import dockerignoreFilter from '@balena/dockerignore';
+import { v4 as uuidv4 } from 'uuid';
+import { GithubBranch, AppError, CommitInfo, EnvVar, ContainerLogOptions, ContainerLogLine, DeployCancelledError, RunContainerOptions, ResourceLimits, LabeledContainer, BuildCacheOptions, PackageManagerInfo, PackageManagerName, DockerfileOptions, NextjsDockerfileOptions, NextjsOutputInfo, NodeBuilderStage } from '../types';
+import nodeVersionService from './nodeVersionService';
+import environmentService from './environmentService';
 
 dotenv.config();
 
@@ -17,6 +25,35 @@ const docker = new Docker({
   socketPath: process.env.DOCKER_SOCKET || '/var/run/docker.sock',
 });
 
+// BuildKitでビルドする（キャッシュマウントを使うために必要）
+const BUILDKIT_ENABLED = process.env.DOCKER_BUILDKIT !== 'false';
+
+// イメージで待ち受けるポートを示すラベル（ない場合は80番ポート）
+export const IMAGE_PORT_LABEL = 'com.nextdock.port';
+
+// nginx-proxyと同じネットワーク（このネットワークに接続されたコンテナにトラフィックが振り分けられる）
+// Docker Composeのプロジェクト名を考慮したネットワーク名を使用
+export const getProxyNetwork = (): string => process.env.DOCKER_NETWORK || 'nextdock_nextdock-network';
+
+// 切り替え前のコンテナを起動するネットワーク（nginx-proxyからは到達できない）
+export const getStagingNetwork = (): string => process.env.DOCKER_STAGING_NETWORK || 'nextdock-staging';
+
+// アプリでリソース制限が設定されていない場合の既定値
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
+  memory_mb: 512,
+  cpus: 1,
+  pids_limit: null,
+};
+
+// リソース制限をDockerのHostConfigの形式に変換
+// スワップはメモリ制限の2倍まで使えるようにする
+const toResourceConfig = (limits: ResourceLimits) => ({
+  Memory: limits.memory_mb * 1024 * 1024,
+  MemorySwap: limits.memory_mb * 2 * 1024 * 1024,
+  NanoCpus: Math.round(limits.cpus * 1000000000),
+  PidsLimit: limits.pids_limit ?? -1,
+});
+
 // 外部コマンド実行関数
 async function executeDockerCommand(command: string): Promise<string> {
   try {
@@ -234,18 +271,23 @@ export const addWebhook = async (
 /**
  * Dockerfileの存在を確認する
  * @param repoPath レポジトリのパス
+ * @param dockerfilePath Dockerfileのパス（省略時はリポジトリのルートのDockerfile）
  * @returns Dockerfileが存在するかどうか
  */
-export const checkDockerfile = async (repoPath: string): Promise<boolean> => {
+export const checkDockerfile = async (
+  repoPath: string,
+  dockerfilePath: string = path.join(repoPath, 'Dockerfile')
+): Promise<boolean> => {
   try {
-    console.log(`Checking for Dockerfile in: ${repoPath}`);
+    const dockerfileDir = path.dirname(dockerfilePath);
+    console.log(`Checking for Dockerfile in: ${dockerfileDir}`);
     
     // ディレクトリの内容をリスト
-    const files = await fs.readdir(repoPath);
+    const files = await fs.readdir(dockerfileDir);
     console.log(`Files in repository (${files.length}):`, files);
     
     // 標準のDockerfileをチェック
-    const standardPath = path.join(repoPath, 'Dockerfile');
+    const standardPath = dockerfilePath;
     let standardExists = false;
     
     try {
@@ -261,8 +303,8 @@ export const checkDockerfile = async (repoPath: string): Promise<boolean> => {
     // 大文字小文字を区別せずにDockerfileを検索
     if (!standardExists) {
       for (const file of files) {
-        if (file.toLowerCase() === 'dockerfile') {
-          const altPath = path.join(repoPath, file);
+        if (file.toLowerCase() === path.basename(dockerfilePath).toLowerCase()) {
+          const altPath = path.join(dockerfileDir, file);
           console.log(`Found alternative Dockerfile: ${altPath}`);
           
           // ファイルの内容をログ出力
@@ -281,74 +323,559 @@ export const checkDockerfile = async (repoPath: string): Promise<boolean> => {
   }
 };
 
-// Next.js用のDockerfileを生成
-export const generateNextjsDockerfile = async (repoPath: string): Promise<string> => {
-  const dockerfilePath = path.join(repoPath, 'Dockerfile');
+// ロックファイルとパッケージマネージャーの対応（先に見つかったものを使う）
+const LOCKFILES: { file: string; name: PackageManagerName }[] = [
+  { file: 'pnpm-lock.yaml', name: 'pnpm' },
+  { file: 'yarn.lock', name: 'yarn' },
+  { file: 'bun.lockb', name: 'bun' },
+  { file: 'bun.lock', name: 'bun' },
+  { file: 'package-lock.json', name: 'npm' },
+  { file: 'npm-shrinkwrap.json', name: 'npm' },
+];
+
+// 依存関係のインストール前にコピーするパッケージマネージャーの設定ファイル
+const PACKAGE_MANAGER_CONFIG_FILES = ['.npmrc', '.yarnrc', '.yarnrc.yml', 'pnpm-workspace.yaml', 'bunfig.toml'];
+
+const fileExists = (filePath: string): Promise<boolean> =>
+  fs.access(filePath).then(() => true).catch(() => false);
+
+// ディレクトリのpackage.jsonとロックファイルからパッケージマネージャーを判定
+const detectPackageManagerIn = async (repoPath: string): Promise<PackageManagerInfo> => {
+  const lockfiles: typeof LOCKFILES = [];
+  for (const lockfile of LOCKFILES) {
+    if (await fileExists(path.join(repoPath, lockfile.file))) {
+      lockfiles.push(lockfile);
+    }
+  }
+
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(repoPath, 'package.json'), 'utf8'));
+    const match = typeof packageJson.packageManager === 'string'
+      ? packageJson.packageManager.match(/^(npm|yarn|pnpm|bun)@([^+\s]+)/)
+      : null;
+
+    if (match) {
+      const name = match[1] as PackageManagerName;
+      const lockfile = lockfiles.find(l => l.name === name);
+      return { name, version: match[2], lockfile: lockfile ? lockfile.file : null, source: 'packageManager' };
+    }
+  } catch (error) {
+    console.error('Error reading package.json:', error);
+  }
+
+  if (lockfiles.length > 0) {
+    return { name: lockfiles[0].name, version: null, lockfile: lockfiles[0].file, source: 'lockfile' };
+  }
+
+  return { name: 'npm', version: null, lockfile: null, source: 'default' };
+};
+
+// リポジトリで使われているパッケージマネージャーを検出
+// package.jsonのpackageManagerフィールドを優先し、なければロックファイルから判定する
+// モノレポではアプリのディレクトリで見つからなければワークスペースのルートで判定する
+export const detectPackageManager = async (repoPath: string, workspaceRoot: string = repoPath): Promise<PackageManagerInfo> => {
+  const detected = await detectPackageManagerIn(repoPath);
+  if (detected.source !== 'default' || workspaceRoot === repoPath) return detected;
+  return detectPackageManagerIn(workspaceRoot);
+};
+
+// パッケージマネージャーごとのセットアップ・インストール・ビルドのコマンドとキャッシュの場所
+const getPackageManagerCommands = (packageManager: PackageManagerInfo, yarnBerry: boolean) => {
+  const locked = !!packageManager.lockfile;
+
+  switch (packageManager.name) {
+    case 'yarn':
+      return yarnBerry ? {
+        // Plug'n'Playではnode_modulesが作られないため、node_modulesを使うように上書きする
+        setup: ['RUN corepack enable', 'ENV YARN_NODE_LINKER=node-modules'],
+        install: locked ? 'yarn install --immutable' : 'yarn install',
+        build: 'yarn build',
+        cacheTarget: '/root/.yarn/berry/cache',
+      } : {
+        setup: ['RUN corepack enable'],
+        install: locked ? 'yarn install --frozen-lockfile' : 'yarn install',
+        build: 'yarn build',
+        cacheTarget: '/usr/local/share/.cache/yarn',
+      };
+    case 'pnpm':
+      return {
+        setup: ['RUN corepack enable'],
+        install: locked ? 'pnpm install --frozen-lockfile' : 'pnpm install',
+        build: 'pnpm run build',
+        cacheTarget: '/root/.local/share/pnpm/store',
+      };
+    case 'bun':
+      return {
+        setup: ['RUN npm install -g bun'],
+        install: locked ? 'bun install --frozen-lockfile' : 'bun install',
+        build: 'bun run build',
+        cacheTarget: '/root/.bun/install/cache',
+      };
+    default:
+      return {
+        setup: [],
+        install: locked ? 'npm ci' : 'npm install',
+        build: 'npm run build',
+        cacheTarget: '/root/.npm',
+      };
+  }
+};
+
+// Next.jsの設定ファイル
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.cjs', 'next.config.ts'];
+
+// Next.jsのビルド出力の形式を判定
+// next.configでoutputが指定されていればそれに従い、なければ対応しているバージョン（12.2以降）でstandaloneを有効にする
+export const detectNextjsOutput = async (repoPath: string): Promise<NextjsOutputInfo> => {
+  let nextVersion: string | null = null;
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(repoPath, 'package.json'), 'utf8'));
+    nextVersion = (packageJson.dependencies && packageJson.dependencies.next) ||
+      (packageJson.devDependencies && packageJson.devDependencies.next) || null;
+  } catch (error) {
+    // package.jsonがなければバージョンは不明として扱う
+  }
+
+  for (const file of NEXT_CONFIG_FILES) {
+    const config = await fs.readFile(path.join(repoPath, file), 'utf8').catch(() => null);
+    if (config === null) continue;
+
+    const output = config.match(/output\s*:\s*['"`](standalone|export)['"`]/);
+    if (output) {
+      return { mode: output[1] as 'standalone' | 'export', source: 'config', config_file: file, next_version: nextVersion };
+    }
+    break;
+  }
+
+  // canaryやlatestなどバージョンを読み取れない指定は対応しているものとして扱う
+  const version = nextVersion && nextVersion.match(/(\d+)\.(\d+)/);
+  if (version && (parseInt(version[1]) < 12 || (parseInt(version[1]) === 12 && parseInt(version[2]) < 2))) {
+    return { mode: 'server', source: 'unsupported', config_file: null, next_version: nextVersion };
+  }
+
+  return { mode: 'standalone', source: 'enabled', config_file: null, next_version: nextVersion };
+};
+
+// Node.jsのプロジェクトをビルドするステージを生成（依存関係のインストールとソースのコピーまで）
+// 検出したパッケージマネージャーで依存関係をインストールする（yarnとpnpmはcorepackで用意する）
+// BuildKitが有効な場合は、パッケージマネージャーのキャッシュをキャッシュマウントに置いてデプロイ間で再利用する
+// モノレポではビルドコンテキスト（repoPath）のルートで依存関係をインストールし、アプリのディレクトリに移動する
+export const generateNodeBuilderStage = async (
+  repoPath: string,
+  options: DockerfileOptions = {}
+): Promise<NodeBuilderStage> => {
+  const appDir = options.rootDirectory ? options.rootDirectory.split(path.sep).join('/') : '';
+  const appPath = path.join(repoPath, appDir);
+  const cacheId = options.cacheId || 'nextdock';
+  const manager = options.packageManager || await detectPackageManager(appPath, repoPath);
+  const nodeImage = options.nodeVersion
+    ? options.nodeVersion.image
+    : nodeVersionService.getNodeImage(String(nodeVersionService.DEFAULT_NODE_VERSION));
+  
+  // ビルダーとランナーでアプリのディレクトリになるパス
+  const workdir = appDir ? `/app/${appDir}` : '/app';
+  const runnerDir = appDir ? `/nextdock-runner/${appDir}` : '/nextdock-runner';
+  
+  // Yarn 2以降（Berry）は設定ファイルとコマンドのオプションが異なる
+  const yarnBerry = manager.name === 'yarn' && (
+    (manager.version !== null && parseInt(manager.version) >= 2) ||
+    await fileExists(path.join(repoPath, '.yarnrc.yml'))
+  );
+  const commands = getPackageManagerCommands(manager, yarnBerry);
+  
+  // 依存関係のインストールに必要なファイルだけを先にコピーし、ソースの変更でインストールのレイヤーが無効にならないようにする
+  // モノレポではワークスペースのすべてのpackage.jsonが必要になるため、リポジトリ全体をコピーしてからインストールする
+  let copyInstallFiles: string[];
+  if (appDir) {
+    copyInstallFiles = ['COPY . .'];
+  } else {
+    const installFiles = ['package.json'];
+    if (manager.lockfile) installFiles.push(manager.lockfile);
+    for (const file of PACKAGE_MANAGER_CONFIG_FILES) {
+      if (await fileExists(path.join(repoPath, file))) installFiles.push(file);
+    }
+    copyInstallFiles = [`COPY ${installFiles.join(' ')} ./`];
+    if (yarnBerry && await fileExists(path.join(repoPath, '.yarn'))) {
+      copyInstallFiles.push('COPY .yarn ./.yarn');
+    }
+  }
+  const copySources = appDir
+    ? `\n# アプリのディレクトリでビルド\nWORKDIR ${workdir}\n`
+    : '\n# すべてのファイルをコピー\nCOPY . .\n';
+  
+  const packageCacheMount = BUILDKIT_ENABLED ? `--mount=type=cache,id=${cacheId}-${manager.name},target=${commands.cacheTarget} ` : '';
+  const setup = commands.setup.length > 0
+    ? `\n# パッケージマネージャーを用意\nENV COREPACK_ENABLE_DOWNLOAD_PROMPT=0\n${commands.setup.join('\n')}\n`
+    : '';
   
-  // Next.js用のDockerfileテンプレート
   const dockerfile = `
 # ベースイメージ
-FROM node:18-alpine AS builder
+FROM ${nodeImage} AS builder
 
 # 作業ディレクトリを設定
 WORKDIR /app
-
-# パッケージファイルをコピー
-COPY package*.json ./
+${setup}
+# ${appDir ? 'ワークスペース全体' : 'パッケージファイル'}をコピー（${manager.name}${manager.version ? `@${manager.version}` : ''}）
+${copyInstallFiles.join('\n')}
 
 # 依存関係をインストール
-RUN npm ci
+RUN ${packageCacheMount}${mountBuildSecrets(commands.install, options.buildSecrets)}
+${copySources}`;
+  
+  return {
+    dockerfile,
+    appDir,
+    workdir,
+    runnerDir,
+    nodeImage,
+    packageManager: manager,
+    build: commands.build,
+    cacheMount: (name, target) => BUILDKIT_ENABLED ? `--mount=type=cache,id=${cacheId}-${name},target=${target} ` : '',
+    withBuildSecrets: command => mountBuildSecrets(command, options.buildSecrets),
+  };
+};
 
-# すべてのファイルをコピー
-COPY . .
+// ビルド時の環境変数をBuildKitのシークレットからコマンドの環境変数に読み込む
+// BuildKitが無効な場合や環境変数がない場合はコマンドをそのまま返す
+export const mountBuildSecrets = (command: string, keys: string[] = []): string => {
+  if (!BUILDKIT_ENABLED || keys.length === 0) return command;
+  const mounts = keys.map(key => `--mount=type=secret,id=${key}`).join(' ');
+  const exports = keys.map(key => `${key}="$(cat /run/secrets/${key})"`).join(' ');
+  return `${mounts} export ${exports} && ${command}`;
+};
 
+// 生成したDockerfileを書き込む
+export const writeDockerfile = async (dockerfilePath: string, dockerfile: string): Promise<string> => {
+  await fs.mkdir(path.dirname(dockerfilePath), { recursive: true });
+  await fs.writeFile(dockerfilePath, dockerfile);
+  return dockerfilePath;
+};
+
+// Next.js用のDockerfileを生成
+// .next/cacheをキャッシュマウントに置いてデプロイ間で再利用する
+// standalone出力では、本番環境用イメージにserver.jsと実行に必要なファイルだけをコピーする
+export const generateNextjsDockerfile = async (
+  repoPath: string,
+  options: NextjsDockerfileOptions = {}
+): Promise<string> => {
+  const builder = await generateNodeBuilderStage(repoPath, options);
+  const { appDir, workdir, runnerDir, nodeImage } = builder;
+  const dockerfilePath = options.dockerfilePath || path.join(repoPath, appDir, 'Dockerfile');
+  const output = options.output || await detectNextjsOutput(path.join(repoPath, appDir));
+  
+  // next.configでoutputが指定されていない場合は、環境変数でstandalone出力を有効にする
+  const enableStandalone = output.mode === 'standalone' && output.source !== 'config'
+    ? '\n# standalone出力を有効にする\nENV NEXT_PRIVATE_STANDALONE=true\n'
+    : '';
+  
+  // standalone出力のserver.jsは、トレースのルートがワークスペースのルートならアプリのディレクトリの下に作られる
+  const copyStandalone = [
+    ...(appDir ? [
+      `if [ -f .next/standalone/${appDir}/server.js ]; then \\`,
+      '      cp -a .next/standalone/. /nextdock-runner/; \\',
+      '    elif [ -f .next/standalone/server.js ]; then \\',
+    ] : [
+      'if [ -f .next/standalone/server.js ]; then \\',
+    ]),
+    `      cp -a .next/standalone/. ${runnerDir}/; \\`,
+    '    else \\',
+    appDir
+      ? '      cp -a /app/. /nextdock-runner/ && \\'
+      : '      cp -a .next node_modules package.json /nextdock-runner/ && \\',
+    `      rm -rf ${runnerDir}/.next/cache; \\`,
+    '    fi',
+  ].join('\n');
+  
+  // Next.js用のDockerfileテンプレート
+  // ビルダーで本番環境用イメージに入れるファイルを/nextdock-runnerにまとめる
+  // standalone出力が作られなかった場合は、.nextとnode_modulesをコピーしてnext startで起動する
+  // publicなど任意のディレクトリは存在する場合だけコピーする
+  const dockerfile = `${builder.dockerfile}${enableStandalone}
 # Next.jsアプリケーションをビルド
-RUN npm run build
+RUN ${builder.cacheMount('next', `${workdir}/.next/cache`)}${builder.withBuildSecrets(builder.build)}
+
+# 本番環境用イメージに入れるファイルをまとめる
+RUN mkdir -p ${runnerDir} && \\
+    ${copyStandalone} && \\
+    mkdir -p ${runnerDir}/.next && \\
+    if [ -d .next/static ] && [ ! -d ${runnerDir}/.next/static ]; then cp -a .next/static ${runnerDir}/.next/static; fi && \\
+    if [ -d public ] && [ ! -d ${runnerDir}/public ]; then cp -a public ${runnerDir}/public; fi
 
 # 本番環境用イメージ
-FROM node:18-alpine AS runner
+FROM ${nodeImage} AS runner
 
 # 作業ディレクトリを設定
 WORKDIR /app
 
-# 本番環境用の依存関係のみをインストール
-COPY package*.json ./
-RUN npm ci --only=production
-
 # ビルドされたアプリケーションをコピー
-COPY --from=builder /app/.next ./.next
-COPY --from=builder /app/public ./public
-COPY --from=builder /app/node_modules ./node_modules
-COPY --from=builder /app/package.json ./package.json
-
+COPY --from=builder /nextdock-runner ./
+${appDir ? `WORKDIR ${workdir}\n` : ''}
 # ポート開放と環境変数
 EXPOSE 80
+ENV NODE_ENV=production
 ENV PORT=80
+ENV HOSTNAME=0.0.0.0
 
-# アプリケーションを起動
-CMD ["npm", "start"]
+# アプリケーションを起動（standalone出力ではserver.jsを直接起動する）
+CMD ["sh", "-c", "if [ -f server.js ]; then exec node server.js; else exec npm start; fi"]
 `;
 
   // Dockerfileを書き込み
-  await fs.writeFile(dockerfilePath, dockerfile);
-  console.log(`Generated Next.js Dockerfile at ${dockerfilePath}`);
+  await writeDockerfile(dockerfilePath, dockerfile);
+  console.log(`Generated Next.js Dockerfile at ${dockerfilePath} (package manager: ${builder.packageManager.name}, source: ${builder.packageManager.source}, base image: ${nodeImage}, output: ${output.mode})`);
   console.log(`Dockerfile configuration: EXPOSE 80 and ENV PORT=80`);
   
   return dockerfilePath;
 };
 
+// protobufのメッセージをフィールドごとに読み出す（BuildKitの進行状況を読むための最小限の実装）
+// 可変長整数と長さ付きのフィールドだけを扱い、それ以外の型は読み飛ばす
+const readProtoFields = (buffer: Buffer): { field: number; value: number | Buffer }[] => {
+  const fields: { field: number; value: number | Buffer }[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    while (offset < buffer.length) {
+      const byte = buffer[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) break;
+      multiplier *= 128;
+    }
+    return result;
+  };
+
+  while (offset < buffer.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      fields.push({ field, value: readVarint() });
+    } else if (wireType === 2) {
+      const length = readVarint();
+      fields.push({ field, value: buffer.subarray(offset, offset + length) });
+      offset += length;
+    } else if (wireType === 1) {
+      offset += 8;
+    } else if (wireType === 5) {
+      offset += 4;
+    } else {
+      break;
+    }
+  }
+
+  return fields;
+};
+
+// BuildKitの進行状況（StatusResponse）をビルドログの行に変換する
+// 開始したステップ・キャッシュを使ったステップ・ステップの出力とエラーを従来のビルダーに近い形式で出力する
+const createBuildkitProgressReader = () => {
+  const steps = new Map<string, number>();
+  const announced = new Set<string>();
+  const stepNumber = (digest: string): number => {
+    if (!steps.has(digest)) steps.set(digest, steps.size + 1);
+    return steps.get(digest) as number;
+  };
+
+  return (aux: string): { lines: string[]; error: string | null } => {
+    const lines: string[] = [];
+    let error: string | null = null;
+
+    for (const { field, value } of readProtoFields(Buffer.from(aux, 'base64'))) {
+      if (typeof value === 'number') continue;
+
+      if (field === 1) {
+        // Vertex: 1=digest, 3=name, 4=cached, 5=started, 7=error
+        const vertex = readProtoFields(value);
+        const get = (n: number) => vertex.find(f => f.field === n)?.value;
+        const digest = String(get(1) || '');
+        const name = String(get(3) || '');
+        const number = stepNumber(digest);
+
+        if ((get(5) !== undefined || get(4)) && !announced.has(digest)) {
+          announced.add(digest);
+          lines.push(`#${number} ${get(4) ? 'CACHED ' : ''}${name}`);
+        }
+        if (get(7) !== undefined) {
+          error = String(get(7));
+          lines.push(`#${number} ERROR: ${error}`);
+        }
+      } else if (field === 3) {
+        // VertexLog: 1=vertex, 4=msg
+        const log = readProtoFields(value);
+        const digest = String(log.find(f => f.field === 1)?.value || '');
+        const message = log.find(f => f.field === 4)?.value;
+        if (message === undefined) continue;
+
+        String(message).split('\n').filter(line => line.length > 0).forEach(line => {
+          lines.push(`#${stepNumber(digest)} ${line}`);
+        });
+      }
+    }
+
+    return { lines, error };
+  };
+};
+
+// BuildKitのシークレットを提供するgRPCのメソッド
+const GET_SECRET_METHOD = '/moby.buildkit.secrets.v1.Secrets/GetSecret';
+
+// BuildKitがセッションの死活監視に使うgRPCのメソッド（応答しないセッションはビルドの途中でも閉じられる）
+const HEALTH_CHECK_METHOD = '/grpc.health.v1.Health/Check';
+
+// HealthCheckResponse（ServingStatus status = 1）のSERVING（= 1）
+const HEALTH_SERVING_RESPONSE = Buffer.from([0x08, 0x01]);
+
+// フィールド番号1の長さ付きフィールドだけを持つメッセージをエンコード
+// GetSecretRequest（string ID = 1）とGetSecretResponse（bytes data = 1）はどちらもこの形式
+const encodeProtoBytes = (data: Buffer): Buffer => {
+  const length: number[] = [];
+  let remaining = data.length;
+  while (remaining >= 0x80) {
+    length.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  length.push(remaining);
+  return Buffer.concat([Buffer.from([0x0a, ...length]), data]);
+};
+
+// GetSecretRequest（string ID = 1）からシークレットのIDを読み出す
+const decodeSecretRequest = (buffer: Buffer): string => {
+  const id = readProtoFields(buffer).find(({ field, value }) => field === 1 && Buffer.isBuffer(value));
+  return id ? (id.value as Buffer).toString('utf8') : '';
+};
+
+const SECRETS_SERVICE: grpc.ServiceDefinition = {
+  GetSecret: {
+    path: GET_SECRET_METHOD,
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (id: string) => encodeProtoBytes(Buffer.from(id)),
+    requestDeserialize: decodeSecretRequest,
+    responseSerialize: encodeProtoBytes,
+    responseDeserialize: (buffer: Buffer) => buffer,
+  },
+};
+
+// HealthCheckRequestの対象サービスは区別せず、常にSERVINGを返す
+const HEALTH_SERVICE: grpc.ServiceDefinition = {
+  Check: {
+    path: HEALTH_CHECK_METHOD,
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (request: Buffer) => request,
+    requestDeserialize: (buffer: Buffer) => buffer,
+    responseSerialize: (response: Buffer) => response,
+    responseDeserialize: (buffer: Buffer) => buffer,
+  },
+};
+
+// ビルドのセッションで公開するgRPCのメソッド
+const SESSION_METHODS = [GET_SECRET_METHOD, HEALTH_CHECK_METHOD];
+
+// ビルドのセッションでBuildKitからの呼び出しに応答するgRPCサーバーを作成
+export const createBuildSessionServer = (secrets: Record<string, string>): grpc.Server => {
+  const server = new grpc.Server();
+  server.addService(SECRETS_SERVICE, {
+    GetSecret: (call: grpc.ServerUnaryCall<string, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      if (!Object.prototype.hasOwnProperty.call(secrets, call.request)) {
+        return callback({ code: grpc.status.NOT_FOUND, details: `secret ${call.request} not found` });
+      }
+      callback(null, Buffer.from(secrets[call.request]));
+    },
+  });
+  server.addService(HEALTH_SERVICE, {
+    Check: (_call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      callback(null, HEALTH_SERVING_RESPONSE);
+    },
+  });
+  return server;
+};
+
+// ビルドのセッションを開始し、ビルド時の環境変数をBuildKitのシークレットとして提供する
+// シークレットはビルド中のRUNにだけマウントされ、ビルド引数と違ってイメージの履歴に残らない
+const openBuildSession = (secrets: Record<string, string>): Promise<{ id: string; close: () => void }> =>
+  new Promise((resolve, reject) => {
+    const id = uuidv4();
+    docker.modem.dial({
+      method: 'POST',
+      path: '/session',
+      hijack: true,
+      headers: {
+        Upgrade: 'h2c',
+        'X-Docker-Expose-Session-Uuid': id,
+        'X-Docker-Expose-Session-Name': 'nextdock',
+        'X-Docker-Expose-Session-Grpc-Method': SESSION_METHODS,
+      },
+      statusCodes: {
+        200: true,
+        500: 'server error',
+      },
+    }, (err: any, socket: any) => {
+      if (err) return reject(err);
+
+      const server = createBuildSessionServer(secrets);
+      server.createConnectionInjector(grpc.ServerCredentials.createInsecure()).injectConnection(socket);
+
+      resolve({
+        id,
+        close: () => {
+          server.forceShutdown();
+          socket.end();
+        },
+      });
+    });
+  });
+
+// Dockerfileの中でARGとして宣言されている環境変数の名前
+const findSecretBuildArgs = async (dockerfilePath: string, envVars: EnvVar[]): Promise<string[]> => {
+  if (envVars.length === 0) return [];
+
+  const content = await fs.readFile(dockerfilePath, 'utf8').catch(() => '');
+  const declared = new Set(Array.from(content.matchAll(/^\s*ARG\s+([A-Za-z_][A-Za-z0-9_]*)/gim), match => match[1]));
+  return Array.from(new Set(envVars.map(env => env.key).filter(key => declared.has(key))));
+};
+
+// ビルドコンテキストをtar.gzにまとめる（.dockerignoreで除外されたファイルは含めない）
+// Dockerfileと.dockerignoreは除外されていてもビルドに必要なため含める
+const packBuildContext = async (contextPath: string, dockerfile: string): Promise<NodeJS.ReadableStream> => {
+  const dockerignore = await fs.readFile(path.join(contextPath, '.dockerignore'), 'utf8').catch(() => null);
+  const rules = dockerignore !== null ? dockerignoreFilter({ ignorecase: false }).add(dockerignore) : null;
+
+  return tar.pack(contextPath, {
+    ignore: rules
+      ? name => {
+        const relative = path.relative(contextPath, name).split(path.sep).join('/');
+        return relative !== '' && relative !== dockerfile && relative !== '.dockerignore' && rules.ignores(relative);
+      }
+      : undefined,
+  }).pipe(zlib.createGzip());
+};
+
 // Dockerイメージをビルド
 export const buildImage = async (
   repoPath: string,
   imageTag: string,
   buildMethod: string,
-  envVars: EnvVar[] = []
+  envVars: EnvVar[] = [],
+  onProgress?: (line: string) => void,
+  signal?: AbortSignal,
+  cache: BuildCacheOptions = {},
+  dockerfilePath: string = path.join(repoPath, 'Dockerfile')
 ): Promise<string> => {
   try {
     console.log(`BEGIN buildImage - repoPath: ${repoPath}, imageTag: ${imageTag}, buildMethod: ${buildMethod}`);
     
+    // Dockerfileはビルドコンテキスト（repoPath）に含まれている必要がある
+    const dockerfile = path.relative(repoPath, dockerfilePath).split(path.sep).join('/');
+    if (dockerfile.startsWith('..') || path.isAbsolute(dockerfile)) {
+      throw new Error(`Dockerfile ${dockerfilePath} is outside of the build context ${repoPath}`);
+    }
+    
     // Dockerfileの存在を確認
-    const hasDockerfile = await checkDockerfile(repoPath);
+    const hasDockerfile = await checkDockerfile(repoPath, dockerfilePath);
     console.log(`Dockerfile exists: ${hasDockerfile}`);
     
     // Dockerfileがなく、Next.js用のビルドメソッドが選択されていれば生成
@@ -357,11 +884,11 @@ export const buildImage = async (
       
       if (buildMethod === 'nextjs' || buildMethod === 'auto') {
         console.log('Generating Next.js Dockerfile...');
-        await generateNextjsDockerfile(repoPath);
+        await generateNextjsDockerfile(repoPath, { cacheId: cache.cacheId, dockerfilePath });
         console.log('Next.js Dockerfile generated successfully');
         
         // 生成後に再確認
-        const hasGeneratedDockerfile = await checkDockerfile(repoPath);
+        const hasGeneratedDockerfile = await checkDockerfile(repoPath, dockerfilePath);
         console.log(`Generated Dockerfile exists: ${hasGeneratedDockerfile}`);
         
         if (!hasGeneratedDockerfile) {
@@ -369,63 +896,158 @@ export const buildImage = async (
         }
       } else {
         // Dockerfileが必要なのにない場合は明確なエラーメッセージを表示
-        throw new Error(`Cannot locate specified Dockerfile: Dockerfile in ${repoPath}. Please add a Dockerfile to your repository or choose 'auto' or 'nextjs' build method.`);
+        throw new Error(`Cannot locate specified Dockerfile: ${dockerfile} in ${repoPath}. Please add a Dockerfile to your repository or choose another build method.`);
       }
     } else {
-      console.log(`Dockerfile found in ${repoPath}`);
+      console.log(`Dockerfile found: ${dockerfile} in ${repoPath}`);
     }
     
-    // ビルド引数（環境変数などを含む）
+    // ビルド時の環境変数はBuildKitのシークレットとして渡す（RUN --mount=type=secret,id=<名前>で読み込める）
+    // シークレットでない環境変数は、ARGで読み込むDockerfileのために従来どおりビルド引数としても渡す
+    // BuildKitが無効な場合はシークレットを使えないため、すべてビルド引数として渡す
     const buildArgs: Record<string, string> = {};
-    envVars.forEach(env => {
-      buildArgs[env.key] = env.value;
+    const buildSecrets: Record<string, string> = {};
+    envVars.filter(environmentService.isBuildEnvVar).forEach(env => {
+      if (BUILDKIT_ENABLED) {
+        buildSecrets[env.key] = env.value;
+      }
+      if (!BUILDKIT_ENABLED || !env.is_secret) {
+        buildArgs[env.key] = env.value;
+      }
     });
-    console.log(`Build args: ${Object.keys(buildArgs).length} environment variables`);
+    console.log(`Build environment: ${Object.keys(buildSecrets).length} secrets, ${Object.keys(buildArgs).length} build args`);
+    
+    // シークレットはビルド引数として渡さないため、ARGで読み込んでいるDockerfileでは空になる
+    const secretArgs = await findSecretBuildArgs(dockerfilePath, envVars.filter(env => environmentService.isBuildEnvVar(env) && env.is_secret && !(env.key in buildArgs)));
+    if (secretArgs.length > 0) {
+      const warning = `Warning: ${secretArgs.join(', ')} ${secretArgs.length > 1 ? 'are' : 'is'} declared with ARG in ${dockerfile} but secret build variables are only passed as BuildKit secrets, so ARG will be empty. Read them with RUN --mount=type=secret,id=<name> instead.`;
+      console.warn(warning);
+      if (onProgress) onProgress(warning);
+    }
+    
+    // 次回のビルドでこのイメージをキャッシュとして使えるよう、キャッシュのメタデータをイメージに含める
+    if (BUILDKIT_ENABLED) {
+      buildArgs.BUILDKIT_INLINE_CACHE = '1';
+    }
+    const cacheFrom = cache.noCache ? [] : (cache.cacheFrom || []);
+    console.log(`Build cache: ${cache.noCache ? 'disabled' : cacheFrom.length > 0 ? `from ${cacheFrom.join(', ')}` : 'local only'} (BuildKit: ${BUILDKIT_ENABLED})`);
     
     // ビルドするファイルを取得
     console.log('Preparing build context for Docker daemon');
     const files = await fs.readdir(repoPath);
     console.log(`Found ${files.length} files/directories in build context`);
+    const context = await packBuildContext(repoPath, dockerfile);
+    
+    // BuildKitのビルドはシークレットを提供するセッションと一緒に実行する
+    const session = BUILDKIT_ENABLED ? await openBuildSession(buildSecrets) : null;
     
     // Dockerイメージをビルド
     console.log('Starting Docker build...');
     return new Promise<string>((resolve, reject) => {
-      docker.buildImage({
-        context: repoPath,
-        src: ['.']  // すべてのファイルを含める
-      }, {
-        t: imageTag,
-        buildargs: buildArgs,
+      docker.modem.dial({
+        path: '/build?',
+        method: 'POST',
+        file: context,
+        options: {
+          t: imageTag,
+          dockerfile,
+          buildargs: buildArgs,
+          nocache: !!cache.noCache,
+          ...(cacheFrom.length > 0 ? { cachefrom: JSON.stringify(cacheFrom) } : {}),
+          ...(session ? { version: '2', session: session.id } : {}),
+        },
+        isStream: true,
+        statusCodes: {
+          200: true,
+          500: 'server error',
+        },
       }, (err: any, stream: any) => {
         if (err) {
           console.error('Docker build error:', err);
+          if (session) session.close();
           return reject(err);
         }
         
         if (!stream) {
           console.error('Docker build stream not available');
+          if (session) session.close();
           return reject(new Error('Build stream not available'));
         }
+        if (session) stream.on('close', session.close);
         
         // 進行状況のログを表示
         console.log('Docker build in progress...');
         
+        // 中断された場合はビルドのストリームを閉じる（接続が切れるとDockerデーモンもビルドを中止する）
+        let cancelled = false;
+        const onAbort = () => {
+          cancelled = true;
+          console.log('Docker build aborted');
+          stream.destroy();
+          reject(new DeployCancelledError());
+        };
+        if (signal) {
+          if (signal.aborted) return onAbort();
+          signal.addEventListener('abort', onAbort, { once: true });
+        }
+        
         // ビルドログを処理
+        // streamの出力は行の途中で分割されることがあるため、改行までバッファしてから渡す
+        let partialLine = '';
+        let buildError: string | null = null;
+        const buildkitProgress = createBuildkitProgressReader();
+        
+        const emit = (text: string) => {
+          process.stdout.write(text);
+          if (!onProgress) return;
+          
+          partialLine += text;
+          const lines = partialLine.split('\n');
+          partialLine = lines.pop() || '';
+          lines.forEach(line => onProgress(line));
+        };
+        
         docker.modem.followProgress(
           stream,
           (err: any, res: any) => {
+            if (signal) signal.removeEventListener('abort', onAbort);
+            if (cancelled) return;
+            
+            if (partialLine && onProgress) {
+              onProgress(partialLine);
+              partialLine = '';
+            }
+            
             if (err) {
               console.error('Docker build failed:', err);
               return reject(err);
             }
+            
+            // ビルドの失敗はエラーイベントとして通知される
+            if (buildError) {
+              console.error('Docker build failed:', buildError);
+              return reject(new Error(`Docker build failed: ${buildError}`));
+            }
+            
             console.log('Docker build completed successfully');
             console.log(`Image created: ${imageTag}`);
             resolve(imageTag);
           },
           (event: any) => {
             // 進行状況のイベントを処理
-            if (event.stream) {
-              process.stdout.write(event.stream);
+            if (event.id === 'moby.buildkit.trace' && event.aux) {
+              // BuildKitの進行状況はprotobufでエンコードされている
+              const progress = buildkitProgress(event.aux);
+              if (progress.error && !buildError) buildError = progress.error;
+              progress.lines.forEach(line => emit(`${line}\n`));
+            } else if (event.stream) {
+              emit(event.stream);
+            } else if (event.error) {
+              buildError = event.error;
+              emit(`ERROR: ${event.error}\n`);
+            } else if (event.status && !event.progress) {
+              // イメージのpullなど（プログレスバーは省略）
+              emit(`${event.id ? `${event.id}: ` : ''}${event.status}\n`);
             }
           }
         );
@@ -443,16 +1065,18 @@ export const buildImage = async (
 export const runContainer = async (
   imageTag: string, 
   subdomain: string, 
-  envVars: EnvVar[] = []
+  envVars: EnvVar[] = [],
+  options: RunContainerOptions = {}
 ): Promise<string> => {
   try {
     // コンテナ名を生成
-    const containerName = `nextdock-${subdomain}`;
+    const containerName = options.name || `nextdock-${subdomain}`;
     
     console.log(`BEGIN runContainer - imageTag: ${imageTag}, containerName: ${containerName}`);
     
-    // 環境変数を整形
-    const env = envVars.map(e => `${e.key}=${e.value}`);
+    // 環境変数を整形（ビルド時だけに使う環境変数はコンテナに渡さない）
+    const runtimeEnvVars = envVars.filter(environmentService.isRuntimeEnvVar);
+    const env = runtimeEnvVars.map(e => `${e.key}=${e.value}`);
     
     // 必要なNginx Proxy環境変数が設定されているか確認
     const baseDomain = process.env.BASE_DOMAIN || 'nextdock.org';
@@ -460,7 +1084,7 @@ export const runContainer = async (
     
     // カスタムドメインを検出（VIRTUAL_HOSTから）
     let customDomain = '';
-    const virtualHostEnv = envVars.find(e => e.key === 'VIRTUAL_HOST');
+    const virtualHostEnv = runtimeEnvVars.find(e => e.key === 'VIRTUAL_HOST');
     if (virtualHostEnv && virtualHostEnv.value) {
       if (!virtualHostEnv.value.endsWith(`.${baseDomain}`)) {
         customDomain = virtualHostEnv.value;
@@ -469,17 +1093,19 @@ export const runContainer = async (
     }
     
     // 不足している環境変数を追加
-    if (!envVars.some(env => env.key === 'VIRTUAL_HOST')) {
+    if (!runtimeEnvVars.some(env => env.key === 'VIRTUAL_HOST')) {
       env.push(`VIRTUAL_HOST=${appDomain}`);
     }
     
-    if (!envVars.some(env => env.key === 'VIRTUAL_PORT')) {
-      env.push(`VIRTUAL_PORT=80`);
+    // アプリが待ち受けるポート（buildpackで生成したイメージはラベルで指定される）
+    const containerPort = await getImagePort(imageTag);
+    
+    if (!runtimeEnvVars.some(env => env.key === 'VIRTUAL_PORT')) {
+      env.push(`VIRTUAL_PORT=${containerPort}`);
     }
     
     // Nginxネットワークの設定
-    // Docker Composeのプロジェクト名を考慮したネットワーク名を使用
-    const networkMode = process.env.DOCKER_NETWORK || 'nextdock_nextdock-network';
+    const networkMode = options.network || getProxyNetwork();
     console.log(`使用ネットワーク: ${networkMode}`);
     
     // コンテナを作成
@@ -488,15 +1114,13 @@ export const runContainer = async (
       name: containerName,
       Env: env,
       ExposedPorts: {
-        '80/tcp': {},
+        [`${containerPort}/tcp`]: {},
       },
       HostConfig: {
         PortBindings: {
-          '80/tcp': [{ HostPort: '0' }],
+          [`${containerPort}/tcp`]: [{ HostPort: '0' }],
         },
-        Memory: 512 * 1024 * 1024, // 512MB
-        MemorySwap: 1024 * 1024 * 1024, // 1GB
-        NanoCpus: 1000000000, // 1 CPU
+        ...toResourceConfig(options.resources || DEFAULT_RESOURCE_LIMITS),
         RestartPolicy: {
           Name: 'always',
         },
@@ -534,13 +1158,13 @@ export const runContainer = async (
     
     // コンテナ情報を取得
     const containerInfo = await container.inspect();
-    const port = containerInfo.NetworkSettings.Ports['80/tcp'] ? 
-      containerInfo.NetworkSettings.Ports['80/tcp'][0].HostPort : null;
+    const port = containerInfo.NetworkSettings.Ports[`${containerPort}/tcp`] ? 
+      containerInfo.NetworkSettings.Ports[`${containerPort}/tcp`][0].HostPort : null;
     
     if (!port) {
       console.warn('コンテナポートの取得に失敗しました');
     } else {
-      console.log(`ポートマッピング: ホスト ${port} -> コンテナ 80`);
+      console.log(`ポートマッピング: ホスト ${port} -> コンテナ ${containerPort}`);
     }
     
     // URLを表示
@@ -624,39 +1248,350 @@ export const stopAndRemoveContainer = async (containerId: string): Promise<void>
   }
 };
 
-// コンテナのログを取得
-export const getContainerLogs = async (
-  containerId: string, 
-  options: { tail?: number; follow?: boolean; stdout?: boolean; stderr?: boolean } = {}
-): Promise<string> => {
-  if (!containerId) return '';
+// 実行中のコンテナのリソース制限を変更（再作成せずに反映する）
+export const updateContainerResources = async (containerId: string, limits: ResourceLimits): Promise<void> => {
+  try {
+    const container = docker.getContainer(containerId);
+    await container.update(toResourceConfig(limits));
+  } catch (error) {
+    console.error('Error updating container resources:', error);
+    throw error;
+  }
+};
+
+// コンテナをネットワークに接続
+export const connectContainerToNetwork = async (containerId: string, networkName: string): Promise<void> => {
+  try {
+    await docker.getNetwork(networkName).connect({ Container: containerId });
+  } catch (error: any) {
+    // 既に接続されている場合は無視
+    if (error.statusCode === 403 && /already exists/i.test(error.message || '')) {
+      return;
+    }
+    console.error(`Error connecting container to network ${networkName}:`, error);
+    throw error;
+  }
+};
+
+// コンテナをネットワークから切断
+export const disconnectContainerFromNetwork = async (containerId: string, networkName: string): Promise<void> => {
+  try {
+    await docker.getNetwork(networkName).disconnect({ Container: containerId });
+  } catch (error: any) {
+    // コンテナが存在しない、または接続されていない場合は無視
+    if (error.statusCode === 404 || (error.statusCode === 403 && /not connected/i.test(error.message || ''))) {
+      return;
+    }
+    console.error(`Error disconnecting container from network ${networkName}:`, error);
+    throw error;
+  }
+};
+
+// ネットワーク上でのコンテナのIPアドレスを取得
+export const getContainerAddress = async (containerId: string, networkName: string): Promise<string | null> => {
+  const containerInfo = await docker.getContainer(containerId).inspect();
+  const network = containerInfo.NetworkSettings.Networks[networkName];
+  return network && network.IPAddress ? network.IPAddress : null;
+};
+
+// ステージング用のネットワークを用意する
+// このプロセスがコンテナ内で動いている場合は、ヘルスチェックのためにネットワークに参加する
+export const ensureStagingNetwork = async (): Promise<string> => {
+  const networkName = getStagingNetwork();
+
+  try {
+    await docker.getNetwork(networkName).inspect();
+  } catch (error: any) {
+    if (error.statusCode !== 404) throw error;
+    console.log(`Creating staging network: ${networkName}`);
+    await docker.createNetwork({
+      Name: networkName,
+      Driver: 'bridge',
+      Labels: { 'com.nextdock.type': 'staging' },
+    });
+  }
+
+  try {
+    // コンテナ内ではホスト名がコンテナIDになる
+    const self = await docker.getContainer(os.hostname()).inspect();
+    if (!self.NetworkSettings.Networks[networkName]) {
+      await connectContainerToNetwork(self.Id, networkName);
+      console.log(`Connected ${self.Name} to staging network ${networkName}`);
+    }
+  } catch (error: any) {
+    // コンテナ外で動いている場合はホストから直接到達できる
+    if (error.statusCode !== 404) {
+      console.error('Error joining staging network:', error);
+    }
+  }
+
+  return networkName;
+};
+
+// イメージが存在するか確認
+export const imageExists = async (imageTag: string): Promise<boolean> => {
+  try {
+    await docker.getImage(imageTag).inspect();
+    return true;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return false;
+    }
+    console.error('Error inspecting image:', error);
+    throw error;
+  }
+};
+
+// ラベルで指定されたポート番号（ないまたは不正な場合は80）
+const parsePortLabel = (labels: Record<string, string> | null | undefined): number => {
+  const port = labels && parseInt(labels[IMAGE_PORT_LABEL]);
+  return port && port > 0 && port <= 65535 ? port : 80;
+};
+
+// イメージのアプリが待ち受けるポートを取得
+export const getImagePort = async (imageTag: string): Promise<number> => {
+  const info = await docker.getImage(imageTag).inspect();
+  return parsePortLabel(info.Config && info.Config.Labels);
+};
+
+// コンテナのアプリが待ち受けるポートを取得（コンテナにはイメージのラベルが引き継がれる）
+export const getContainerPort = async (containerId: string): Promise<number> => {
+  const containerInfo = await docker.getContainer(containerId).inspect();
+  return parsePortLabel(containerInfo.Config && containerInfo.Config.Labels);
+};
+
+// イメージのサイズ（バイト数）を取得（存在しない場合はnull）
+export const getImageSize = async (imageTag: string): Promise<number | null> => {
+  try {
+    const info = await docker.getImage(imageTag).inspect();
+    return info.Size;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return null;
+    }
+    console.error('Error inspecting image:', error);
+    throw error;
+  }
+};
+
+// イメージを削除
+// 存在しないイメージは無視し、コンテナで使用中のイメージは削除せずにfalseを返す
+export const removeImage = async (imageTag: string): Promise<boolean> => {
+  try {
+    await docker.getImage(imageTag).remove();
+    return true;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return true;
+    }
+    if (error.statusCode === 409) {
+      console.log(`Image ${imageTag} is in use, skipping removal`);
+      return false;
+    }
+    console.error('Error removing image:', error);
+    throw error;
+  }
+};
+
+// コンテナの状態を取得（存在しない場合はnull）
+export const getContainerState = async (containerId: string): Promise<Docker.ContainerInspectInfo['State'] | null> => {
+  if (!containerId) return null;
   
   try {
     const container = docker.getContainer(containerId);
-    
-    // dockerode用に型を修正
-    const mergedOptions: any = {
-      tail: options.tail || 100,
-      stdout: options.stdout !== false,
-      stderr: options.stderr !== false
+    const containerInfo = await container.inspect();
+    return containerInfo.State;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return null;
+    }
+    console.error('Error inspecting container:', error);
+    throw error;
+  }
+};
+
+// コンテナの名前と状態を取得（存在しない場合はnull）
+export const getContainerInfo = async (containerId: string): Promise<{ name: string; state: Docker.ContainerInspectInfo['State']; restartCount: number } | null> => {
+  if (!containerId) return null;
+
+  try {
+    const containerInfo = await docker.getContainer(containerId).inspect();
+    return {
+      name: containerInfo.Name.replace(/^\//, ''),
+      state: containerInfo.State,
+      restartCount: containerInfo.RestartCount,
     };
-    
-    // followオプションがtrueの場合に限り明示的に設定
-    if (options.follow === true) {
-      mergedOptions.follow = true;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return null;
     }
-    
-    // ログを取得
-    const logs = await container.logs(mergedOptions) as unknown as Buffer;
-    
-    // バッファをテキストに変換
-    return logs.toString('utf8');
+    console.error('Error inspecting container:', error);
+    throw error;
+  }
+};
+
+// com.nextdock.appラベルが付いたコンテナを停止中のものも含めて取得
+export const listAppContainers = async (): Promise<LabeledContainer[]> => {
+  const containers = await docker.listContainers({
+    all: true,
+    filters: { label: ['com.nextdock.app'] },
+  });
+
+  return containers.map(container => ({
+    id: container.Id,
+    name: (container.Names[0] || '').replace(/^\//, ''),
+    subdomain: container.Labels['com.nextdock.app'],
+    state: container.State,
+  }));
+};
+
+// コンテナのログを取得
+// Dockerのログストリームを分離する
+// TTYなしのコンテナのログは、8バイトのヘッダー（ストリーム種別1バイト + 予約3バイト + サイズ4バイト）付きのフレームで送られる
+// フレームはチャンクの境界をまたぐことがあるため、足りない分はバッファして次のチャンクを待つ
+export const createLogDemuxer = (
+  tty: boolean,
+  onData: (stream: ContainerLogLine['stream'], data: Buffer) => void
+) => {
+  let pending = Buffer.alloc(0);
+
+  return (chunk: Buffer) => {
+    if (tty) {
+      onData('stdout', chunk);
+      return;
+    }
+
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 8) {
+      const size = pending.readUInt32BE(4);
+      if (pending.length < 8 + size) break;
+
+      onData(pending[0] === 2 ? 'stderr' : 'stdout', pending.subarray(8, 8 + size));
+      pending = pending.subarray(8 + size);
+    }
+  };
+};
+
+// ストリームごとに改行までバッファし、1行ずつ渡す
+export const createLineSplitter = (timestamps: boolean, onLine: (line: ContainerLogLine) => void) => {
+  const partial: Record<ContainerLogLine['stream'], string> = { stdout: '', stderr: '' };
+
+  const emit = (stream: ContainerLogLine['stream'], raw: string) => {
+    const text = raw.replace(/\r$/, '');
+    if (!timestamps) {
+      onLine({ stream, text });
+      return;
+    }
+
+    // timestampsオプション指定時は行頭に「RFC3339形式の時刻 + 空白」が付く
+    const spaceIndex = text.indexOf(' ');
+    onLine(spaceIndex > 0
+      ? { stream, timestamp: text.substring(0, spaceIndex), text: text.substring(spaceIndex + 1) }
+      : { stream, text });
+  };
+
+  return {
+    push: (stream: ContainerLogLine['stream'], data: Buffer) => {
+      const lines = (partial[stream] + data.toString('utf8')).split('\n');
+      partial[stream] = lines.pop() || '';
+      lines.forEach(line => emit(stream, line));
+    },
+    flush: () => {
+      (['stdout', 'stderr'] as const).forEach(stream => {
+        if (partial[stream]) {
+          emit(stream, partial[stream]);
+          partial[stream] = '';
+        }
+      });
+    },
+  };
+};
+
+// dockerode用のログ取得オプションに変換
+const toDockerLogOptions = (options: ContainerLogOptions): any => {
+  const dockerOptions: any = {
+    tail: options.tail === undefined ? 100 : options.tail,
+    stdout: options.stdout !== false,
+    stderr: options.stderr !== false,
+    timestamps: options.timestamps === true,
+  };
+
+  if (options.since) {
+    dockerOptions.since = options.since;
+  }
+
+  return dockerOptions;
+};
+
+// コンテナのログを行単位で取得
+export const getContainerLogLines = async (
+  containerId: string,
+  options: ContainerLogOptions = {}
+): Promise<ContainerLogLine[]> => {
+  if (!containerId) return [];
+
+  try {
+    const container = docker.getContainer(containerId);
+    const info = await container.inspect();
+
+    const logs = await container.logs({ ...toDockerLogOptions(options), follow: false }) as unknown as Buffer;
+
+    const lines: ContainerLogLine[] = [];
+    const splitter = createLineSplitter(options.timestamps === true, line => lines.push(line));
+    createLogDemuxer(info.Config.Tty, splitter.push)(logs);
+    splitter.flush();
+
+    return lines;
   } catch (error) {
     console.error('Error getting container logs:', error);
     throw error;
   }
 };
 
+// コンテナのログを取得
+export const getContainerLogs = async (
+  containerId: string, 
+  options: ContainerLogOptions = {}
+): Promise<string> => {
+  const lines = await getContainerLogLines(containerId, options);
+  return lines
+    .map(line => line.timestamp ? `${line.timestamp} ${line.text}` : line.text)
+    .join('\n');
+};
+
+// コンテナのログを追跡し、新しい行が出力されるたびに通知する
+// 戻り値の関数を呼ぶと追跡を終了する
+export const followContainerLogs = async (
+  containerId: string,
+  options: ContainerLogOptions,
+  onLine: (line: ContainerLogLine) => void,
+  onEnd?: () => void
+): Promise<() => void> => {
+  const container = docker.getContainer(containerId);
+  const info = await container.inspect();
+
+  const stream = await container.logs({ ...toDockerLogOptions(options), follow: true }) as unknown as NodeJS.ReadableStream;
+
+  const splitter = createLineSplitter(options.timestamps === true, onLine);
+  const demux = createLogDemuxer(info.Config.Tty, splitter.push);
+  let stopped = false;
+
+  stream.on('data', (chunk: Buffer) => demux(chunk));
+  stream.on('end', () => {
+    splitter.flush();
+    if (!stopped && onEnd) onEnd();
+  });
+  stream.on('error', (error: any) => {
+    console.error(`Error following logs for container ${containerId}:`, error);
+    if (!stopped && onEnd) onEnd();
+  });
+
+  return () => {
+    stopped = true;
+    (stream as any).destroy();
+  };
+};
+
 // Gitがインストールされているか確認
 export const checkGitInstalled = async (): Promise<boolean> => {
   try {
@@ -754,12 +1689,21 @@ export const ensureGitInstalled = async (repoPath: string): Promise<void> => {
 };
 
 export default {
+  DEFAULT_RESOURCE_LIMITS,
   checkRepository,
   getRepositoryBranches,
   cloneRepository,
   checkNextjsProject,
   addWebhook,
   checkDockerfile,
+  detectPackageManager,
+  detectNextjsOutput,
+  generateNodeBuilderStage,
+  mountBuildSecrets,
+  createBuildSessionServer,
+  createLogDemuxer,
+  createLineSplitter,
+  writeDockerfile,
   generateNextjsDockerfile,
   buildImage,
   runContainer,
@@ -767,7 +1711,25 @@ export default {
   stopContainer,
   restartContainer,
   stopAndRemoveContainer,
+  getContainerState,
+  getContainerInfo,
+  listAppContainers,
+  updateContainerResources,
+  getProxyNetwork,
+  getStagingNetwork,
+  connectContainerToNetwork,
+  disconnectContainerFromNetwork,
+  getContainerAddress,
+  ensureStagingNetwork,
+  imageExists,
+  getImageSize,
+  getImagePort,
+  getContainerPort,
+  IMAGE_PORT_LABEL,
+  removeImage,
   getContainerLogs,
+  getContainerLogLines,
+  followContainerLogs,
   checkGitInstalled,
   ensureGitInstalled,
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import environmentService, { MASKED_VALUE } from './environmentService';
+
+test('validates environment variable names', () => {
+  assert.equal(environmentService.parseEnvVarKey(' NPM_TOKEN '), 'NPM_TOKEN');
+  assert.equal(environmentService.parseEnvVarKey('_private1'), '_private1');
+
+  for (const key of ['', '1ABC', 'MY-VAR', 'A B', 'A=B', 'A\nB', undefined, 42]) {
+    assert.throws(() => environmentService.parseEnvVarKey(key), (error: any) => error.statusCode === 400, String(key));
+  }
+});
+
+test('treats names that look like secrets as secrets unless specified', () => {
+  assert.equal(environmentService.parseEnvVar({ key: 'API_KEY', value: 'x' }).is_secret, true);
+  assert.equal(environmentService.parseEnvVar({ key: 'DB_PASSWORD', value: 'x' }).is_secret, true);
+  assert.equal(environmentService.parseEnvVar({ key: 'NODE_ENV', value: 'x' }).is_secret, false);
+  assert.equal(environmentService.parseEnvVar({ key: 'API_KEY', value: 'x', isSecret: false }).is_secret, false);
+  assert.equal(environmentService.parseEnvVar({ key: 'NODE_ENV', value: 'x', isSecret: true }).is_secret, true);
+});
+
+test('rejects invalid values and scopes', () => {
+  assert.throws(() => environmentService.parseEnvVar({ key: 'A', value: 1 }), /must be a string/);
+  assert.throws(() => environmentService.parseEnvVar({ key: 'A', value: 'x', scope: 'deploy' }), /scope must be one of/);
+  assert.equal(environmentService.parseEnvVar({ key: 'A', value: 'x' }).scope, 'both');
+});
+
+test('masks secret values unless revealed', () => {
+  const secret = { key: 'API_KEY', value: 'sk_live', is_secret: true };
+
+  assert.equal(environmentService.toPublicEnvVar(secret).value, MASKED_VALUE);
+  assert.equal(environmentService.toPublicEnvVar(secret, true).value, 'sk_live');
+  assert.equal(environmentService.toPublicEnvVar({ key: 'NODE_ENV', value: 'production' }).value, 'production');
+});
+
+test('allows the same name only for separate build and runtime values', () => {
+  assert.equal(environmentService.parseEnvVars([
+    { key: 'API_URL', value: 'https://build', scope: 'build' },
+    { key: 'API_URL', value: 'https://runtime', scope: 'runtime' },
+  ]).length, 2);
+
+  assert.throws(() => environmentService.parseEnvVars([
+    { key: 'API_URL', value: 'a', scope: 'both' },
+    { key: 'API_URL', value: 'b', scope: 'runtime' },
+  ]), (error: any) => error.statusCode === 400);
+
+  assert.throws(
+    () => environmentService.assertNoConflict([{ id: '1', key: 'API_URL', value: 'a', scope: 'build' }], { key: 'API_URL', value: 'b' }),
+    (error: any) => error.statusCode === 409
+  );
+});
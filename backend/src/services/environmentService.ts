@@ -0,0 +1,119 @@
+import { AppError, EnvVar, EnvVarScope } from '../types';
+
+export const ENV_VAR_SCOPES: EnvVarScope[] = ['build', 'runtime', 'both'];
+
+// シェルの変数やBuildKitのシークレットのIDとして使える名前
+const ENV_VAR_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// シークレットかどうかが指定されなかった場合に、シークレットとして扱う名前
+const SECRET_KEY_PATTERN = /SECRET|KEY|TOKEN|PASSWORD/;
+
+// シークレットの値の代わりに返す文字列
+export const MASKED_VALUE = '********';
+
+// スコープを検証（省略時はboth）
+export const parseEnvVarScope = (value: any): EnvVarScope => {
+  if (value === undefined || value === null || value === '') return 'both';
+  if (!ENV_VAR_SCOPES.includes(value)) {
+    throw new AppError(`scope must be one of ${ENV_VAR_SCOPES.join(', ')}`, 400);
+  }
+  return value;
+};
+
+// ビルド時に使う環境変数か（スコープの追加前に登録された環境変数はboth）
+export const isBuildEnvVar = (env: EnvVar): boolean => env.scope !== 'runtime';
+
+// 実行時にコンテナに渡す環境変数か
+export const isRuntimeEnvVar = (env: EnvVar): boolean => env.scope !== 'build';
+
+// 名前が同じで、ビルド時か実行時のどちらかで両方が使われる環境変数か
+const conflicts = (a: EnvVar, b: EnvVar): boolean =>
+  a.key === b.key && (isBuildEnvVar(a) && isBuildEnvVar(b) || isRuntimeEnvVar(a) && isRuntimeEnvVar(b));
+
+// 環境変数の名前を検証
+export const parseEnvVarKey = (value: any): string => {
+  if (typeof value !== 'string' || !ENV_VAR_KEY_PATTERN.test(value.trim())) {
+    throw new AppError('Environment variable names must start with a letter or underscore and contain only letters, digits and underscores', 400);
+  }
+  return value.trim();
+};
+
+// リクエストで受け取った1つの環境変数を検証して保存する形式に変換
+// isSecretが省略された場合は名前から判断する
+export const parseEnvVar = (input: any): EnvVar => {
+  if (!input || typeof input !== 'object') {
+    throw new AppError('Environment variable must be an object', 400);
+  }
+  const key = parseEnvVarKey(input.key);
+  if (typeof input.value !== 'string') {
+    throw new AppError(`Value of ${key} must be a string`, 400);
+  }
+
+  return {
+    key,
+    value: input.value,
+    scope: parseEnvVarScope(input.scope),
+    is_secret: input.isSecret !== undefined ? !!input.isSecret : SECRET_KEY_PATTERN.test(key),
+  };
+};
+
+// 環境変数の更新内容を検証（指定された項目だけを含める）
+export const parseEnvVarUpdate = (input: Record<string, any>): Partial<EnvVar> => {
+  const updates: Partial<EnvVar> = {};
+  if (input.key !== undefined) updates.key = parseEnvVarKey(input.key);
+  if (input.value !== undefined) {
+    if (typeof input.value !== 'string') {
+      throw new AppError('value must be a string', 400);
+    }
+    updates.value = input.value;
+  }
+  if (input.scope !== undefined) updates.scope = parseEnvVarScope(input.scope);
+  if (input.isSecret !== undefined) updates.is_secret = !!input.isSecret;
+  return updates;
+};
+
+// 登録済みの環境変数と名前とスコープが重なっていないか確認
+// 同じ名前はビルド時と実行時で別の値を使う場合（buildとruntime）だけ登録できる
+export const assertNoConflict = (existing: EnvVar[], env: EnvVar): void => {
+  if (existing.some(other => other.id !== env.id && conflicts(other, env))) {
+    throw new AppError(`Environment variable ${env.key} is already defined for the same scope`, 409);
+  }
+};
+
+// リクエストで受け取った環境変数の一覧を検証して保存する形式に変換
+export const parseEnvVars = (input: any): EnvVar[] => {
+  if (!Array.isArray(input)) {
+    throw new AppError('envVars must be an array', 400);
+  }
+
+  const envVars = input.map(parseEnvVar);
+  for (const [index, env] of envVars.entries()) {
+    if (envVars.slice(0, index).some(other => conflicts(other, env))) {
+      throw new AppError(`Environment variable ${env.key} is defined more than once for the same scope`, 400);
+    }
+  }
+
+  return envVars;
+};
+
+// レスポンスに含める形式に変換（シークレットの値はrevealを指定した場合だけ返す）
+export const toPublicEnvVar = (env: EnvVar, reveal: boolean = false): EnvVar => ({
+  ...env,
+  value: env.is_secret && !reveal ? MASKED_VALUE : env.value,
+  scope: env.scope || 'both',
+  is_secret: !!env.is_secret,
+});
+
+export default {
+  ENV_VAR_SCOPES,
+  MASKED_VALUE,
+  parseEnvVarScope,
+  isBuildEnvVar,
+  isRuntimeEnvVar,
+  parseEnvVarKey,
+  parseEnvVar,
+  parseEnvVarUpdate,
+  assertNoConflict,
+  parseEnvVars,
+  toPublicEnvVar,
+};
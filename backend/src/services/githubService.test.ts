@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { verifyWebhookSignature } from './githubService';
+
+const SECRET = 'webhook-secret';
+const PAYLOAD = Buffer.from('{"ref":"refs/heads/main","after":"abc123"}');
+
+const sign = (secret: string, payload: Buffer): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+test('accepts a signature computed over the raw body', () => {
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, sign(SECRET, PAYLOAD)), true);
+});
+
+test('rejects a signature computed with another secret', () => {
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, sign('other-secret', PAYLOAD)), false);
+});
+
+test('rejects a signature of a re-serialized body', () => {
+  // JSONとして同じ内容でも、GitHubが送ったバイト列と異なれば検証に失敗する
+  const reserialized = Buffer.from(JSON.stringify(JSON.parse(PAYLOAD.toString()), null, 2));
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, sign(SECRET, reserialized)), false);
+});
+
+test('rejects missing, malformed and truncated signatures', () => {
+  const signature = sign(SECRET, PAYLOAD);
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, undefined), false);
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, ''), false);
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, signature.replace('sha256=', 'sha1=')), false);
+  assert.equal(verifyWebhookSignature(SECRET, PAYLOAD, signature.slice(0, -1)), false);
+});
+
+test('rejects every signature when the app has no secret', () => {
+  assert.equal(verifyWebhookSignature('', PAYLOAD, sign('', PAYLOAD)), false);
+});
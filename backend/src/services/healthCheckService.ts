@@ -0,0 +1,174 @@
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { App, AppError, DeployCancelledError, HealthCheckResult, HealthCheckSettings } from '../types';
+import dockerService from './dockerService';
+
+dotenv.config();
+
+// ヘルスチェックの間隔
+const HEALTHCHECK_INTERVAL = parseInt(process.env.DEPLOY_HEALTHCHECK_INTERVAL || '2000');
+
+// アプリで設定されていない項目の既定値
+export const DEFAULT_HEALTH_CHECK: HealthCheckSettings = {
+  path: '/',
+  expected_status: null,
+  timeout_ms: 5000,
+  retries: 5,
+  start_period_ms: 10000,
+};
+
+// ヘルスチェックの実行オプション
+export interface RunHealthCheckOptions {
+  signal?: AbortSignal;
+  onLog?: (message: string) => void;
+}
+
+// アプリのヘルスチェック設定を取得
+export const getHealthCheckSettings = (app: App): HealthCheckSettings => {
+  const pick = <T>(value: T | null | undefined, fallback: T): T =>
+    value === null || value === undefined ? fallback : value;
+
+  return {
+    path: pick(app.health_check_path, DEFAULT_HEALTH_CHECK.path),
+    expected_status: pick(app.health_check_expected_status, DEFAULT_HEALTH_CHECK.expected_status),
+    timeout_ms: pick(app.health_check_timeout_ms, DEFAULT_HEALTH_CHECK.timeout_ms),
+    retries: pick(app.health_check_retries, DEFAULT_HEALTH_CHECK.retries),
+    start_period_ms: pick(app.health_check_start_period_ms, DEFAULT_HEALTH_CHECK.start_period_ms),
+  };
+};
+
+// リクエストで受け取ったヘルスチェック設定を検証し、アプリの更新内容に変換
+// nullを指定した項目は既定値に戻す
+export const parseHealthCheckSettings = (input: any): Partial<App> => {
+  if (!input || typeof input !== 'object') {
+    throw new AppError('healthCheck must be an object', 400);
+  }
+
+  const updates: Partial<App> = {};
+
+  const toInteger = (value: any, name: string, min: number, max: number): number | null => {
+    if (value === null || value === '') return null;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new AppError(`healthCheck.${name} must be an integer between ${min} and ${max}`, 400);
+    }
+    return number;
+  };
+
+  if (input.path !== undefined) {
+    if (input.path !== null && (typeof input.path !== 'string' || !input.path.startsWith('/'))) {
+      throw new AppError('healthCheck.path must start with /', 400);
+    }
+    updates.health_check_path = input.path || null;
+  }
+  if (input.expectedStatus !== undefined) {
+    updates.health_check_expected_status = toInteger(input.expectedStatus, 'expectedStatus', 100, 599);
+  }
+  if (input.timeoutMs !== undefined) {
+    updates.health_check_timeout_ms = toInteger(input.timeoutMs, 'timeoutMs', 100, 60000);
+  }
+  if (input.retries !== undefined) {
+    updates.health_check_retries = toInteger(input.retries, 'retries', 1, 100);
+  }
+  if (input.startPeriodMs !== undefined) {
+    updates.health_check_start_period_ms = toInteger(input.startPeriodMs, 'startPeriodMs', 0, 600000);
+  }
+
+  return updates;
+};
+
+// コンテナにHTTPリクエストを送り、期待するステータスが返るまで繰り返す
+// 失敗した場合も例外は投げず、結果として返す（キャンセルされた場合のみ例外を投げる）
+export const runHealthCheck = async (
+  containerId: string,
+  networkName: string,
+  settings: HealthCheckSettings,
+  options: RunHealthCheckOptions = {}
+): Promise<HealthCheckResult> => {
+  const { signal, onLog = () => {} } = options;
+  const startedAt = new Date();
+  const startPeriodEnd = startedAt.getTime() + settings.start_period_ms;
+  let attempts = 0;
+  let failures = 0;
+
+  const finish = (result: Omit<HealthCheckResult, 'path' | 'expected_status' | 'attempts' | 'started_at' | 'finished_at'>): HealthCheckResult => ({
+    path: settings.path,
+    expected_status: settings.expected_status,
+    attempts,
+    started_at: startedAt.toISOString(),
+    finished_at: new Date().toISOString(),
+    ...result,
+  });
+
+  const isExpected = (statusCode: number): boolean =>
+    settings.expected_status === null ? statusCode < 500 : statusCode === settings.expected_status;
+
+  onLog(`Health check: GET ${settings.path} (expected: ${settings.expected_status ?? '< 500'}, timeout: ${settings.timeout_ms}ms, retries: ${settings.retries}, start period: ${settings.start_period_ms}ms)`);
+
+  while (true) {
+    if (signal && signal.aborted) {
+      throw new DeployCancelledError();
+    }
+
+    attempts++;
+
+    // コンテナが終了している場合は待たずに失敗とする
+    const state = await dockerService.getContainerState(containerId);
+    if (!state) {
+      return finish({ status: 'failed', error: `Container ${containerId} no longer exists` });
+    }
+    if (!state.Running) {
+      return finish({
+        status: 'failed',
+        error: `Container exited shortly after start (exit code: ${state.ExitCode}${state.Error ? `, ${state.Error}` : ''})`,
+      });
+    }
+
+    let statusCode: number | undefined;
+    let responseTime: number | undefined;
+    let error: string;
+
+    try {
+      const address = await dockerService.getContainerAddress(containerId, networkName);
+      if (!address) throw new Error(`container is not attached to ${networkName}`);
+      const port = await dockerService.getContainerPort(containerId);
+
+      const requestStart = Date.now();
+      const response = await axios.get(`http://${address}:${port}${settings.path}`, {
+        timeout: settings.timeout_ms,
+        validateStatus: () => true,
+        maxRedirects: 0,
+      });
+      statusCode = response.status;
+      responseTime = Date.now() - requestStart;
+
+      if (isExpected(statusCode)) {
+        onLog(`Health check passed (HTTP ${statusCode}, ${responseTime}ms, attempt ${attempts})`);
+        return finish({ status: 'passed', status_code: statusCode, response_time_ms: responseTime });
+      }
+      error = `unexpected status HTTP ${statusCode}`;
+    } catch (requestError: any) {
+      error = requestError.code || requestError.message;
+    }
+
+    // 起動直後の猶予時間中の失敗は数えない
+    const inStartPeriod = Date.now() < startPeriodEnd;
+    if (!inStartPeriod) {
+      failures++;
+    }
+    onLog(`Health check attempt ${attempts} failed: ${error}${inStartPeriod ? ' (start period)' : ` (${failures}/${settings.retries})`}`);
+
+    if (failures >= settings.retries) {
+      return finish({ status: 'failed', status_code: statusCode, response_time_ms: responseTime, error });
+    }
+
+    await new Promise(resolve => setTimeout(resolve, HEALTHCHECK_INTERVAL));
+  }
+};
+
+export default {
+  DEFAULT_HEALTH_CHECK,
+  getHealthCheckSettings,
+  parseHealthCheckSettings,
+  runHealthCheck,
+};
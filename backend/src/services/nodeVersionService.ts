@@ -0,0 +1,233 @@
+import fs from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+import { App, AppError, NodeVersionInfo } from '../types';
+
+dotenv.config();
+
+// 生成するDockerfileで使えるNode.jsのメジャーバージョン（新しい順）
+export const SUPPORTED_NODE_VERSIONS: number[] = (process.env.SUPPORTED_NODE_VERSIONS || '18,20,22')
+  .split(',')
+  .map(version => parseInt(version.trim()))
+  .filter(version => !isNaN(version))
+  .sort((a, b) => b - a);
+
+// プロジェクトでバージョンが指定されていない場合に使うバージョン
+export const DEFAULT_NODE_VERSION = parseInt(process.env.DEFAULT_NODE_VERSION || '18');
+
+// nvmのLTSのコードネームとメジャーバージョンの対応
+const LTS_CODENAMES: Record<string, number> = {
+  hydrogen: 18,
+  iron: 20,
+  jod: 22,
+};
+
+type Version = [number, number, number];
+type Comparator = { op: '>=' | '>' | '<' | '<=' | '='; version: Version };
+
+// バージョンの指定を解釈できない場合のエラー
+class NodeVersionParseError extends Error {}
+
+const compare = (a: Version, b: Version): number => {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+};
+
+// 1.2.3、1.2、1、1.x、v1.2.3 のようなバージョンを読み取る（省略・ワイルドカードの部分はnull）
+const parsePartial = (text: string): (number | null)[] => {
+  const match = text.match(/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+].*)?$/);
+  if (!match) throw new NodeVersionParseError(text);
+  return [match[1], match[2], match[3]].map(part => part === undefined || /^[xX*]$/.test(part) ? null : parseInt(part));
+};
+
+// 範囲の指定（^、~、>=、部分的なバージョンなど）を単純な比較の組み合わせに変換
+const toComparators = (op: string, text: string): Comparator[] => {
+  if (text === '' || text === '*' || /^[xX]$/.test(text)) return [];
+
+  const [major, minor, patch] = parsePartial(text);
+  if (major === null) return [];
+
+  const lower: Version = [major, minor ?? 0, patch ?? 0];
+  // 部分的なバージョンが表す範囲の上限（この値を含まない）
+  const upper: Version = minor === null ? [major + 1, 0, 0] : patch === null ? [major, minor + 1, 0] : [major, minor, patch + 1];
+  const partial = minor === null || patch === null;
+
+  switch (op) {
+    case '^':
+      return [{ op: '>=', version: lower }, { op: '<', version: [major + 1, 0, 0] }];
+    case '~':
+      return [{ op: '>=', version: lower }, { op: '<', version: minor === null ? [major + 1, 0, 0] : [major, minor + 1, 0] }];
+    case '>':
+      return [partial ? { op: '>=', version: upper } : { op: '>', version: lower }];
+    case '<=':
+      return [partial ? { op: '<', version: upper } : { op: '<=', version: lower }];
+    case '>=':
+    case '<':
+      return [{ op, version: lower }];
+    default:
+      return partial ? [{ op: '>=', version: lower }, { op: '<', version: upper }] : [{ op: '=', version: lower }];
+  }
+};
+
+const satisfies = (version: Version, comparators: Comparator[]): boolean => {
+  return comparators.every(({ op, version: target }) => {
+    const result = compare(version, target);
+    switch (op) {
+      case '>=': return result >= 0;
+      case '>': return result > 0;
+      case '<': return result < 0;
+      case '<=': return result <= 0;
+      default: return result === 0;
+    }
+  });
+};
+
+// engines.nodeなどの範囲の指定を、||で区切られた比較の組み合わせに変換
+const parseRange = (range: string): Comparator[][] => {
+  return range.split('||').map(alternative => {
+    const text = alternative.trim();
+
+    // 1.2.3 - 2.3.4 の形式
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      return [...toComparators('>=', hyphen[1]), ...toComparators('<=', hyphen[2])];
+    }
+
+    return text
+      .replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(part => part.length > 0)
+      .flatMap(part => {
+        const match = part.match(/^(>=|<=|>|<|=|\^|~)?(.*)$/) as RegExpMatchArray;
+        return toComparators(match[1] || '', match[2]);
+      });
+  });
+};
+
+// 範囲を満たすバージョンがあるメジャーバージョンのうち、対応しているもので最も新しいものを選ぶ
+const pickMajor = (range: string): number | null => {
+  const alternatives = parseRange(range);
+
+  for (const major of SUPPORTED_NODE_VERSIONS) {
+    const matched = alternatives.some(comparators => {
+      // メジャーバージョンの最初と最後、範囲の境界にあるバージョンのいずれかが満たせば、そのメジャーバージョンで動く
+      const candidates: Version[] = [[major, 0, 0], [major, Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]];
+      comparators.forEach(({ version }) => {
+        if (version[0] === major) candidates.push(version);
+      });
+      return candidates.some(candidate => satisfies(candidate, comparators));
+    });
+
+    if (matched) return major;
+  }
+
+  return null;
+};
+
+// .nvmrcなどのバージョンの指定を解釈し、使うバージョンを決める
+// 1.2.3のような完全なバージョンはそのまま使い、範囲は対応しているメジャーバージョンから選ぶ
+const resolveDeclaredVersion = (declared: string): string | null => {
+  const text = declared.trim().toLowerCase();
+
+  if (text === 'node' || text === 'stable' || text === 'latest' || text === 'lts/*') {
+    return String(SUPPORTED_NODE_VERSIONS[0]);
+  }
+
+  const lts = text.match(/^lts\/(.+)$/);
+  if (lts) {
+    if (!(lts[1] in LTS_CODENAMES)) throw new NodeVersionParseError(declared);
+    const major = LTS_CODENAMES[lts[1]];
+    return SUPPORTED_NODE_VERSIONS.includes(major) ? String(major) : null;
+  }
+
+  const exact = text.match(/^v?(\d+)\.(\d+)\.(\d+)$/);
+  if (exact) {
+    return SUPPORTED_NODE_VERSIONS.includes(parseInt(exact[1])) ? `${exact[1]}.${exact[2]}.${exact[3]}` : null;
+  }
+
+  const major = pickMajor(text);
+  return major === null ? null : String(major);
+};
+
+// バージョンに対応するベースイメージ
+export const getNodeImage = (version: string): string => `node:${version}-alpine`;
+
+// アプリの設定で指定するNode.jsのバージョンを検証（nullは自動）
+export const parseNodeVersionSetting = (value: any): string | null => {
+  if (value === null || value === '' || value === undefined) return null;
+
+  const match = String(value).trim().match(/^v?(\d+)(?:\.(\d+)\.(\d+))?$/);
+  if (!match || !SUPPORTED_NODE_VERSIONS.includes(parseInt(match[1]))) {
+    throw new AppError(`nodeVersion must be one of ${SUPPORTED_NODE_VERSIONS.join(', ')} (or an exact version of them such as ${SUPPORTED_NODE_VERSIONS[0]}.0.0)`, 400);
+  }
+  return match[2] !== undefined ? `${match[1]}.${match[2]}.${match[3]}` : match[1];
+};
+
+// ディレクトリでNode.jsのバージョンを指定しているファイル（確認する順）
+const getVersionSources = (dir: string, prefix: string): { source: NodeVersionInfo['source']; label: string; read: () => Promise<string | null> }[] => [
+  {
+    source: 'engines',
+    label: `${prefix}package.json engines.node`,
+    read: async () => {
+      const packageJson = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'));
+      return packageJson.engines && typeof packageJson.engines.node === 'string' ? packageJson.engines.node : null;
+    },
+  },
+  { source: 'nvmrc', label: `${prefix}.nvmrc`, read: () => fs.readFile(path.join(dir, '.nvmrc'), 'utf8') },
+  { source: 'node-version', label: `${prefix}.node-version`, read: () => fs.readFile(path.join(dir, '.node-version'), 'utf8') },
+];
+
+// ビルドに使うNode.jsのバージョンを決める
+// アプリの設定、package.jsonのengines.node、.nvmrc、.node-versionの順に確認する
+// モノレポではアプリのディレクトリで指定されていなければワークスペースのルートを確認する
+// 対応していないバージョンが指定されている場合は、原因がわかるメッセージでエラーにする
+export const resolveNodeVersion = async (repoPath: string, app: App, workspaceRoot: string = repoPath): Promise<NodeVersionInfo> => {
+  if (app.node_version) {
+    return { version: app.node_version, image: getNodeImage(app.node_version), source: 'app', declared: app.node_version };
+  }
+
+  const appPrefix = path.relative(workspaceRoot, repoPath);
+  const sources = [
+    ...getVersionSources(repoPath, appPrefix && !appPrefix.startsWith('..') ? `${appPrefix.split(path.sep).join('/')}/` : ''),
+    ...(workspaceRoot !== repoPath ? getVersionSources(workspaceRoot, '') : []),
+  ];
+
+  const warnings: string[] = [];
+
+  for (const { source, label, read } of sources) {
+    const declared = await read().then(value => value && value.trim(), () => null);
+    if (!declared) continue;
+
+    let version: string | null;
+    try {
+      version = resolveDeclaredVersion(declared);
+    } catch (error) {
+      if (!(error instanceof NodeVersionParseError)) throw error;
+      warnings.push(`Could not parse Node.js version "${declared}" in ${label}`);
+      continue;
+    }
+
+    if (version === null) {
+      throw new AppError(
+        `Node.js version "${declared}" in ${label} is not supported. Supported versions: ${SUPPORTED_NODE_VERSIONS.join(', ')}. ` +
+        'Update the project or choose a Node.js version in the app settings.',
+        400
+      );
+    }
+
+    return { version, image: getNodeImage(version), source, declared, warnings };
+  }
+
+  const version = String(DEFAULT_NODE_VERSION);
+  return { version, image: getNodeImage(version), source: 'default', declared: null, warnings };
+};
+
+export default {
+  SUPPORTED_NODE_VERSIONS,
+  DEFAULT_NODE_VERSION,
+  getNodeImage,
+  parseNodeVersionSetting,
+  resolveNodeVersion,
+};
@@ -0,0 +1,155 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { App, AppError, Plan, ResourceLimits } from '../types';
+import dockerService from './dockerService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// ユーザーに適用するプランを取得
+// プランが割り当てられていない場合は既定のプラン、既定のプランもなければnull（上限なし）
+export const getPlanForUser = async (userId: string): Promise<Plan | null> => {
+  const { data: user, error: userError } = await supabase
+    .from('nextdock_users')
+    .select('plan_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  if (user && user.plan_id) {
+    const { data: plan, error } = await supabase
+      .from('nextdock_plans')
+      .select('*')
+      .eq('id', user.plan_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (plan) return plan as Plan;
+  }
+
+  const { data: defaultPlan, error } = await supabase
+    .from('nextdock_plans')
+    .select('*')
+    .eq('is_default', true)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (defaultPlan as Plan) || null;
+};
+
+// アプリに適用するリソース制限を取得
+// 設定されていない項目は既定値を使い、プランの上限を超える場合は上限に合わせる
+// （設定後にプランの上限が下げられた場合も上限を超えないようにする）
+export const getResourceLimits = (app: App, plan: Plan | null = null): ResourceLimits => {
+  const defaults = dockerService.DEFAULT_RESOURCE_LIMITS;
+  const cap = (value: number, max: number | null | undefined): number =>
+    max === null || max === undefined ? value : Math.min(value, max);
+
+  const pidsLimit = app.pids_limit ?? defaults.pids_limit ?? (plan ? plan.max_pids : null);
+
+  return {
+    memory_mb: cap(app.memory_limit_mb ?? defaults.memory_mb, plan?.max_memory_mb),
+    cpus: cap(app.cpu_limit ?? defaults.cpus, plan?.max_cpus),
+    pids_limit: pidsLimit === null ? null : cap(pidsLimit, plan?.max_pids),
+  };
+};
+
+// リクエストで受け取ったリソース制限を検証し、アプリの更新内容に変換
+// nullを指定した項目は既定値に戻す
+export const parseResourceLimits = (input: any): Partial<App> => {
+  if (!input || typeof input !== 'object') {
+    throw new AppError('resources must be an object', 400);
+  }
+
+  const updates: Partial<App> = {};
+
+  const toNumber = (value: any, name: string, min: number, max: number, integer: boolean): number | null => {
+    if (value === null || value === '') return null;
+    const number = Number(value);
+    if (!Number.isFinite(number) || (integer && !Number.isInteger(number)) || number < min || number > max) {
+      throw new AppError(`resources.${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`, 400);
+    }
+    return number;
+  };
+
+  if (input.memoryMb !== undefined) {
+    // Dockerはメモリ制限として6MB未満を受け付けない
+    updates.memory_limit_mb = toNumber(input.memoryMb, 'memoryMb', 6, 1024 * 1024, true);
+  }
+  if (input.cpus !== undefined) {
+    updates.cpu_limit = toNumber(input.cpus, 'cpus', 0.01, 1024, false);
+  }
+  if (input.pidsLimit !== undefined) {
+    updates.pids_limit = toNumber(input.pidsLimit, 'pidsLimit', 1, 1000000, true);
+  }
+
+  return updates;
+};
+
+// 設定しようとしているリソース制限がプランの上限を超えていないか確認
+export const assertWithinPlan = (updates: Partial<App>, plan: Plan | null): void => {
+  if (!plan) return;
+
+  const exceeds = (value: number | null | undefined, max: number | null): value is number =>
+    value !== null && value !== undefined && max !== null && value > max;
+
+  const exceeded: string[] = [];
+  if (exceeds(updates.memory_limit_mb, plan.max_memory_mb)) {
+    exceeded.push(`memory ${updates.memory_limit_mb}MB > ${plan.max_memory_mb}MB`);
+  }
+  if (exceeds(updates.cpu_limit, plan.max_cpus)) {
+    exceeded.push(`cpus ${updates.cpu_limit} > ${plan.max_cpus}`);
+  }
+  if (exceeds(updates.pids_limit, plan.max_pids)) {
+    exceeded.push(`pids ${updates.pids_limit} > ${plan.max_pids}`);
+  }
+
+  if (exceeded.length > 0) {
+    throw new AppError(`Resource limits exceed the "${plan.name}" plan: ${exceeded.join(', ')}`, 403);
+  }
+};
+
+// 管理者がリクエストで受け取ったプランを検証し、保存する内容に変換
+export const parsePlan = (input: any, partial: boolean = false): Partial<Plan> => {
+  if (!input || typeof input !== 'object') {
+    throw new AppError('Request body must be an object', 400);
+  }
+
+  const plan: Partial<Plan> = {};
+
+  const toMax = (value: any, name: string, integer: boolean): number | null => {
+    if (value === null || value === '') return null;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+      throw new AppError(`${name} must be a positive ${integer ? 'integer' : 'number'} or null`, 400);
+    }
+    return number;
+  };
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new AppError('name is required', 400);
+    }
+    plan.name = input.name.trim();
+  }
+  if (input.maxMemoryMb !== undefined) plan.max_memory_mb = toMax(input.maxMemoryMb, 'maxMemoryMb', true);
+  if (input.maxCpus !== undefined) plan.max_cpus = toMax(input.maxCpus, 'maxCpus', false);
+  if (input.maxPids !== undefined) plan.max_pids = toMax(input.maxPids, 'maxPids', true);
+  if (input.isDefault !== undefined) plan.is_default = !!input.isDefault;
+
+  return plan;
+};
+
+export default {
+  getPlanForUser,
+  getResourceLimits,
+  parseResourceLimits,
+  assertWithinPlan,
+  parsePlan,
+};
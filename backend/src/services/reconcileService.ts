@@ -0,0 +1,243 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { App, LabeledContainer, OrphanContainer } from '../types';
+import dockerService from './dockerService';
+import replicaService from './replicaService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// コンテナの状態を確認する間隔（0で無効）
+const RECONCILE_INTERVAL = parseInt(process.env.RECONCILE_INTERVAL || '30000');
+
+// Dockerが終了時刻を記録していない場合の値
+const ZERO_TIME = '0001-01-01T00:00:00Z';
+
+// コンテナが起動しているはずのアプリの状態
+const RECONCILED_STATUSES: App['status'][] = ['running', 'crashed', 'restarting'];
+
+let reconcileTimer: NodeJS.Timeout | null = null;
+let reconciling = false;
+
+// 1回の突き合わせの結果
+export interface ReconcileResult {
+  checked: number;
+  changed: number;
+  orphans: number;
+}
+
+// アプリのコンテナの状態をまとめたもの
+interface ObservedAppState {
+  status: App['status'];
+  restart_count: number;
+  last_exit_code: number | null;
+  last_exit_reason: string | null;
+  last_exited_at: string | null;
+}
+
+// アプリのすべてのレプリカを調べて状態を決める
+// 手動で削除された・終了したレプリカがあればcrashed、再起動中または前回から再起動したレプリカがあればrestarting
+const observeApp = async (app: App, containers: Map<string, LabeledContainer>): Promise<ObservedAppState> => {
+  let crashed = false;
+  let restarting = false;
+  let restartCount = 0;
+  let lastExit: { code: number; reason: string | null; at: string } | null = null;
+
+  for (const containerId of replicaService.getAppContainerIds(app)) {
+    const info = containers.has(containerId) ? await dockerService.getContainerInfo(containerId) : null;
+    if (!info) {
+      crashed = true;
+      continue;
+    }
+
+    restartCount += info.restartCount;
+    if (info.state.Restarting) {
+      restarting = true;
+    } else if (!info.state.Running) {
+      crashed = true;
+    }
+
+    // 最後に終了したレプリカの終了コードを記録（再起動して実行中のレプリカも含む）
+    if (info.state.FinishedAt && info.state.FinishedAt !== ZERO_TIME && (!lastExit || info.state.FinishedAt > lastExit.at)) {
+      lastExit = {
+        code: info.state.ExitCode,
+        reason: info.state.OOMKilled ? 'OOMKilled' : info.state.Error || null,
+        at: info.state.FinishedAt,
+      };
+    }
+  }
+
+  // 前回の確認から再起動していればクラッシュを繰り返している
+  if (app.restart_count !== null && app.restart_count !== undefined && restartCount > app.restart_count) {
+    restarting = true;
+  }
+
+  return {
+    status: crashed ? 'crashed' : restarting ? 'restarting' : 'running',
+    restart_count: restartCount,
+    last_exit_code: lastExit ? lastExit.code : app.last_exit_code ?? null,
+    last_exit_reason: lastExit ? lastExit.reason : app.last_exit_reason ?? null,
+    last_exited_at: lastExit ? lastExit.at : app.last_exited_at ?? null,
+  };
+};
+
+// 対応するアプリがないコンテナを記録し、なくなったものは記録から外す
+const recordOrphans = async (orphans: LabeledContainer[]): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('nextdock_orphan_containers')
+    .select('container_id');
+
+  if (fetchError) throw fetchError;
+
+  const known = new Set((existing || []).map(row => row.container_id));
+  const seen = new Set(orphans.map(container => container.id));
+
+  for (const container of orphans) {
+    const fields = { name: container.name, subdomain: container.subdomain, state: container.state, last_seen_at: now };
+    const { error } = known.has(container.id)
+      ? await supabase.from('nextdock_orphan_containers').update(fields).eq('container_id', container.id)
+      : await supabase.from('nextdock_orphan_containers').insert([{ container_id: container.id, first_seen_at: now, ...fields }]);
+
+    if (error) throw error;
+    if (!known.has(container.id)) {
+      console.warn(`Orphaned container found: ${container.name} (${container.id.substring(0, 12)})`);
+    }
+  }
+
+  const gone = [...known].filter(containerId => !seen.has(containerId));
+  if (gone.length > 0) {
+    const { error } = await supabase
+      .from('nextdock_orphan_containers')
+      .delete()
+      .in('container_id', gone);
+
+    if (error) throw error;
+  }
+};
+
+// Dockerのコンテナとアプリのレコードを突き合わせ、アプリの状態を更新する
+export const reconcileApps = async (): Promise<ReconcileResult> => {
+  const containers = await dockerService.listAppContainers();
+  const containersById = new Map(containers.map(container => [container.id, container]));
+
+  const { data: apps, error: appsError } = await supabase
+    .from('nextdock_apps')
+    .select('*');
+
+  if (appsError) throw appsError;
+
+  // デプロイ中のアプリはコンテナを入れ替えている途中のため対象外
+  const { data: deploying, error: deployError } = await supabase
+    .from('nextdock_deploys')
+    .select('app_id')
+    .eq('status', 'in_progress');
+
+  if (deployError) throw deployError;
+
+  const deployingAppIds = new Set((deploying || []).map(deploy => deploy.app_id));
+  let checked = 0;
+  let changed = 0;
+
+  for (const app of (apps || []) as App[]) {
+    if (!RECONCILED_STATUSES.includes(app.status) || deployingAppIds.has(app.id)) continue;
+    checked++;
+
+    try {
+      const observed = await observeApp(app, containersById);
+
+      // 確認中にAPIから状態が変更された場合は上書きしない
+      const { error } = await supabase
+        .from('nextdock_apps')
+        .update({ ...observed, status_checked_at: new Date().toISOString() })
+        .eq('id', app.id)
+        .eq('status', app.status);
+
+      if (error) throw error;
+
+      if (observed.status !== app.status) {
+        changed++;
+        console.log(`App ${app.id} status changed: ${app.status} -> ${observed.status}`);
+      }
+    } catch (error) {
+      console.error(`Failed to reconcile app ${app.id}:`, error);
+    }
+  }
+
+  const subdomains = new Set((apps || []).map(app => app.subdomain));
+  const orphans = containers.filter(container => !subdomains.has(container.subdomain));
+  await recordOrphans(orphans);
+
+  return { checked, changed, orphans: orphans.length };
+};
+
+// 対応するアプリがないコンテナの一覧を取得
+export const getOrphanContainers = async (): Promise<OrphanContainer[]> => {
+  const { data, error } = await supabase
+    .from('nextdock_orphan_containers')
+    .select('*')
+    .order('first_seen_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as OrphanContainer[];
+};
+
+// 対応するアプリがないコンテナを削除
+export const removeOrphanContainer = async (containerId: string): Promise<void> => {
+  await dockerService.stopAndRemoveContainer(containerId);
+
+  const { error } = await supabase
+    .from('nextdock_orphan_containers')
+    .delete()
+    .eq('container_id', containerId);
+
+  if (error) throw error;
+};
+
+// 前回の突き合わせが終わっていなければ実行しない
+const runReconcile = async (): Promise<void> => {
+  if (reconciling) return;
+  reconciling = true;
+
+  try {
+    const result = await reconcileApps();
+    if (result.changed > 0) {
+      console.log(`Reconciled ${result.checked} app(s): ${result.changed} changed, ${result.orphans} orphaned container(s)`);
+    }
+  } catch (error) {
+    console.error('Error reconciling containers:', error);
+  } finally {
+    reconciling = false;
+  }
+};
+
+// リコンサイラーを起動
+export const startReconciler = (): void => {
+  if (reconcileTimer || RECONCILE_INTERVAL <= 0) return;
+
+  console.log(`Starting container reconciler (interval: ${RECONCILE_INTERVAL}ms)`);
+  reconcileTimer = setInterval(runReconcile, RECONCILE_INTERVAL);
+  runReconcile();
+};
+
+// リコンサイラーを停止
+export const stopReconciler = (): void => {
+  if (reconcileTimer) {
+    clearInterval(reconcileTimer);
+    reconcileTimer = null;
+    console.log('Container reconciler stopped');
+  }
+};
+
+export default {
+  reconcileApps,
+  getOrphanContainers,
+  removeOrphanContainer,
+  startReconciler,
+  stopReconciler,
+};
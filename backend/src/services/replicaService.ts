@@ -0,0 +1,248 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { App, AppError, EnvVar, ReplicaState, ResourceLimits } from '../types';
+import dockerService from './dockerService';
+import healthCheck from './healthCheckService';
+import planService from './planService';
+import secretsService from './secretsService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// 1つのアプリで起動できるレプリカの上限
+export const MAX_REPLICAS = parseInt(process.env.MAX_REPLICAS || '10');
+
+// トラフィックの振り分け先から外してからコンテナを削除するまでの待機時間（処理中のリクエストを完了させる）
+const DRAIN_PERIOD = parseInt(process.env.DEPLOY_DRAIN_PERIOD || '10000');
+
+// アプリのレプリカのコンテナID
+export const getAppContainerIds = (app: App): string[] => {
+  if (app.container_ids && app.container_ids.length > 0) return app.container_ids;
+  return app.container_id ? [app.container_id] : [];
+};
+
+// アプリで起動するレプリカの数
+export const getReplicaCount = (app: App): number => app.replicas || 1;
+
+// レプリカのコンテナ名（デプロイごと・レプリカごとに異なる名前にする）
+export const getReplicaName = (app: App, deployId: string, index: number): string =>
+  `nextdock-${app.subdomain}-${deployId.substring(0, 8)}-${index}`;
+
+// レプリカ数を検証
+export const parseReplicaCount = (value: any): number => {
+  const replicas = Number(value);
+  if (!Number.isInteger(replicas) || replicas < 1 || replicas > MAX_REPLICAS) {
+    throw new AppError(`replicas must be an integer between 1 and ${MAX_REPLICAS}`, 400);
+  }
+  return replicas;
+};
+
+// レプリカのコンテナをステージング用のネットワークで起動（まだトラフィックは受けない）
+export const startReplicaContainer = async (
+  app: App,
+  imageTag: string,
+  envVars: EnvVar[],
+  resources: ResourceLimits,
+  name: string
+): Promise<string> => {
+  const stagingNetwork = await dockerService.ensureStagingNetwork();
+
+  // 前回起動した同じ名前のコンテナが残っていれば削除
+  await dockerService.stopAndRemoveContainer(name);
+
+  return dockerService.runContainer(imageTag, app.subdomain, envVars, {
+    name,
+    network: stagingNetwork,
+    resources,
+  });
+};
+
+// コンテナをnginx-proxyのネットワークから外す（エラーは記録して続行する）
+export const withdrawContainers = async (containerIds: string[]): Promise<void> => {
+  for (const containerId of containerIds) {
+    try {
+      await dockerService.disconnectContainerFromNetwork(containerId, dockerService.getProxyNetwork());
+    } catch (error) {
+      console.error(`Failed to withdraw container ${containerId}:`, error);
+    }
+  }
+};
+
+// ヘルスチェックが通ったコンテナをnginx-proxyのネットワークに参加させる
+// 途中で失敗した場合は、参加させたコンテナを振り分け先から外してからエラーを投げる
+export const promoteContainers = async (containerIds: string[]): Promise<void> => {
+  const promoted: string[] = [];
+  try {
+    for (const containerId of containerIds) {
+      promoted.push(containerId);
+      await dockerService.connectContainerToNetwork(containerId, dockerService.getProxyNetwork());
+      await dockerService.disconnectContainerFromNetwork(containerId, dockerService.getStagingNetwork());
+    }
+  } catch (error) {
+    await withdrawContainers(promoted);
+    throw error;
+  }
+};
+
+// コンテナをトラフィックの振り分け先から外し、処理中のリクエストが終わるのを待ってから削除
+// nginxはリロード後も処理中のリクエストを古いワーカーで最後まで処理する
+export const retireContainers = async (containerIds: string[], onLog: (message: string) => void = () => {}): Promise<void> => {
+  if (containerIds.length === 0) return;
+
+  for (const containerId of containerIds) {
+    await dockerService.disconnectContainerFromNetwork(containerId, dockerService.getProxyNetwork());
+  }
+
+  onLog(`Draining ${containerIds.length} previous container(s) for ${DRAIN_PERIOD}ms...`);
+  await new Promise(resolve => setTimeout(resolve, DRAIN_PERIOD));
+
+  for (const containerId of containerIds) {
+    try {
+      await dockerService.stopAndRemoveContainer(containerId);
+      onLog(`Previous container removed: ${containerId}`);
+    } catch (error: any) {
+      onLog(`Warning: failed to remove previous container ${containerId}: ${error.message}`);
+    }
+  }
+};
+
+// コンテナを削除（エラーは記録して続行する）
+export const removeContainers = async (containerIds: string[]): Promise<void> => {
+  for (const containerId of containerIds) {
+    try {
+      await dockerService.stopAndRemoveContainer(containerId);
+    } catch (error) {
+      console.error(`Failed to remove container ${containerId}:`, error);
+    }
+  }
+};
+
+// レプリカごとのコンテナの状態を取得
+export const getReplicaStates = async (app: App): Promise<ReplicaState[]> => {
+  return Promise.all(getAppContainerIds(app).map(async (containerId, index) => {
+    const info = await dockerService.getContainerInfo(containerId);
+    if (!info) {
+      return { index, container_id: containerId, name: null, state: 'missing', running: false };
+    }
+    return {
+      index,
+      container_id: containerId,
+      name: info.name,
+      state: info.state.Status,
+      running: info.state.Running,
+      started_at: info.state.StartedAt,
+      restart_count: info.restartCount,
+    };
+  }));
+};
+
+// レプリカ数を変更（再デプロイせずに現在のイメージでコンテナを増減する）
+// 実行中でないアプリは設定のみ保存し、次回のデプロイで反映する
+export const scaleApp = async (app: App, replicas: number): Promise<App> => {
+  const containerIds = getAppContainerIds(app);
+
+  const saveReplicas = async (fields: Partial<App>): Promise<App> => {
+    const { data, error } = await supabase
+      .from('nextdock_apps')
+      .update({ replicas, ...fields })
+      .eq('id', app.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as App;
+  };
+
+  if (app.status !== 'running' || containerIds.length === 0 || containerIds.length === replicas) {
+    return saveReplicas({});
+  }
+
+  // デプロイ中はコンテナが入れ替わるため変更しない
+  const { data: running } = await supabase
+    .from('nextdock_deploys')
+    .select('id')
+    .eq('app_id', app.id)
+    .in('status', ['pending', 'in_progress'])
+    .limit(1);
+
+  if (running && running.length > 0) {
+    throw new AppError('Cannot scale while a deploy is pending or in progress', 409);
+  }
+
+  // 減らす場合は後ろのレプリカから外す
+  if (replicas < containerIds.length) {
+    const kept = containerIds.slice(0, replicas);
+    const removed = containerIds.slice(replicas);
+    const updatedApp = await saveReplicas({ container_id: kept[0], container_ids: kept });
+
+    console.log(`Scaling app ${app.id} down to ${replicas} replica(s)`);
+    retireContainers(removed, message => console.log(`[app ${app.id}] ${message}`))
+      .catch(error => console.error(`Failed to remove replicas of app ${app.id}:`, error));
+
+    return updatedApp;
+  }
+
+  // 増やす場合は現在のデプロイのイメージからレプリカを起動し、ヘルスチェックが通ってから振り分け先に加える
+  const { data: currentDeploy } = app.current_deploy_id
+    ? await supabase.from('nextdock_deploys').select('id, image_tag').eq('id', app.current_deploy_id).maybeSingle()
+    : { data: null };
+
+  if (!currentDeploy || !currentDeploy.image_tag || !(await dockerService.imageExists(currentDeploy.image_tag))) {
+    throw new AppError('The image of the current deploy is not available. Redeploy the app to scale it.', 409);
+  }
+
+  const { data: envVars, error: envError } = await supabase
+    .from('nextdock_environment_variables')
+    .select('key, value, scope')
+    .eq('app_id', app.id);
+
+  if (envError) throw envError;
+
+  const resources = planService.getResourceLimits(app, await planService.getPlanForUser(app.user_id));
+  const settings = healthCheck.getHealthCheckSettings(app);
+  const started: string[] = [];
+
+  console.log(`Scaling app ${app.id} up to ${replicas} replica(s)`);
+
+  try {
+    for (let index = containerIds.length; index < replicas; index++) {
+      started.push(await startReplicaContainer(app, currentDeploy.image_tag, secretsService.decryptEnvVars(envVars || []), resources, getReplicaName(app, currentDeploy.id, index)));
+    }
+
+    const results = await Promise.all(started.map(containerId =>
+      healthCheck.runHealthCheck(containerId, dockerService.getStagingNetwork(), settings)
+    ));
+
+    const failed = results.find(result => result.status !== 'passed');
+    if (failed) {
+      throw new AppError(`Health check of the new replica failed: ${failed.error}`, 502);
+    }
+
+    await promoteContainers(started);
+  } catch (error) {
+    await removeContainers(started);
+    throw error;
+  }
+
+  const ids = [...containerIds, ...started];
+  return saveReplicas({ container_id: ids[0], container_ids: ids });
+};
+
+export default {
+  MAX_REPLICAS,
+  getAppContainerIds,
+  getReplicaCount,
+  getReplicaName,
+  parseReplicaCount,
+  startReplicaContainer,
+  withdrawContainers,
+  promoteContainers,
+  retireContainers,
+  removeContainers,
+  getReplicaStates,
+  scaleApp,
+};
@@ -0,0 +1,83 @@
+import { test, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+
+// secretsServiceは読み込み時にSupabaseのクライアントを作るため、URLを設定してから読み込む
+// （このテストではデータベースには接続しない）
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost';
+process.env.SUPABASE_KEY = process.env.SUPABASE_KEY || 'test';
+
+const OLD_KEY = crypto.randomBytes(32).toString('base64');
+const NEW_KEY = crypto.randomBytes(32).toString('base64');
+
+let secrets: typeof import('./secretsService').default;
+
+before(() => {
+  secrets = require('./secretsService').default;
+});
+
+beforeEach(() => {
+  process.env.SECRETS_MASTER_KEY = NEW_KEY;
+  delete process.env.SECRETS_PREVIOUS_MASTER_KEYS;
+});
+
+test('encrypts and decrypts values', () => {
+  const encrypted = secrets.encryptSecret('ghp_token');
+
+  assert.ok(secrets.isEncrypted(encrypted));
+  assert.ok(!encrypted.includes('ghp_token'));
+  assert.equal(secrets.decryptSecret(encrypted), 'ghp_token');
+});
+
+test('uses a new data key for every value', () => {
+  assert.notEqual(secrets.encryptSecret('same'), secrets.encryptSecret('same'));
+});
+
+test('returns plaintext stored before encryption as-is', () => {
+  assert.equal(secrets.isEncrypted('plain-value'), false);
+  assert.equal(secrets.decryptSecret('plain-value'), 'plain-value');
+});
+
+test('fails to decrypt tampered values', () => {
+  const encrypted = secrets.encryptSecret('value');
+  const payload = Buffer.from(encrypted.split(':').pop() as string, 'base64');
+  payload[payload.length - 1] ^= 0xff;
+  const tampered = `${encrypted.substring(0, encrypted.lastIndexOf(':') + 1)}${payload.toString('base64')}`;
+
+  assert.throws(() => secrets.decryptSecret(tampered));
+});
+
+test('rotates values encrypted with a previous key', () => {
+  process.env.SECRETS_MASTER_KEY = OLD_KEY;
+  const encrypted = secrets.encryptSecret('value');
+
+  process.env.SECRETS_MASTER_KEY = NEW_KEY;
+  assert.throws(() => secrets.decryptSecret(encrypted), /is not configured/);
+
+  process.env.SECRETS_PREVIOUS_MASTER_KEYS = OLD_KEY;
+  assert.equal(secrets.decryptSecret(encrypted), 'value');
+
+  const rotated = secrets.rotateSecret(encrypted);
+  assert.ok(rotated);
+  // データキーで暗号化した値はそのままで、データキーだけを新しい鍵で暗号化し直す
+  assert.equal(rotated.split(':').pop(), encrypted.split(':').pop());
+
+  delete process.env.SECRETS_PREVIOUS_MASTER_KEYS;
+  assert.equal(secrets.decryptSecret(rotated), 'value');
+  assert.equal(secrets.rotateSecret(rotated), null);
+});
+
+test('encrypts plaintext values when rotating', () => {
+  const rotated = secrets.rotateSecret('plain-value');
+
+  assert.ok(rotated && secrets.isEncrypted(rotated));
+  assert.equal(secrets.decryptSecret(rotated), 'plain-value');
+});
+
+test('requires a 32-byte master key', () => {
+  delete process.env.SECRETS_MASTER_KEY;
+  assert.throws(() => secrets.assertSecretsConfigured(), /SECRETS_MASTER_KEY is not set/);
+
+  process.env.SECRETS_MASTER_KEY = crypto.randomBytes(16).toString('base64');
+  assert.throws(() => secrets.assertSecretsConfigured(), /must be 32 bytes/);
+});
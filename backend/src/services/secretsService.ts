@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { EnvVar, SecretRotationResult } from '../types';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// 暗号化した値の接頭辞（接頭辞のない値は暗号化を導入する前に保存された平文として扱う）
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// 鍵のローテーションで一度に読み込む行数
+const ROTATION_BATCH_SIZE = 500;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// マスターキー（base64でエンコードした32バイト）を読み込む
+// 鍵の識別子は鍵のハッシュの先頭で、どの鍵でデータキーを暗号化したかを値に記録する
+const parseMasterKey = (value: string, name: string): MasterKey => {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes encoded in base64 (generate one with: openssl rand -base64 32)`);
+  }
+  return { id: crypto.createHash('sha256').update(key).digest('hex').substring(0, 8), key };
+};
+
+// 現在のマスターキー（暗号化に使う）
+const getCurrentKey = (): MasterKey => {
+  const value = process.env.SECRETS_MASTER_KEY;
+  if (!value) {
+    throw new Error('SECRETS_MASTER_KEY is not set. Secrets cannot be encrypted');
+  }
+  return parseMasterKey(value, 'SECRETS_MASTER_KEY');
+};
+
+// 復号に使えるマスターキー（現在の鍵とローテーション前の鍵）
+const getDecryptionKeys = (): MasterKey[] => {
+  const keys: MasterKey[] = [];
+  if (process.env.SECRETS_MASTER_KEY) {
+    keys.push(parseMasterKey(process.env.SECRETS_MASTER_KEY, 'SECRETS_MASTER_KEY'));
+  }
+  (process.env.SECRETS_PREVIOUS_MASTER_KEYS || '').split(',').filter(value => value.trim()).forEach(value => {
+    keys.push(parseMasterKey(value, 'SECRETS_PREVIOUS_MASTER_KEYS'));
+  });
+  return keys;
+};
+
+// AES-256-GCMで暗号化し、IV・認証タグ・暗号文をまとめてbase64にする
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+// 起動時にマスターキーの設定を確認する
+// 設定されていないと、環境変数やGitHubトークンを保存するリクエストがすべて失敗するため起動しない
+export const assertSecretsConfigured = (): void => {
+  getCurrentKey();
+  getDecryptionKeys();
+};
+
+// 暗号化された値か
+export const isEncrypted = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+// エンベロープ暗号化
+// 値ごとにデータキーを作って値を暗号化し、データキーをマスターキーで暗号化して値と一緒に保存する
+// 形式: enc:v1:<マスターキーの識別子>:<暗号化したデータキー>:<暗号化した値>
+export const encryptSecret = (plaintext: string): string => {
+  const master = getCurrentKey();
+  const dataKey = crypto.randomBytes(32);
+  return `${ENCRYPTED_PREFIX}${master.id}:${seal(master.key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+};
+
+// 暗号化された値を分解し、マスターキーでデータキーを復号する
+const openDataKey = (value: string): { master: MasterKey; dataKey: Buffer; payload: string } => {
+  const [keyId, wrappedKey, payload] = value.substring(ENCRYPTED_PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !payload) {
+    throw new Error('Encrypted secret is malformed');
+  }
+
+  const master = getDecryptionKeys().find(key => key.id === keyId);
+  if (!master) {
+    throw new Error(`Master key ${keyId} is not configured. Set it in SECRETS_MASTER_KEY or SECRETS_PREVIOUS_MASTER_KEYS`);
+  }
+
+  return { master, dataKey: open(master.key, wrappedKey), payload };
+};
+
+// 保存されている値を復号する（暗号化を導入する前の平文はそのまま返す）
+export const decryptSecret = (value: string): string => {
+  if (!isEncrypted(value)) return value;
+  const { dataKey, payload } = openDataKey(value);
+  return open(dataKey, payload).toString('utf8');
+};
+
+// 現在のマスターキーで保存し直した値（すでに現在の鍵で暗号化されている場合はnull）
+// 古い鍵で暗号化された値はデータキーだけを暗号化し直し、平文の値は暗号化する
+export const rotateSecret = (value: string): string | null => {
+  const current = getCurrentKey();
+  if (!isEncrypted(value)) return encryptSecret(value);
+
+  const { master, dataKey, payload } = openDataKey(value);
+  if (master.id === current.id) return null;
+  return `${ENCRYPTED_PREFIX}${current.id}:${seal(current.key, dataKey)}:${payload}`;
+};
+
+// 環境変数の値を暗号化して保存する形式にする
+export const encryptEnvVar = <T extends EnvVar>(env: T): T => ({ ...env, value: encryptSecret(env.value) });
+
+// 保存されている環境変数の値を復号する
+export const decryptEnvVars = <T extends EnvVar>(envVars: T[]): T[] =>
+  envVars.map(env => ({ ...env, value: decryptSecret(env.value) }));
+
+// ユーザーの連携済みのGitHubトークンを復号して取得（連携していない場合はnull）
+export const getGithubToken = async (userId: string): Promise<string | null> => {
+  const { data: userData, error } = await supabase
+    .from('nextdock_users')
+    .select('github_token')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!userData || !userData.github_token) return null;
+
+  return decryptSecret(userData.github_token);
+};
+
+// テーブルのすべての行の列を現在のマスターキーで保存し直す
+const rotateColumn = async (table: string, column: string, onLog: (message: string) => void): Promise<number> => {
+  let rotated = 0;
+  for (let from = 0; ; from += ROTATION_BATCH_SIZE) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select(`id, ${column}`)
+      .not(column, 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + ROTATION_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    if (!rows || rows.length === 0) break;
+
+    for (const row of rows as Record<string, any>[]) {
+      const value = rotateSecret(row[column]);
+      if (value === null) continue;
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ [column]: value })
+        .eq('id', row.id)
+        .eq(column, row[column]);
+
+      if (updateError) throw updateError;
+      rotated++;
+    }
+
+    if (rows.length < ROTATION_BATCH_SIZE) break;
+  }
+
+  onLog(`Re-encrypted ${rotated} value(s) in ${table}.${column}`);
+  return rotated;
+};
+
+// 環境変数の値、GitHubトークン、デプロイキーの秘密鍵を現在のマスターキーで保存し直す
+// 平文のまま保存されている値もここで暗号化される
+export const rotateSecrets = async (onLog: (message: string) => void = console.log): Promise<SecretRotationResult> => {
+  onLog(`Rotating secrets to master key ${getCurrentKey().id}`);
+
+  return {
+    env_vars: await rotateColumn('nextdock_environment_variables', 'value', onLog),
+    github_tokens: await rotateColumn('nextdock_users', 'github_token', onLog),
+    deploy_keys: await rotateColumn('nextdock_apps', 'deploy_key_private', onLog),
+  };
+};
+
+export default {
+  assertSecretsConfigured,
+  isEncrypted,
+  encryptSecret,
+  decryptSecret,
+  rotateSecret,
+  encryptEnvVar,
+  decryptEnvVars,
+  getGithubToken,
+  rotateSecrets,
+};
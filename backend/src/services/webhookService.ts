@@ -0,0 +1,124 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { App, AppError } from '../types';
+import githubService from './githubService';
+import secretsService from './secretsService';
+
+dotenv.config();
+
+// Supabaseクライアントの初期化
+const supabaseUrl = process.env.SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_KEY || '';
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+
+// GitHub APIのエラーをユーザー向けのエラーに変換
+const toAppError = (error: any, action: string): AppError => {
+  const status = error.response?.status;
+  const detail = error.response?.data?.message || error.message;
+
+  if (status === 403 || status === 404) {
+    return new AppError(
+      `Failed to ${action}: the connected GitHub account needs admin access to the repository (${detail})`,
+      400
+    );
+  }
+
+  return new AppError(`Failed to ${action}: ${detail}`, 502);
+};
+
+// ユーザーのGitHubトークンを取得
+export const getGithubToken = async (userId: string): Promise<string> => {
+  const githubToken = await secretsService.getGithubToken(userId);
+  if (!githubToken) {
+    throw new AppError('GitHub account not connected', 400);
+  }
+
+  return githubToken;
+};
+
+// アプリのWebhookをGitHubに登録し、フックIDとシークレットを保存
+// 同じURLのWebhookが既に存在する場合は作り直さずに設定を更新する
+export const registerAppWebhook = async (app: App, accessToken: string): Promise<App> => {
+  const repoFullName = githubService.getRepositoryFullName(app.repository);
+  const webhookUrl = githubService.getWebhookUrl(app.id);
+  const secret = app.webhook_secret || githubService.generateWebhookSecret();
+
+  let hook: any;
+  try {
+    const hooks = await githubService.listWebhooks(repoFullName, accessToken);
+    const existing = hooks.find(h => h.config && h.config.url === webhookUrl);
+
+    hook = existing
+      ? await githubService.updateWebhook(repoFullName, accessToken, existing.id, webhookUrl, secret)
+      : await githubService.addWebhook(repoFullName, accessToken, webhookUrl, secret);
+  } catch (error: any) {
+    throw toAppError(error, 'register webhook');
+  }
+
+  console.log(`Registered webhook ${hook.id} on ${repoFullName} for app ${app.id}`);
+
+  const { data: updatedApp, error } = await supabase
+    .from('nextdock_apps')
+    .update({ webhook_id: hook.id, webhook_secret: secret })
+    .eq('id', app.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return updatedApp as App;
+};
+
+// アプリのWebhookをGitHubから削除し、フックIDをクリア
+export const unregisterAppWebhook = async (app: App, accessToken: string): Promise<void> => {
+  if (!app.webhook_id) return;
+
+  const repoFullName = githubService.getRepositoryFullName(app.repository);
+
+  try {
+    await githubService.removeWebhook(repoFullName, accessToken, app.webhook_id);
+  } catch (error: any) {
+    throw toAppError(error, 'remove webhook');
+  }
+
+  console.log(`Removed webhook ${app.webhook_id} from ${repoFullName} for app ${app.id}`);
+
+  const { error } = await supabase
+    .from('nextdock_apps')
+    .update({ webhook_id: null })
+    .eq('id', app.id);
+
+  if (error) throw error;
+};
+
+// GitHubにpingを送信させ、Webhookの直近の配信結果を取得
+// GitHubは非同期に配信するため、少し待ってからlast_responseを確認する
+export const pingAppWebhook = async (app: App, accessToken: string): Promise<any> => {
+  if (!app.webhook_id) {
+    throw new AppError('Webhook is not registered. Enable auto deploy first.', 400);
+  }
+
+  const repoFullName = githubService.getRepositoryFullName(app.repository);
+
+  try {
+    await githubService.pingWebhook(repoFullName, accessToken, app.webhook_id);
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    const hook = await githubService.getWebhook(repoFullName, accessToken, app.webhook_id);
+
+    return {
+      id: hook.id,
+      active: hook.active,
+      last_response: hook.last_response,
+      updated_at: hook.updated_at,
+    };
+  } catch (error: any) {
+    throw toAppError(error, 'ping webhook');
+  }
+};
+
+export default {
+  getGithubToken,
+  registerAppWebhook,
+  unregisterAppWebhook,
+  pingAppWebhook,
+};
@@ -7,6 +7,7 @@ export interface User {
   name: string;
   role?: string;
   github_token?: string;
+  plan_id?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -16,6 +17,11 @@ export interface AuthenticatedRequest extends Request {
   user?: User;
 }
 
+// 署名検証のために生のリクエストボディを保持する拡張型
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
 // アプリケーション関連の型定義
 export interface App {
   id: string;
@@ -25,28 +31,235 @@ export interface App {
   branch: string;
   subdomain: string;
   url?: string;
-  status: 'created' | 'building' | 'running' | 'stopped' | 'failed';
+  // crashed/restartingはリコンサイラーがコンテナの状態から設定する
+  status: 'created' | 'building' | 'running' | 'stopped' | 'failed' | 'crashed' | 'restarting';
   domain_type: 'auto' | 'custom';
   custom_domain: string | null;
+  // 1つ目のレプリカのコンテナ（container_idsが導入される前のアプリとの互換性のため）
   container_id?: string;
-  build_method: 'auto' | 'dockerfile' | 'nextjs';
+  container_ids?: string[] | null;
+  replicas?: number | null;
+  build_method: BuildMethod;
   auto_deploy: boolean;
+  webhook_secret?: string;
+  webhook_id?: number | null;
+  deploy_key_id?: number | null;
+  deploy_key_public?: string | null;
+  deploy_key_private?: string | null;
+  current_deploy_id?: string | null;
+  health_check_path?: string | null;
+  health_check_expected_status?: number | null;
+  health_check_timeout_ms?: number | null;
+  health_check_retries?: number | null;
+  health_check_start_period_ms?: number | null;
+  memory_limit_mb?: number | null;
+  cpu_limit?: number | null;
+  pids_limit?: number | null;
+  // リコンサイラーが記録したコンテナの状態（すべてのレプリカの再起動回数の合計と最後の終了）
+  restart_count?: number | null;
+  last_exit_code?: number | null;
+  last_exit_reason?: string | null;
+  last_exited_at?: string | null;
+  status_checked_at?: string | null;
+  // ビルドキャッシュ（BuildKitのキャッシュマウント）の識別子。キャッシュを削除すると新しい値になる
+  build_cache_key?: string | null;
+  // 次回のビルドでレイヤーキャッシュを使わない（キャッシュを削除したあとのビルドで解除される）
+  build_no_cache?: boolean | null;
+  // 生成するDockerfileで使うNode.jsのバージョン（nullはプロジェクトの指定から自動で選ぶ）
+  node_version?: string | null;
+  // モノレポ向けの設定（いずれもリポジトリのルートからの相対パス。nullは既定値）
+  root_directory?: string | null;
+  dockerfile_path?: string | null;
+  build_context?: string | null;
   last_deployed_at?: string;
   created_at: string;
   updated_at?: string;
 }
 
+// コンテナのリソース制限
+export interface ResourceLimits {
+  memory_mb: number;
+  cpus: number;
+  // nullの場合はプロセス数を制限しない
+  pids_limit: number | null;
+}
+
+// NextDockのラベルが付いたコンテナ
+export interface LabeledContainer {
+  id: string;
+  name: string;
+  // com.nextdock.appラベルの値（アプリのサブドメイン）
+  subdomain: string;
+  state: string;
+}
+
+// 対応するアプリがないコンテナ
+export interface OrphanContainer {
+  container_id: string;
+  name: string;
+  subdomain: string;
+  state: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// 管理者が定義するプラン（アプリに設定できるリソースの上限）
+// 上限がnullの項目は制限しない
+export interface Plan {
+  id: string;
+  name: string;
+  max_memory_mb: number | null;
+  max_cpus: number | null;
+  max_pids: number | null;
+  // プランが割り当てられていないユーザーに適用する
+  is_default: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
 // デプロイ関連の型定義
 export interface Deploy {
   id: string;
   app_id: string;
-  status: 'pending' | 'in_progress' | 'success' | 'failed';
+  status: 'pending' | 'in_progress' | 'success' | 'failed' | 'skipped' | 'cancelled';
+  // restartは環境変数の変更を反映するため、現在のイメージからコンテナを起動し直すデプロイ
+  trigger?: 'manual' | 'webhook' | 'rollback' | 'restart';
   logs?: string;
   commit_hash?: string;
   commit_message?: string;
   initiated_by: string;
+  attempts?: number;
+  scheduled_at?: string;
+  // 実行しているワーカーと、そのワーカーが最後に実行中であることを記録した時刻
+  locked_by?: string | null;
+  heartbeat_at?: string | null;
   created_at: string;
+  started_at?: string;
   completed_at?: string;
+  cancel_requested_at?: string | null;
+  image_tag?: string | null;
+  image_removed_at?: string | null;
+  rollback_of?: string | null;
+  health_check?: HealthCheckResult | null;
+  // イメージのビルドにかかった時間（ロールバックなどビルドしなかった場合はnull）
+  build_duration_ms?: number | null;
+  // キャッシュとして使ったイメージ
+  build_cache_from?: string | null;
+  // Dockerfileがないリポジトリ向けに生成したDockerfileと、選んだビルド戦略、検出したパッケージマネージャー
+  dockerfile?: string | null;
+  build_strategy?: BuildStrategyName | null;
+  package_manager?: PackageManagerName | null;
+  // 生成したDockerfileで使ったNode.jsのバージョン
+  node_version?: string | null;
+  // ビルドしたイメージのサイズ（バイト数）
+  image_size_bytes?: number | null;
+  stages?: DeployStageResult[];
+}
+
+// ヘルスチェックの設定
+export interface HealthCheckSettings {
+  path: string;
+  // nullの場合は500未満のステータスであれば成功とする
+  expected_status: number | null;
+  timeout_ms: number;
+  retries: number;
+  // 起動直後の猶予時間（この間の失敗はリトライ回数に数えない）
+  start_period_ms: number;
+}
+
+// ヘルスチェックの結果
+export interface HealthCheckResult {
+  status: 'passed' | 'failed';
+  path: string;
+  expected_status: number | null;
+  attempts: number;
+  status_code?: number;
+  response_time_ms?: number;
+  error?: string;
+  started_at: string;
+  finished_at: string;
+}
+
+// デプロイパイプラインのステージ
+export type DeployStageName = 'clone' | 'detect' | 'build' | 'release' | 'verify';
+
+// 各ステージの実行結果
+export interface DeployStageResult<T = Record<string, any>> {
+  stage: DeployStageName;
+  status: 'success' | 'failed' | 'skipped' | 'cancelled';
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  output?: T;
+  error?: string;
+}
+
+// ステージごとの出力
+export interface CloneStageOutput {
+  repository_url: string;
+  branch: string;
+  auth: CloneCredentials['type'];
+  commit: CommitInfo;
+}
+
+export interface DetectStageOutput {
+  has_dockerfile: boolean;
+  build_method: BuildMethod;
+  // Dockerfileを生成する場合のみ
+  package_manager?: PackageManagerInfo;
+  node_version?: NodeVersionInfo;
+  nextjs_output?: NextjsOutputInfo;
+  // Dockerfileを生成するビルド戦略と、ほかに当てはまった戦略
+  strategy?: BuildStrategyMatch;
+  strategy_candidates?: BuildStrategyMatch[];
+  paths: BuildPaths;
+}
+
+export interface BuildStageOutput {
+  image_tag: string;
+  // ロールバックの場合は、イメージを再利用したデプロイのID
+  reused_from?: string;
+  duration_ms?: number;
+  cache_from?: string | null;
+  image_size_bytes?: number | null;
+}
+
+export interface ReleaseStageOutput {
+  container_ids: string[];
+  container_names: string[];
+  previous_container_ids: string[];
+  url: string;
+}
+
+export interface VerifyStageOutput {
+  running: boolean;
+  health_check: HealthCheckResult;
+  drained_container_ids: string[];
+}
+
+// レプリカのコンテナの状態
+export interface ReplicaState {
+  index: number;
+  container_id: string;
+  name: string | null;
+  // Dockerのコンテナの状態（running, exited, restartingなど）。コンテナが存在しない場合はmissing
+  state: string;
+  running: boolean;
+  started_at?: string;
+  restart_count?: number;
+}
+
+// Webhook配信ログの型定義
+export interface WebhookDelivery {
+  id: string;
+  app_id: string;
+  delivery_id: string;
+  event: string;
+  // processingは処理中（処理を始める前に記録し、処理が終わると結果で更新する）
+  result: 'processing' | 'processed' | 'ignored' | 'rejected' | 'duplicate' | 'error';
+  message?: string;
+  deploy_id?: string;
+  created_at: string;
 }
 
 // ドメイン関連の型定義
@@ -60,12 +273,27 @@ export interface Domain {
   verified_at?: string;
 }
 
+// 環境変数を使う場面（build: ビルド時のみ、runtime: 実行時のみ、both: 両方）
+export type EnvVarScope = 'build' | 'runtime' | 'both';
+
 // 環境変数の型定義
 export interface EnvVar {
   id?: string;
   app_id?: string;
   key: string;
   value: string;
+  // 省略時（スコープの追加前に登録された環境変数）はboth
+  scope?: EnvVarScope;
+  // シークレットの値は明示的に要求された場合だけ返す
+  is_secret?: boolean;
+  created_at?: string;
+}
+
+// 鍵のローテーションで保存し直した値の数
+export interface SecretRotationResult {
+  env_vars: number;
+  github_tokens: number;
+  deploy_keys: number;
 }
 
 // GitHub関連の型定義
@@ -88,6 +316,15 @@ export interface GithubBranch {
   };
 }
 
+// リポジトリ内で見つかったデプロイできるアプリ（新規作成画面の候補）
+export interface RepositoryProject {
+  // リポジトリのルートからの相対パス（ルートは空文字）
+  root_directory: string;
+  name: string | null;
+  framework: 'nextjs' | null;
+  dockerfile_path: string | null;
+}
+
 // エラーレスポンスの型定義
 export interface ErrorResponse {
   error: string;
@@ -103,6 +340,186 @@ export interface DockerBuildOptions {
   envVars?: EnvVar[];
 }
 
+// コンテナの起動オプション
+export interface RunContainerOptions {
+  // 省略時は nextdock-<サブドメイン>
+  name?: string;
+  // 省略時はnginx-proxyと同じネットワーク
+  network?: string;
+  // 省略時は既定のリソース制限
+  resources?: ResourceLimits;
+}
+
+// Node.jsのパッケージマネージャー
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+// リポジトリから検出したパッケージマネージャー
+export interface PackageManagerInfo {
+  name: PackageManagerName;
+  // package.jsonのpackageManagerフィールドで指定されたバージョン
+  version: string | null;
+  lockfile: string | null;
+  // 検出の根拠
+  source: 'packageManager' | 'lockfile' | 'default';
+}
+
+// ビルドに使うNode.jsのバージョン
+export interface NodeVersionInfo {
+  // 18のようなメジャーバージョン、または18.20.4のような完全なバージョン
+  version: string;
+  image: string;
+  // 選んだ根拠（アプリの設定、engines.node、.nvmrc、.node-version、既定値）
+  source: 'app' | 'engines' | 'nvmrc' | 'node-version' | 'default';
+  // プロジェクトやアプリの設定に書かれていた値
+  declared: string | null;
+  // 解釈できずに無視した指定
+  warnings?: string[];
+}
+
+// ビルドに使うリポジトリ内のパス（いずれもクローンしたディレクトリ内の絶対パス）
+export interface BuildPaths {
+  // package.jsonやnext.configがあるアプリのディレクトリ
+  appPath: string;
+  dockerfilePath: string;
+  contextPath: string;
+}
+
+// Next.jsのビルド出力の形式
+export interface NextjsOutputInfo {
+  // standaloneの場合は本番環境用イメージにserver.jsと実行に必要なファイルだけを入れる
+  // exportの場合は静的なファイルを書き出す（静的サイトとして配信する）
+  mode: 'standalone' | 'server' | 'export';
+  // next.configで指定されている・NextDockが有効にする・Next.jsのバージョンが対応していない
+  source: 'config' | 'enabled' | 'unsupported';
+  config_file: string | null;
+  next_version: string | null;
+}
+
+// Dockerfileを生成するビルド戦略
+export type BuildStrategyName = 'nextjs' | 'remix' | 'astro' | 'nestjs' | 'static' | 'node' | 'buildpack';
+
+// アプリのビルド方法（autoはプロジェクトに合うビルド戦略を選ぶ）
+export type BuildMethod = 'auto' | 'dockerfile' | BuildStrategyName;
+
+// プロジェクトに合うビルド戦略の判定結果
+export interface BuildStrategyMatch {
+  strategy: BuildStrategyName;
+  // 大きいほどプロジェクトに合う
+  score: number;
+  // 判定の根拠（デプロイログに表示する）
+  reason: string;
+  // 依存関係をインストールしてビルドするか（package.jsonがない静的サイトはそのまま配信する）
+  node: boolean;
+  // buildスクリプトを実行するか
+  build: boolean;
+  // 静的サイトとして配信する場合の出力先（アプリのディレクトリからの相対パス）
+  output_dir?: string;
+  // Node.jsで起動する場合のコマンド
+  start_command?: string[];
+  // buildpackの場合のビルドプラン
+  plan?: BuildPlan;
+}
+
+// buildpackで判定する言語（customは設定ファイルでイメージとコマンドを指定したもの）
+export type BuildpackLanguage = 'node' | 'python' | 'go' | 'ruby' | 'custom';
+
+// buildpackでDockerfileを生成するためのビルドプラン
+export interface BuildPlan {
+  language: BuildpackLanguage;
+  // 言語を判定した根拠
+  reason: string;
+  image: string;
+  // 依存関係のインストールの前にコピーするファイル（空の場合はすべてのファイルをコピーしてからインストールする）
+  install_files: string[];
+  install: string | null;
+  build: string | null;
+  // 起動コマンド（判定できなかった場合はnull）
+  start: string | null;
+  // アプリが待ち受けるポート（環境変数PORTでも渡す）
+  port: number;
+  // 設定ファイル（nextdock.json）と、そこで指定された項目
+  config_file: string | null;
+  overrides: string[];
+}
+
+// ビルドプランを作るためにアプリのディレクトリのファイルを読む方法（クローンしたディレクトリまたはGitHub API）
+export interface ProjectFileSource {
+  // アプリのディレクトリ直下のファイル名
+  files: string[];
+  // ファイルの内容（存在しない場合はnull）
+  read: (file: string) => Promise<string | null>;
+}
+
+// 生成するDockerfileの共通の設定
+export interface DockerfileOptions {
+  // キャッシュマウントの識別子
+  cacheId?: string;
+  // 省略時はリポジトリから検出する
+  packageManager?: PackageManagerInfo;
+  // 省略時は既定のバージョン
+  nodeVersion?: NodeVersionInfo;
+  // ビルドコンテキストからアプリのディレクトリへの相対パス（モノレポの場合）
+  rootDirectory?: string;
+  // 省略時はアプリのディレクトリのDockerfile
+  dockerfilePath?: string;
+  // ビルド時に使う環境変数の名前（BuildKitのシークレットとしてマウントする）
+  buildSecrets?: string[];
+}
+
+// Next.js用のDockerfileの生成方法
+export interface NextjsDockerfileOptions extends DockerfileOptions {
+  // 省略時はリポジトリから判定する
+  output?: NextjsOutputInfo;
+}
+
+// 依存関係をインストールするビルダーステージ（各ビルド戦略がビルドと本番環境用イメージを続けて書く）
+export interface NodeBuilderStage {
+  dockerfile: string;
+  // ビルドコンテキストからアプリのディレクトリへの相対パス（ルートは空文字）
+  appDir: string;
+  // ビルダーでのアプリのディレクトリ
+  workdir: string;
+  // 本番環境用イメージに入れるファイルをまとめるディレクトリ
+  runnerDir: string;
+  nodeImage: string;
+  packageManager: PackageManagerInfo;
+  // buildスクリプトを実行するコマンド
+  build: string;
+  // BuildKitのキャッシュマウントの指定（無効な場合は空文字）
+  cacheMount: (name: string, target: string) => string;
+  // ビルド時の環境変数をシークレットから読み込んでコマンドを実行するRUNの引数
+  withBuildSecrets: (command: string) => string;
+}
+
+// イメージのビルドでのキャッシュの使い方
+export interface BuildCacheOptions {
+  // キャッシュとして使うイメージ（前回のデプロイのイメージ）
+  cacheFrom?: string[];
+  // レイヤーキャッシュを使わない
+  noCache?: boolean;
+  // 生成するDockerfileのキャッシュマウントの識別子（アプリごと）
+  cacheId?: string;
+}
+
+// コンテナログの取得オプション
+export interface ContainerLogOptions {
+  tail?: number | 'all';
+  // UNIXタイムスタンプ（秒）
+  since?: number;
+  stdout?: boolean;
+  stderr?: boolean;
+  timestamps?: boolean;
+}
+
+// コンテナログの1行
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  timestamp?: string;
+  // 複数のレプリカのログをまとめたときのレプリカ番号
+  replica?: number;
+}
+
 // カスタムエラークラス
 export class AppError extends Error {
   statusCode: number;
@@ -117,6 +534,16 @@ export class AppError extends Error {
   }
 }
 
+// デプロイがキャンセルされたことを示すエラー
+export class DeployCancelledError extends Error {
+  constructor(message: string = 'Deployment was cancelled') {
+    super(message);
+    this.name = 'DeployCancelledError';
+    
+    Object.setPrototypeOf(this, DeployCancelledError.prototype);
+  }
+}
+
 // CommitInfo型の定義
 export interface CommitInfo {
   hash: string;
@@ -124,3 +551,15 @@ export interface CommitInfo {
   author: string;
   date: string;
 }
+
+// リポジトリのクローンに使用する認証情報
+export type CloneCredentials =
+  | { type: 'token'; token: string }
+  | { type: 'deploy_key'; private_key: string };
+
+// 生成したデプロイキー（SSH）
+export interface DeployKeyPair {
+  public_key: string;
+  private_key: string;
+  fingerprint: string;
+}
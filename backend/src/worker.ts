@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import deployQueue from './services/deployQueue';
+import reconcileService from './services/reconcileService';
+import secretsService from './services/secretsService';
+
+// 設定の読み込み
+dotenv.config();
+
+// シークレットを復号するマスターキーがなければ起動しない
+try {
+  secretsService.assertSecretsConfigured();
+} catch (error: any) {
+  console.error(`Failed to start deploy worker: ${error.message}`);
+  process.exit(1);
+}
+
+// デプロイワーカーとリコンサイラーを単独プロセスとして起動
+// APIサーバーとは別に実行する場合は DEPLOY_WORKER_EMBEDDED=false を設定してください
+deployQueue.startDeployWorker().catch((error) => {
+  console.error('Failed to start deploy worker:', error);
+  process.exit(1);
+});
+reconcileService.startReconciler();
+
+// 終了シグナルを受け取ったらポーリングを停止
+const shutdown = () => {
+  deployQueue.stopDeployWorker();
+  reconcileService.stopReconciler();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,11 +1,22 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { deploysApi } from '../../../../../../lib/api';
-import { Deploy } from '../../../../../../types';
-import { FiArrowLeft, FiRefreshCw, FiDownload } from 'react-icons/fi';
+import { Deploy, BuildStrategyName } from '../../../../../../types';
+import { FiArrowLeft, FiRefreshCw, FiDownload, FiXCircle, FiRotateCcw } from 'react-icons/fi';
+
+// ビルド戦略の表示名
+const BUILD_STRATEGY_LABELS: Record<BuildStrategyName, string> = {
+  nextjs: 'Next.js',
+  remix: 'Remix',
+  astro: 'Astro',
+  nestjs: 'NestJS',
+  static: '静的サイト',
+  node: 'Node.jsサーバー',
+  buildpack: 'Buildpack',
+};
 
 interface DeployDetailsProps {
   params: {
@@ -21,8 +32,12 @@ export default function DeployDetails({ params }: DeployDetailsProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [streaming, setStreaming] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const logContainerRef = useRef<HTMLDivElement>(null);
 
-  const fetchDeployDetails = async () => {
+  const fetchDeployDetails = useCallback(async () => {
     try {
       setLoading(true);
       const deployData = await deploysApi.getDeployDetails(params.id, params.deployId);
@@ -38,11 +53,91 @@ export default function DeployDetails({ params }: DeployDetailsProps) {
       setError(err.response?.data?.message || 'デプロイ情報の取得に失敗しました');
       setLoading(false);
     }
-  };
+  }, [params.id, params.deployId]);
 
   useEffect(() => {
     fetchDeployDetails();
-  }, [params.id, params.deployId]);
+  }, [fetchDeployDetails]);
+
+  // 実行中のデプロイはログをストリーミングで表示
+  const isActive = deploy?.status === 'pending' || deploy?.status === 'in_progress';
+  useEffect(() => {
+    if (!isActive) return;
+
+    const controller = new AbortController();
+    // ストリームはログ全体を最初から送るため、受信した内容で置き換える
+    let streamedLogs = '';
+
+    setStreaming(true);
+    deploysApi.streamDeployLogs(params.id, params.deployId, {
+      onLog: (text) => {
+        streamedLogs += text;
+        setLogs(streamedLogs);
+        setLastUpdated(new Date());
+      },
+      onReset: () => {
+        streamedLogs = '';
+        setLogs('');
+      },
+      onStatus: (status) => {
+        setDeploy(prev => prev ? { ...prev, status } : prev);
+      },
+      onEnd: () => {
+        // ステージの結果や完了時間を反映
+        fetchDeployDetails();
+      },
+      onError: (message) => {
+        console.error('Deploy log stream error:', message);
+      },
+    }, controller.signal)
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          console.error('Error streaming deploy logs:', err);
+        }
+      })
+      .finally(() => setStreaming(false));
+
+    return () => controller.abort();
+  }, [params.id, params.deployId, isActive, fetchDeployDetails]);
+
+  // 新しいログが届いたら末尾までスクロール
+  useEffect(() => {
+    if (streaming && logContainerRef.current) {
+      logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
+    }
+  }, [logs, streaming]);
+
+  // デプロイをキャンセル
+  const cancelDeploy = async () => {
+    if (!confirm('このデプロイをキャンセルしますか？現在実行中のアプリはそのまま残ります。')) return;
+
+    try {
+      setCancelling(true);
+      const result = await deploysApi.cancelDeploy(params.id, params.deployId);
+      setDeploy(prev => prev ? { ...prev, status: result.deploy.status, cancel_requested_at: result.deploy.cancel_requested_at } : prev);
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'デプロイのキャンセルに失敗しました');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // このデプロイのイメージでロールバック
+  const rollbackDeploy = async () => {
+    if (!confirm('このデプロイにロールバックしますか？ビルドは行わず、保存されているイメージから起動します。')) return;
+
+    try {
+      setRollingBack(true);
+      const result = await deploysApi.rollbackDeploy(params.id, params.deployId);
+      router.push(`/dashboard/apps/${params.id}/deploys/${result.deploy.id}`);
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'ロールバックの開始に失敗しました');
+      setRollingBack(false);
+    }
+  };
+
+  // ロールバックに使えるイメージが残っているか
+  const canRollback = deploy?.status === 'success' && !!deploy.image_tag && !deploy.image_removed_at;
 
   // ログをダウンロード
   const downloadLogs = () => {
@@ -121,6 +216,26 @@ export default function DeployDetails({ params }: DeployDetailsProps) {
           </p>
         </div>
         <div className="flex space-x-2">
+          {isActive && (
+            <button
+              onClick={cancelDeploy}
+              disabled={cancelling || !!deploy?.cancel_requested_at}
+              className="inline-flex items-center px-3 py-2 border border-red-300 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+            >
+              <FiXCircle className="mr-2 h-4 w-4" />
+              {deploy?.cancel_requested_at ? 'キャンセル中...' : 'キャンセル'}
+            </button>
+          )}
+          {canRollback && (
+            <button
+              onClick={rollbackDeploy}
+              disabled={rollingBack}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+            >
+              <FiRotateCcw className="mr-2 h-4 w-4" />
+              このデプロイにロールバック
+            </button>
+          )}
           <button
             onClick={fetchDeployDetails}
             className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
@@ -149,6 +264,8 @@ export default function DeployDetails({ params }: DeployDetailsProps) {
               {deploy?.status === 'failed' && '失敗'}
               {deploy?.status === 'in_progress' && '進行中'}
               {deploy?.status === 'pending' && '保留中'}
+              {deploy?.status === 'skipped' && 'スキップ'}
+              {deploy?.status === 'cancelled' && 'キャンセル'}
             </p>
           </div>
           <div>
@@ -164,10 +281,46 @@ export default function DeployDetails({ params }: DeployDetailsProps) {
               {deploy?.duration || '計算中...'}
             </p>
           </div>
+          {deploy?.build_duration_ms !== null && deploy?.build_duration_ms !== undefined && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">ビルド時間</h3>
+              <p className="mt-1 text-sm text-gray-900">
+                {(deploy.build_duration_ms / 1000).toFixed(1)}秒
+                <span className="ml-2 text-xs text-gray-500">
+                  {deploy.build_cache_from ? 'キャッシュあり' : 'キャッシュなし'}
+                </span>
+              </p>
+            </div>
+          )}
+          {deploy?.build_strategy && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">ビルド戦略</h3>
+              <p className="mt-1 text-sm text-gray-900">{BUILD_STRATEGY_LABELS[deploy.build_strategy]}</p>
+            </div>
+          )}
+          {deploy?.image_size_bytes !== null && deploy?.image_size_bytes !== undefined && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">イメージサイズ</h3>
+              <p className="mt-1 text-sm text-gray-900">
+                {(deploy.image_size_bytes / 1024 / 1024).toFixed(1)} MB
+              </p>
+            </div>
+          )}
           <div>
             <h3 className="text-sm font-medium text-gray-500">実行者</h3>
             <p className="mt-1 text-sm text-gray-900">{deploy?.initiatedBy || '-'}</p>
           </div>
+          {deploy?.rollback_of && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">{deploy.trigger === 'restart' ? '再起動したデプロイ' : 'ロールバック元'}</h3>
+              <Link
+                href={`/dashboard/apps/${params.id}/deploys/${deploy.rollback_of}`}
+                className="mt-1 text-sm text-primary-600 hover:text-primary-900 inline-block"
+              >
+                {deploy.rollback_of.substring(0, 8)}
+              </Link>
+            </div>
+          )}
           <div>
             <h3 className="text-sm font-medium text-gray-500">開始時間</h3>
             <p className="mt-1 text-sm text-gray-900">
@@ -201,10 +354,93 @@ export default function DeployDetails({ params }: DeployDetailsProps) {
         </div>
       </div>
 
+      {/* パイプラインのステージ */}
+      {deploy?.stages && deploy.stages.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-4">
+          <h3 className="text-sm font-medium text-gray-500 mb-3">ステージ</h3>
+          <ol className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            {deploy.stages.map((stage) => (
+              <li key={stage.stage} className="border border-gray-200 dark:border-gray-700 rounded p-2" title={stage.error}>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">{stage.stage}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded ${getStatusColor(stage.status)}`}>
+                    {stage.status === 'success' && '成功'}
+                    {stage.status === 'failed' && '失敗'}
+                    {stage.status === 'skipped' && 'スキップ'}
+                    {stage.status === 'cancelled' && 'キャンセル'}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {stage.status === 'skipped' ? '-' : `${(stage.duration_ms / 1000).toFixed(1)}秒`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* ヘルスチェックの結果 */}
+      {deploy?.health_check && (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-500">ヘルスチェック</h3>
+            <span className={`text-xs px-2 py-0.5 rounded ${getStatusColor(deploy.health_check.status === 'passed' ? 'success' : 'failed')}`}>
+              {deploy.health_check.status === 'passed' ? '成功' : '失敗'}
+            </span>
+          </div>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">リクエスト</dt>
+              <dd className="mt-1 font-mono text-gray-900 dark:text-white">GET {deploy.health_check.path}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">ステータスコード</dt>
+              <dd className="mt-1 text-gray-900 dark:text-white">
+                {deploy.health_check.status_code ?? '-'}
+                {` (期待値: ${deploy.health_check.expected_status ?? '500未満'})`}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">応答時間</dt>
+              <dd className="mt-1 text-gray-900 dark:text-white">
+                {deploy.health_check.response_time_ms !== undefined ? `${deploy.health_check.response_time_ms}ms` : '-'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">試行回数</dt>
+              <dd className="mt-1 text-gray-900 dark:text-white">{deploy.health_check.attempts}</dd>
+            </div>
+          </dl>
+          {deploy.health_check.error && (
+            <p className="mt-3 text-sm text-red-600">{deploy.health_check.error}</p>
+          )}
+        </div>
+      )}
+
+      {/* 生成したDockerfile */}
+      {deploy?.dockerfile && (
+        <details className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-4">
+          <summary className="text-sm font-medium text-gray-500 cursor-pointer">
+            生成されたDockerfile{(deploy.package_manager || deploy.node_version) && `（${[deploy.package_manager, deploy.node_version && `Node.js ${deploy.node_version}`].filter(Boolean).join('・')}）`}
+          </summary>
+          <pre className="mt-3 bg-gray-900 text-gray-100 rounded p-3 text-xs font-mono overflow-x-auto">
+            {deploy.dockerfile.trim()}
+          </pre>
+        </details>
+      )}
+
       {/* ログ表示エリア */}
       <div className="mt-4">
-        <h3 className="text-lg font-medium text-gray-900 mb-2">デプロイログ</h3>
-        <div className="bg-black text-green-400 font-mono text-sm p-4 rounded-lg h-[500px] overflow-y-auto whitespace-pre-wrap">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-medium text-gray-900">デプロイログ</h3>
+          {streaming && (
+            <span className="inline-flex items-center text-xs text-blue-600">
+              <span className="h-2 w-2 rounded-full bg-blue-500 animate-pulse mr-1"></span>
+              ライブ
+            </span>
+          )}
+        </div>
+        <div ref={logContainerRef} className="bg-black text-green-400 font-mono text-sm p-4 rounded-lg h-[500px] overflow-y-auto whitespace-pre-wrap">
           {logs ? (
             logs
           ) : (
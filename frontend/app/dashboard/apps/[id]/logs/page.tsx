@@ -4,7 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { appsApi } from '../../../../../lib/api';
-import { App } from '../../../../../types';
+import { App, ContainerLogLine, ContainerLogQuery } from '../../../../../types';
 import { FiRefreshCw, FiDownload } from 'react-icons/fi';
 
 interface LogsPageProps {
@@ -13,33 +13,65 @@ interface LogsPageProps {
   };
 }
 
+// フォロー中に保持する最大行数
+const MAX_LINES = 5000;
+
 export default function LogsPage({ params }: LogsPageProps) {
   const router = useRouter();
   const [app, setApp] = useState<App | null>(null);
-  const [logs, setLogs] = useState<string>('');
+  const [lines, setLines] = useState<ContainerLogLine[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [autoRefresh, setAutoRefresh] = useState(false);
+  const [follow, setFollow] = useState(false);
+  const [streaming, setStreaming] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+
+  // 取得条件
+  const [tail, setTail] = useState<string>('100');
+  const [since, setSince] = useState<string>('');
+  const [showStdout, setShowStdout] = useState(true);
+  const [showStderr, setShowStderr] = useState(true);
+  const [filterInput, setFilterInput] = useState('');
+  const [filter, setFilter] = useState('');
+  const [showTimestamps, setShowTimestamps] = useState(false);
+
+  const query: ContainerLogQuery = {
+    tail: tail === 'all' ? 'all' : parseInt(tail),
+    since: since || undefined,
+    stdout: showStdout,
+    stderr: showStderr,
+    filter: filter || undefined,
+    timestamps: true,
+  };
+
+  // 表示用のテキスト（ダウンロードにも使用）
+  // 複数のレプリカのログは行頭にレプリカ番号を付ける
+  const logs = lines
+    .map(line => {
+      const text = line.replica !== undefined ? `[replica ${line.replica}] ${line.text}` : line.text;
+      return showTimestamps && line.timestamp ? `${line.timestamp} ${text}` : text;
+    })
+    .join('\n');
+
+  // フロントエンドのApp型定義のcontainerIdとバックエンドのcontainer_idの両方に対応
+  const hasContainer = !!(app?.containerId || app?.container_id || app?.container_ids?.length);
 
   // ログをフェッチする関数
   const fetchLogs = async () => {
     try {
       if (!app) return;
-      // フロントエンドのApp型定義のcontainerIdとバックエンドのcontainer_idの両方に対応
-      if (!app.containerId && !app.container_id) {
+      if (!hasContainer) {
         console.log('コンテナIDが見つかりません。App:', app);
         return;
       }
       
-      const response = await appsApi.getContainerLogs(app.id);
-      setLogs(response.logs);
+      const response = await appsApi.getContainerLogs(app.id, query);
+      setLines(response.lines);
       setLastUpdated(new Date());
       setError(null);
     } catch (err: any) {
-      setError(err.message || 'ログの取得に失敗しました');
+      setError(err.response?.data?.message || err.message || 'ログの取得に失敗しました');
     }
   };
 
@@ -60,29 +92,42 @@ export default function LogsPage({ params }: LogsPageProps) {
     fetchAppData();
   }, [params.id]);
 
-  // アプリ情報が取得できたらログを取得
+  // アプリ情報または取得条件が変わったらログを取得
+  // フォロー中はストリームが指定件数のログを送った後、新しい行を追記していく
   useEffect(() => {
-    if (app) {
+    if (!app || !hasContainer) return;
+
+    if (!follow) {
       fetchLogs();
+      return;
     }
-  }, [app]);
 
-  // 自動更新の設定
-  useEffect(() => {
-    if (autoRefresh) {
-      refreshIntervalRef.current = setInterval(() => {
-        fetchLogs();
-      }, 5000); // 5秒ごとに更新
-    } else if (refreshIntervalRef.current) {
-      clearInterval(refreshIntervalRef.current);
-    }
-    
-    return () => {
-      if (refreshIntervalRef.current) {
-        clearInterval(refreshIntervalRef.current);
-      }
-    };
-  }, [autoRefresh, app]);
+    const controller = new AbortController();
+    let received: ContainerLogLine[] = [];
+    setLines([]);
+    setError(null);
+    setStreaming(true);
+
+    appsApi.streamContainerLogs(app.id, query, {
+      onLine: (line) => {
+        // 表示する行数が増えすぎないように古い行を捨てる
+        received = [...received, line].slice(-MAX_LINES);
+        setLines(received);
+        setLastUpdated(new Date());
+      },
+      onEnd: () => {
+        setError('コンテナが停止したため、ログの追跡を終了しました');
+      },
+    }, controller.signal)
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          setError(err.message || 'ログの追跡に失敗しました');
+        }
+      })
+      .finally(() => setStreaming(false));
+
+    return () => controller.abort();
+  }, [app, follow, tail, since, showStdout, showStderr, filter]);
 
   // ログが更新されたらスクロールを一番下に移動
   useEffect(() => {
@@ -136,7 +181,7 @@ export default function LogsPage({ params }: LogsPageProps) {
           <button
             onClick={() => fetchLogs()}
             className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-            disabled={loading || !app?.containerId}
+            disabled={loading || !hasContainer || follow}
           >
             <FiRefreshCw className="mr-2 h-4 w-4" />
             更新
@@ -159,33 +204,120 @@ export default function LogsPage({ params }: LogsPageProps) {
       </div>
 
       {/* コントロールパネル */}
-      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-4 flex justify-between items-center">
-        <div className="flex items-center">
-          <div className="relative inline-block w-10 mr-2 align-middle select-none">
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-4 space-y-4">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center">
+            <div className="relative inline-block w-10 mr-2 align-middle select-none">
+              <input
+                type="checkbox"
+                id="follow"
+                checked={follow}
+                onChange={(e) => setFollow(e.target.checked)}
+                className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer"
+              />
+              <label
+                htmlFor="follow"
+                className="toggle-label block overflow-hidden h-6 rounded-full bg-gray-300 cursor-pointer"
+              ></label>
+            </div>
+            <label htmlFor="follow" className="text-sm text-gray-700 dark:text-gray-300">
+              ライブ表示（新しいログを追跡）
+            </label>
+            {streaming && (
+              <span className="ml-3 inline-flex items-center text-xs text-blue-600">
+                <span className="h-2 w-2 rounded-full bg-blue-500 animate-pulse mr-1"></span>
+                追跡中
+              </span>
+            )}
+          </div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {lastUpdated && `最終更新: ${lastUpdated.toLocaleString()}`}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center">
+            行数
+            <select
+              value={tail}
+              onChange={(e) => setTail(e.target.value)}
+              className="ml-2 border border-gray-300 rounded-md py-1 px-2 text-sm"
+            >
+              <option value="100">100</option>
+              <option value="500">500</option>
+              <option value="1000">1000</option>
+              <option value="all">すべて</option>
+            </select>
+          </label>
+          <label className="flex items-center">
+            期間
+            <select
+              value={since}
+              onChange={(e) => setSince(e.target.value)}
+              className="ml-2 border border-gray-300 rounded-md py-1 px-2 text-sm"
+            >
+              <option value="">指定なし</option>
+              <option value="10m">10分以内</option>
+              <option value="1h">1時間以内</option>
+              <option value="24h">24時間以内</option>
+            </select>
+          </label>
+          <label className="flex items-center">
             <input
               type="checkbox"
-              id="auto-refresh"
-              checked={autoRefresh}
-              onChange={(e) => setAutoRefresh(e.target.checked)}
-              className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer"
+              checked={showStdout}
+              onChange={(e) => setShowStdout(e.target.checked)}
+              disabled={showStdout && !showStderr}
+              className="mr-1"
             />
-            <label
-              htmlFor="auto-refresh"
-              className="toggle-label block overflow-hidden h-6 rounded-full bg-gray-300 cursor-pointer"
-            ></label>
-          </div>
-          <label htmlFor="auto-refresh" className="text-sm text-gray-700 dark:text-gray-300">
-            自動更新 (5秒)
+            stdout
           </label>
-        </div>
-        <div className="text-sm text-gray-500 dark:text-gray-400">
-          {lastUpdated && `最終更新: ${lastUpdated.toLocaleString()}`}
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={showStderr}
+              onChange={(e) => setShowStderr(e.target.checked)}
+              disabled={showStderr && !showStdout}
+              className="mr-1"
+            />
+            stderr
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={showTimestamps}
+              onChange={(e) => setShowTimestamps(e.target.checked)}
+              className="mr-1"
+            />
+            時刻を表示
+          </label>
+          <form
+            className="flex items-center"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setFilter(filterInput);
+            }}
+          >
+            <input
+              type="text"
+              value={filterInput}
+              onChange={(e) => setFilterInput(e.target.value)}
+              placeholder="キーワードで絞り込み"
+              className="border border-gray-300 rounded-l-md py-1 px-2 text-sm"
+            />
+            <button
+              type="submit"
+              className="px-3 py-1 border border-l-0 border-gray-300 rounded-r-md text-sm bg-white hover:bg-gray-50"
+            >
+              適用
+            </button>
+          </form>
         </div>
       </div>
 
       {/* ログ表示エリア */}
       <div className="bg-black text-green-400 font-mono text-sm p-4 rounded-lg h-[600px] overflow-y-auto whitespace-pre-wrap">
-        {!app?.containerId && !app?.container_id ? (
+        {!hasContainer ? (
           <div className="flex flex-col items-center justify-center h-full">
             <p className="text-yellow-300 mb-4">コンテナが実行されていないため、ログは利用できません。</p>
             <p className="text-gray-400">アプリを起動するか、デプロイしてください。</p>
@@ -203,9 +335,20 @@ export default function LogsPage({ params }: LogsPageProps) {
               </pre>
             )}
           </div>
-        ) : logs ? (
+        ) : lines.length > 0 ? (
           <>
-            {logs}
+            {lines.map((line, index) => (
+              <div key={index} className={line.stream === 'stderr' ? 'text-red-400' : undefined}>
+                {showTimestamps && line.timestamp && (
+                  <span className="text-gray-500 mr-2">{line.timestamp}</span>
+                )}
+                {line.replica !== undefined && (
+                  <span className="text-blue-400 mr-2">[replica {line.replica}]</span>
+                )}
+                {line.text}
+              </div>
+            ))}
+            {error && <div className="text-yellow-300 mt-2">{error}</div>}
             {app && (
               <pre className="mt-4 text-xs text-gray-500 border-t border-gray-700 pt-2">
                 デバッグ情報: コンテナID={app.containerId || app.container_id}
@@ -216,7 +359,9 @@ export default function LogsPage({ params }: LogsPageProps) {
           <div className="text-red-400">{error}</div>
         ) : (
           <div className="flex justify-center items-center h-full">
-            <div className="animate-pulse text-gray-500">ログを取得中...</div>
+            <div className="animate-pulse text-gray-500">
+              {streaming || !lastUpdated ? 'ログを取得中...' : '条件に一致するログはありません'}
+            </div>
           </div>
         )}
         <div ref={logsEndRef} />
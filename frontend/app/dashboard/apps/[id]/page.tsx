@@ -3,9 +3,9 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { FaExternalLinkAlt, FaHistory, FaCog, FaTrash, FaPlay, FaStop, FaRedo } from 'react-icons/fa';
+import { FaExternalLinkAlt, FaHistory, FaCog, FaTrash, FaPlay, FaStop, FaRedo, FaUndo } from 'react-icons/fa';
 import { appsApi, deploysApi } from '../../../../lib/api';
-import { App, Deploy, EnvVar } from '../../../../types';
+import { App, Deploy, EnvVar, ReplicaState } from '../../../../types';
 
 interface AppDetailsProps {
   params: {
@@ -22,6 +22,9 @@ export default function AppDetail({ params }: AppDetailsProps) {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<boolean>(false);
+  const [replicaStates, setReplicaStates] = useState<ReplicaState[]>([]);
+  const [replicaCount, setReplicaCount] = useState<number>(1);
+  const [scaling, setScaling] = useState<boolean>(false);
 
   // アプリデータを取得
   useEffect(() => {
@@ -44,6 +47,10 @@ export default function AppDetail({ params }: AppDetailsProps) {
         setApp(appData);
         setDeployments(deploymentsData);
         setEnvironment(envData);
+        setReplicaCount(appData.replicas || 1);
+        
+        // レプリカごとのコンテナの状態を取得
+        fetchReplicas();
         
         // 最新デプロイのログを取得（ある場合）
         if (deploymentsData.length > 0) {
@@ -69,13 +76,16 @@ export default function AppDetail({ params }: AppDetailsProps) {
     fetchAppData();
   }, [params.id]);
 
+  // コンテナが起動している（再起動を繰り返している場合も含む）
+  const isActive = (target: App) => target.status === 'running' || target.status === 'restarting';
+
   // アプリの起動/停止
   const handleToggleAppStatus = async () => {
     if (!app) return;
     
     setActionLoading(true);
     try {
-      const action = app.status === 'running' ? 'stop' : 'start';
+      const action = isActive(app) ? 'stop' : 'start';
       const { app: updatedApp } = await appsApi.toggleAppStatus(app.id, action);
       setApp(updatedApp);
       
@@ -84,13 +94,14 @@ export default function AppDetail({ params }: AppDetailsProps) {
       setApp(refreshedApp);
       setDeployments(deploymentsData);
       setEnvironment(envData);
+      fetchReplicas();
       
       // 操作成功メッセージ
       const successMessage = action === 'stop' ? 'アプリを停止しました' : 'アプリを起動しました';
       setError(successMessage);
       setTimeout(() => setError(null), 3000);
     } catch (err: any) {
-      const errorMessage = err.response?.data?.message || `アプリの${app.status === 'running' ? '停止' : '起動'}に失敗しました。`;
+      const errorMessage = err.response?.data?.message || `アプリの${isActive(app) ? '停止' : '起動'}に失敗しました。`;
       setError(errorMessage);
       
       // コンテナが見つからないエラーの場合、デプロイを促すメッセージを表示
@@ -108,6 +119,35 @@ export default function AppDetail({ params }: AppDetailsProps) {
     }
   };
 
+  // レプリカごとのコンテナの状態を取得
+  const fetchReplicas = async () => {
+    try {
+      const { containers } = await appsApi.getReplicas(params.id);
+      setReplicaStates(containers);
+    } catch (err) {
+      console.error('Failed to fetch replicas:', err);
+    }
+  };
+
+  // レプリカ数を変更（再デプロイせずにコンテナを増減する）
+  const handleScale = async () => {
+    if (!app) return;
+    
+    setScaling(true);
+    setError(null);
+    try {
+      const { app: updatedApp, containers } = await appsApi.scaleApp(app.id, replicaCount);
+      setApp(updatedApp);
+      setReplicaStates(containers);
+      setError(`レプリカ数を${replicaCount}に変更しました`);
+      setTimeout(() => setError(null), 3000);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'レプリカ数の変更に失敗しました。');
+    } finally {
+      setScaling(false);
+    }
+  };
+
   // アプリの再デプロイ
   const handleRedeploy = async () => {
     if (!app) return;
@@ -136,6 +176,7 @@ export default function AppDetail({ params }: AppDetailsProps) {
               const { app: refreshedApp, deployments: deploymentsData, environment: envData } = await appsApi.getApp(params.id);
               setApp(refreshedApp);
               setDeployments(deploymentsData);
+              fetchReplicas();
               
               setError(latestDeploy.status === 'success' ? 
                 'デプロイが完了しました！' : 
@@ -163,6 +204,30 @@ export default function AppDetail({ params }: AppDetailsProps) {
     }
   };
 
+  // 過去のデプロイにロールバック
+  const handleRollback = async (deploy: Deploy) => {
+    if (!app) return;
+    
+    if (!window.confirm(`コミット ${deploy.commitHash?.substring(0, 7) || deploy.id.substring(0, 8)} のデプロイにロールバックしますか？ビルドは行わず、保存されているイメージから起動します。`)) {
+      return;
+    }
+    
+    setActionLoading(true);
+    setError(null);
+    try {
+      const response = await deploysApi.rollbackDeploy(app.id, deploy.id);
+      // ロールバックの進行状況はデプロイ詳細画面で確認する
+      router.push(`/dashboard/apps/${app.id}/deploys/${response.deploy.id}`);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'ロールバックの開始に失敗しました。');
+      setActionLoading(false);
+    }
+  };
+
+  // ロールバック先として選べるデプロイか（イメージが残っている成功したデプロイ）
+  const canRollbackTo = (deploy: Deploy) =>
+    deploy.status === 'success' && !!deploy.image_tag && !deploy.image_removed_at && deploy.id !== app?.current_deploy_id;
+
   // アプリの削除
   const handleDeleteApp = async () => {
     if (!app) return;
@@ -260,6 +325,10 @@ export default function AppDetail({ params }: AppDetailsProps) {
             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
               app.status === 'running' 
                 ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' 
+                : app.status === 'crashed'
+                ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                : app.status === 'restarting'
+                ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
                 : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
             }`}>
               {app.status}
@@ -292,9 +361,9 @@ export default function AppDetail({ params }: AppDetailsProps) {
               className="btn-secondary"
               onClick={handleToggleAppStatus}
               disabled={actionLoading}
-              title={app.status === 'running' ? 'アプリを停止' : 'アプリを起動'}
+              title={isActive(app) ? 'アプリを停止' : 'アプリを起動'}
             >
-              {app.status === 'running' ? <FaStop className="h-4 w-4" /> : <FaPlay className="h-4 w-4" />}
+              {isActive(app) ? <FaStop className="h-4 w-4" /> : <FaPlay className="h-4 w-4" />}
             </button>
             <button 
               className="btn-secondary bg-blue-50 text-blue-600 hover:bg-blue-100 border-blue-200"
@@ -336,8 +405,16 @@ export default function AppDetail({ params }: AppDetailsProps) {
             <div>
               <p className="text-sm text-gray-500 dark:text-gray-400">ステータス</p>
               <p className="text-sm font-medium text-gray-900 dark:text-white">
-                {app.status === 'running' ? '実行中' : '停止中'}
+                {app.status === 'running' ? '実行中' : app.status === 'crashed' ? 'クラッシュ' : app.status === 'restarting' ? '再起動中' : '停止中'}
               </p>
+              {(app.restart_count || (app.last_exit_code !== null && app.last_exit_code !== undefined)) ? (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  再起動回数: {app.restart_count || 0}
+                  {app.last_exit_code !== null && app.last_exit_code !== undefined && (
+                    <> / 最後の終了コード: {app.last_exit_code}{app.last_exit_reason ? ` (${app.last_exit_reason})` : ''}</>
+                  )}
+                </p>
+              ) : null}
             </div>
             <div>
               <p className="text-sm text-gray-500 dark:text-gray-400">最終デプロイ</p>
@@ -419,6 +496,8 @@ export default function AppDetail({ params }: AppDetailsProps) {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">メッセージ</th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">デプロイ日時</th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">所要時間</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">ビルド時間</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">イメージサイズ</th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">アクション</th>
                 </tr>
               </thead>
@@ -431,9 +510,26 @@ export default function AppDetail({ params }: AppDetailsProps) {
                           ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' 
                           : deploy.status === 'failed'
                           ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                          : deploy.status === 'skipped' || deploy.status === 'cancelled'
+                          ? 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
                           : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'}`}>
-                        {deploy.status === 'success' ? '成功' : deploy.status === 'failed' ? '失敗' : '進行中'}
+                        {deploy.status === 'success' ? '成功' : deploy.status === 'failed' ? '失敗' : deploy.status === 'skipped' ? 'スキップ' : deploy.status === 'cancelled' ? 'キャンセル' : '進行中'}
                       </span>
+                      {deploy.id === app.current_deploy_id && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                          現在
+                        </span>
+                      )}
+                      {deploy.trigger === 'rollback' && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          ロールバック
+                        </span>
+                      )}
+                      {deploy.trigger === 'restart' && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          再起動
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-white">
                       {deploy.commitHash?.substring(0, 7) || '-'}
@@ -456,6 +552,16 @@ export default function AppDetail({ params }: AppDetailsProps) {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                       {deploy.duration || '-'}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {deploy.build_duration_ms !== null && deploy.build_duration_ms !== undefined
+                        ? `${(deploy.build_duration_ms / 1000).toFixed(1)}秒`
+                        : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {deploy.image_size_bytes !== null && deploy.image_size_bytes !== undefined
+                        ? `${(deploy.image_size_bytes / 1024 / 1024).toFixed(1)} MB`
+                        : '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <Link 
                         href={`/dashboard/apps/${app.id}/deploys/${deploy.id}`}
@@ -463,6 +569,94 @@ export default function AppDetail({ params }: AppDetailsProps) {
                       >
                         詳細
                       </Link>
+                      {canRollbackTo(deploy) && (
+                        <button
+                          onClick={() => handleRollback(deploy)}
+                          disabled={actionLoading}
+                          className="ml-4 inline-flex items-center text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white disabled:opacity-50"
+                          title="このデプロイにロールバック"
+                        >
+                          <FaUndo className="mr-1 h-3 w-3" />
+                          ロールバック
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* レプリカ */}
+      <div className="card mb-8">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">レプリカ</h2>
+          <div className="mt-2 md:mt-0 flex items-center gap-2">
+            <label htmlFor="replicas" className="text-sm text-gray-500 dark:text-gray-400">レプリカ数</label>
+            <input
+              id="replicas"
+              type="number"
+              min={1}
+              value={replicaCount}
+              onChange={(e) => setReplicaCount(Math.max(1, parseInt(e.target.value) || 1))}
+              className="input w-20"
+              disabled={scaling}
+            />
+            <button
+              className="btn-secondary"
+              onClick={handleScale}
+              disabled={scaling || actionLoading || replicaCount === (app.replicas || 1)}
+            >
+              {scaling ? '変更中...' : '変更'}
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          実行中のアプリは再デプロイせずに現在のイメージでコンテナを増減します。停止中のアプリは次回のデプロイで反映されます。
+        </p>
+        {replicaStates.length === 0 ? (
+          <div className="text-center p-4">
+            <p className="text-gray-500 dark:text-gray-400">起動しているコンテナがありません。</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">#</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">コンテナ</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">状態</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">起動日時</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">再起動回数</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {replicaStates.map((replica) => (
+                  <tr key={replica.container_id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {replica.index}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-white">
+                      {replica.name || replica.container_id.substring(0, 12)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        replica.running
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : replica.state === 'missing'
+                          ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                          : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                      }`}>
+                        {replica.state === 'missing' ? 'コンテナなし' : replica.state}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {replica.running && replica.started_at ? new Date(replica.started_at).toLocaleString() : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {replica.restart_count ?? '-'}
                     </td>
                   </tr>
                 ))}
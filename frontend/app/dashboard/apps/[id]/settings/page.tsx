@@ -1,10 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { FiSave, FiGlobe, FiCode, FiGithub, FiTrash } from 'react-icons/fi';
-import { appsApi, environmentApi } from '../../../../../lib/api';
-import { App, EnvVar } from '../../../../../types';
+import { appsApi, environmentApi, githubApi } from '../../../../../lib/api';
+import { App, EnvVar, EnvVarScope, WebhookSettings, WebhookDelivery, WebhookPingResult, Plan, ResourceLimits, BuildMethod } from '../../../../../types';
 import Link from 'next/link';
 
 interface AppSettingsProps {
@@ -13,6 +13,13 @@ interface AppSettingsProps {
   };
 }
 
+// 環境変数のスコープの表示名
+const ENV_VAR_SCOPE_LABELS: Record<EnvVarScope, string> = {
+  both: 'ビルド時と実行時',
+  build: 'ビルド時のみ',
+  runtime: '実行時のみ',
+};
+
 export default function AppSettings({ params }: AppSettingsProps) {
   const router = useRouter();
   const [app, setApp] = useState<App | null>(null);
@@ -23,13 +30,132 @@ export default function AppSettings({ params }: AppSettingsProps) {
   const [name, setName] = useState('');
   const [repository, setRepository] = useState('');
   const [branch, setBranch] = useState('');
-  const [buildMethod, setBuildMethod] = useState<'auto' | 'dockerfile' | 'nextjs'>('auto');
+  const [buildMethod, setBuildMethod] = useState<BuildMethod>('auto');
+  const [nodeVersion, setNodeVersion] = useState('');
+  const [nodeVersions, setNodeVersions] = useState<number[]>([]);
+  const [rootDirectory, setRootDirectory] = useState('');
+  const [dockerfilePath, setDockerfilePath] = useState('');
+  const [buildContext, setBuildContext] = useState('');
   const [autoDeploy, setAutoDeploy] = useState(false);
   const [customDomain, setCustomDomain] = useState('');
   const [saving, setSaving] = useState(false);
   const [envVars, setEnvVars] = useState<EnvVar[]>([]);
   const [newEnvKey, setNewEnvKey] = useState('');
   const [newEnvValue, setNewEnvValue] = useState('');
+  const [newEnvScope, setNewEnvScope] = useState<EnvVarScope>('both');
+  const [newEnvSecret, setNewEnvSecret] = useState(false);
+  // 実行時の環境変数の変更をビルドせずにコンテナの再起動で反映する
+  const [restartOnEnvChange, setRestartOnEnvChange] = useState(true);
+  // 表示したシークレットの値（環境変数のIDごと）
+  const [revealedValues, setRevealedValues] = useState<Record<string, string>>({});
+  const [envNotice, setEnvNotice] = useState<string | null>(null);
+  const [webhook, setWebhook] = useState<WebhookSettings | null>(null);
+  const [showWebhookSecret, setShowWebhookSecret] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [pinging, setPinging] = useState(false);
+  const [pingResult, setPingResult] = useState<WebhookPingResult | null>(null);
+  const [pingError, setPingError] = useState<string | null>(null);
+  const [deployKeyLoading, setDeployKeyLoading] = useState(false);
+  const [clearingCache, setClearingCache] = useState(false);
+  // ヘルスチェック設定（空欄は既定値）
+  const [healthCheckPath, setHealthCheckPath] = useState('');
+  const [healthCheckStatus, setHealthCheckStatus] = useState('');
+  const [healthCheckTimeout, setHealthCheckTimeout] = useState('');
+  const [healthCheckRetries, setHealthCheckRetries] = useState('');
+  const [healthCheckStartPeriod, setHealthCheckStartPeriod] = useState('');
+  // リソース制限（空欄は既定値）
+  const [memoryLimit, setMemoryLimit] = useState('');
+  const [cpuLimit, setCpuLimit] = useState('');
+  const [pidsLimit, setPidsLimit] = useState('');
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [resources, setResources] = useState<ResourceLimits | null>(null);
+
+  // Webhook設定を取得
+  const fetchWebhook = useCallback(async () => {
+    try {
+      const data = await githubApi.getWebhookSettings(params.id);
+      setWebhook(data);
+    } catch (err) {
+      console.error('Webhook設定の取得に失敗しました:', err);
+    }
+  }, [params.id]);
+
+  // Webhook配信ログを取得
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const data = await githubApi.getWebhookDeliveries(params.id);
+      setDeliveries(data);
+    } catch (err) {
+      console.error('Webhook配信ログの取得に失敗しました:', err);
+    }
+  }, [params.id]);
+
+  // GitHubからpingを送信して到達できるか確認
+  const pingWebhook = async () => {
+    try {
+      setPinging(true);
+      setPingError(null);
+      const result = await githubApi.pingWebhook(params.id);
+      setPingResult(result);
+      fetchDeliveries();
+    } catch (err: any) {
+      setPingResult(null);
+      setPingError(err.response?.data?.message || 'pingの送信に失敗しました');
+    } finally {
+      setPinging(false);
+    }
+  };
+
+  // デプロイキーを作成（既存のキーは置き換え）
+  const createDeployKey = async () => {
+    if (!app) return;
+    if (app.deploy_key_id && !confirm('現在のデプロイキーを削除して新しいキーを作成しますか？')) return;
+
+    try {
+      setDeployKeyLoading(true);
+      const result = await appsApi.createDeployKey(app.id);
+      setApp(result.app);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'デプロイキーの作成に失敗しました');
+    } finally {
+      setDeployKeyLoading(false);
+    }
+  };
+
+  // デプロイキーを削除
+  const deleteDeployKey = async () => {
+    if (!app || !confirm('デプロイキーを削除しますか？以降はGitHubアカウントのトークンでクローンします。')) return;
+
+    try {
+      setDeployKeyLoading(true);
+      const result = await appsApi.deleteDeployKey(app.id);
+      setApp(result.app);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'デプロイキーの削除に失敗しました');
+    } finally {
+      setDeployKeyLoading(false);
+    }
+  };
+
+  // ビルドキャッシュを削除
+  const clearBuildCache = async () => {
+    if (!app || !confirm('ビルドキャッシュを削除しますか？次回のデプロイは依存関係のインストールからやり直すため時間がかかります。')) return;
+
+    try {
+      setClearingCache(true);
+      const result = await appsApi.clearBuildCache(app.id);
+      setApp(result.app);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'ビルドキャッシュの削除に失敗しました');
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhook();
+    fetchDeliveries();
+  }, [fetchWebhook, fetchDeliveries]);
 
   useEffect(() => {
     const fetchApp = async () => {
@@ -43,8 +169,23 @@ export default function AppSettings({ params }: AppSettingsProps) {
         setRepository(appData.app.repository);
         setBranch(appData.app.branch);
         setBuildMethod(appData.app.buildMethod);
+        setNodeVersion(appData.app.node_version || '');
+        setNodeVersions(appData.nodeVersions || []);
+        setRootDirectory(appData.app.root_directory || '');
+        setDockerfilePath(appData.app.dockerfile_path || '');
+        setBuildContext(appData.app.build_context || '');
         setAutoDeploy(appData.app.autoDeploy);
         setCustomDomain(appData.app.customDomain || '');
+        setHealthCheckPath(appData.app.health_check_path || '');
+        setHealthCheckStatus(appData.app.health_check_expected_status?.toString() || '');
+        setHealthCheckTimeout(appData.app.health_check_timeout_ms?.toString() || '');
+        setHealthCheckRetries(appData.app.health_check_retries?.toString() || '');
+        setHealthCheckStartPeriod(appData.app.health_check_start_period_ms?.toString() || '');
+        setMemoryLimit(appData.app.memory_limit_mb?.toString() || '');
+        setCpuLimit(appData.app.cpu_limit?.toString() || '');
+        setPidsLimit(appData.app.pids_limit?.toString() || '');
+        setPlan(appData.plan || null);
+        setResources(appData.resources || null);
         
         // 環境変数を取得
         setEnvVars(appData.environment);
@@ -67,23 +208,43 @@ export default function AppSettings({ params }: AppSettingsProps) {
     try {
       setSaving(true);
       
-      await appsApi.updateApp(app.id, {
+      const result = await appsApi.updateApp(app.id, {
         name,
         branch,
         buildMethod: buildMethod,
+        nodeVersion: nodeVersion || null,
+        rootDirectory: rootDirectory || null,
+        dockerfilePath: dockerfilePath || null,
+        buildContext: buildContext || null,
         autoDeploy,
-        customDomain: customDomain || undefined
+        customDomain: customDomain || undefined,
+        healthCheck: {
+          path: healthCheckPath || null,
+          expectedStatus: healthCheckStatus ? Number(healthCheckStatus) : null,
+          timeoutMs: healthCheckTimeout ? Number(healthCheckTimeout) : null,
+          retries: healthCheckRetries ? Number(healthCheckRetries) : null,
+          startPeriodMs: healthCheckStartPeriod ? Number(healthCheckStartPeriod) : null,
+        },
+        resources: {
+          memoryMb: memoryLimit ? Number(memoryLimit) : null,
+          cpus: cpuLimit ? Number(cpuLimit) : null,
+          pidsLimit: pidsLimit ? Number(pidsLimit) : null,
+        },
       });
       
       // 変更を反映
       const updatedAppData = await appsApi.getApp(app.id);
       setApp(updatedAppData.app);
+      setResources(updatedAppData.resources || null);
+      
+      // 自動デプロイの切り替えでWebhookの登録状態が変わるため再取得
+      fetchWebhook();
       
       setSaving(false);
       // 成功メッセージを表示
-      alert('アプリ設定を保存しました');
+      alert(result.warning ? `アプリ設定を保存しました（${result.warning}）` : 'アプリ設定を保存しました');
     } catch (err: any) {
-      setError(err.message || '設定の保存に失敗しました');
+      setError(err.response?.data?.message || err.message || '設定の保存に失敗しました');
       setSaving(false);
     }
   };
@@ -92,10 +253,13 @@ export default function AppSettings({ params }: AppSettingsProps) {
     if (!newEnvKey || !newEnvValue || !app) return;
     
     try {
-      await environmentApi.addEnvironmentVariable(app.id, {
+      const result = await environmentApi.addEnvironmentVariable(app.id, {
         key: newEnvKey,
-        value: newEnvValue
-      });
+        value: newEnvValue,
+        scope: newEnvScope,
+        isSecret: newEnvSecret,
+      }, restartOnEnvChange);
+      setEnvNotice(result.message);
       
       // 更新された環境変数リストを取得
       const vars = await environmentApi.getEnvironmentVariables(app.id);
@@ -104,6 +268,8 @@ export default function AppSettings({ params }: AppSettingsProps) {
       // フォームをクリア
       setNewEnvKey('');
       setNewEnvValue('');
+      setNewEnvScope('both');
+      setNewEnvSecret(false);
     } catch (err: any) {
       setError(err.message || '環境変数の追加に失敗しました');
     }
@@ -113,7 +279,8 @@ export default function AppSettings({ params }: AppSettingsProps) {
     if (!app) return;
     
     try {
-      await environmentApi.deleteEnvironmentVariable(app.id, id);
+      const result = await environmentApi.deleteEnvironmentVariable(app.id, id, restartOnEnvChange);
+      setEnvNotice(result.message);
       
       // 更新された環境変数リストを取得
       const vars = await environmentApi.getEnvironmentVariables(app.id);
@@ -123,6 +290,26 @@ export default function AppSettings({ params }: AppSettingsProps) {
     }
   };
 
+  // シークレットの値の表示を切り替える（表示するときだけ値を取得する）
+  const toggleSecretValue = async (id: string) => {
+    if (!app) return;
+    
+    if (revealedValues[id] !== undefined) {
+      setRevealedValues(prev => {
+        const { [id]: _, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+    
+    try {
+      const envVar = await environmentApi.getEnvironmentVariable(app.id, id, true);
+      setRevealedValues(prev => ({ ...prev, [id]: envVar.value }));
+    } catch (err: any) {
+      setError(err.message || '環境変数の取得に失敗しました');
+    }
+  };
+
   const handleDelete = async () => {
     if (!app) return;
     
@@ -243,16 +430,93 @@ export default function AppSettings({ params }: AppSettingsProps) {
                     <select
                       id="buildMethod"
                       value={buildMethod}
-                      onChange={(e) => setBuildMethod(e.target.value as any)}
+                      onChange={(e) => setBuildMethod(e.target.value as BuildMethod)}
                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
                       required
                     >
                       <option value="auto">自動検出</option>
                       <option value="dockerfile">Dockerfile</option>
                       <option value="nextjs">Next.js</option>
+                      <option value="remix">Remix</option>
+                      <option value="astro">Astro</option>
+                      <option value="nestjs">NestJS</option>
+                      <option value="static">静的サイト（Vite、Create React Appなど）</option>
+                      <option value="node">Node.jsサーバー</option>
+                      <option value="buildpack">Buildpack（Python、Go、Rubyなど）</option>
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      自動検出: リポジトリ内のDockerfileを使用するか、プロジェクトの種類を判定して自動的にDockerfileを生成します
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="nodeVersion" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Node.jsバージョン
+                    </label>
+                    <select
+                      id="nodeVersion"
+                      value={nodeVersion}
+                      onChange={(e) => setNodeVersion(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    >
+                      <option value="">プロジェクトの指定に従う</option>
+                      {nodeVersions.map((version) => (
+                        <option key={version} value={String(version)}>Node.js {version}</option>
+                      ))}
+                      {nodeVersion && !nodeVersions.map(String).includes(nodeVersion) && (
+                        <option value={nodeVersion}>Node.js {nodeVersion}</option>
+                      )}
                     </select>
                     <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                      自動検出: リポジトリ内のDockerfileを使用するか、Next.jsプロジェクトの場合は自動的にDockerfileを生成します
+                      Dockerfileを生成する場合のベースイメージです。package.jsonのengines.node、.nvmrc、.node-versionの順に確認して選びます
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="rootDirectory" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      ルートディレクトリ
+                    </label>
+                    <input
+                      type="text"
+                      id="rootDirectory"
+                      value={rootDirectory}
+                      onChange={(e) => setRootDirectory(e.target.value)}
+                      placeholder="例: apps/web"
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      モノレポの場合のアプリのディレクトリです。空欄の場合はリポジトリのルートを使用します
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="dockerfilePath" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Dockerfileのパス
+                    </label>
+                    <input
+                      type="text"
+                      id="dockerfilePath"
+                      value={dockerfilePath}
+                      onChange={(e) => setDockerfilePath(e.target.value)}
+                      placeholder={rootDirectory ? `${rootDirectory}/Dockerfile` : 'Dockerfile'}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="buildContext" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      ビルドコンテキスト
+                    </label>
+                    <input
+                      type="text"
+                      id="buildContext"
+                      value={buildContext}
+                      onChange={(e) => setBuildContext(e.target.value)}
+                      placeholder={rootDirectory || '/'}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      いずれもリポジトリのルートからの相対パスです。空欄の場合、Dockerfileを使うビルドはルートディレクトリ、Dockerfileを生成するビルドはワークスペース全体を含めるためリポジトリのルートをコンテキストにします
                     </p>
                   </div>
 
@@ -271,6 +535,342 @@ export default function AppSettings({ params }: AppSettingsProps) {
                 </div>
               </div>
 
+              {/* ヘルスチェック */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-5">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">ヘルスチェック</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  デプロイ時に新しいコンテナへリクエストを送り、応答を確認してからトラフィックを切り替えます。空欄の項目は既定値を使用します。
+                </p>
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="healthCheckPath" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      パス
+                    </label>
+                    <input
+                      type="text"
+                      id="healthCheckPath"
+                      value={healthCheckPath}
+                      onChange={(e) => setHealthCheckPath(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder="/"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="healthCheckStatus" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      期待するステータスコード
+                    </label>
+                    <input
+                      type="number"
+                      id="healthCheckStatus"
+                      value={healthCheckStatus}
+                      onChange={(e) => setHealthCheckStatus(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder="500未満"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="healthCheckTimeout" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      タイムアウト（ミリ秒）
+                    </label>
+                    <input
+                      type="number"
+                      id="healthCheckTimeout"
+                      value={healthCheckTimeout}
+                      onChange={(e) => setHealthCheckTimeout(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder="5000"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="healthCheckRetries" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      リトライ回数
+                    </label>
+                    <input
+                      type="number"
+                      id="healthCheckRetries"
+                      value={healthCheckRetries}
+                      onChange={(e) => setHealthCheckRetries(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder="5"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="healthCheckStartPeriod" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      起動猶予時間（ミリ秒）
+                    </label>
+                    <input
+                      type="number"
+                      id="healthCheckStartPeriod"
+                      value={healthCheckStartPeriod}
+                      onChange={(e) => setHealthCheckStartPeriod(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder="10000"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* リソース制限 */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-5">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">リソース制限</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  実行中のコンテナには再ビルドせずに反映されます。空欄の項目は既定値を使用します。
+                  {plan && ` プラン「${plan.name}」の上限: メモリ ${plan.max_memory_mb ?? '無制限'}MB / CPU ${plan.max_cpus ?? '無制限'} / プロセス数 ${plan.max_pids ?? '無制限'}`}
+                </p>
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="memoryLimit" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      メモリ（MB）
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      id="memoryLimit"
+                      value={memoryLimit}
+                      onChange={(e) => setMemoryLimit(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder={resources ? String(resources.memory_mb) : '512'}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="cpuLimit" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      CPU
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      id="cpuLimit"
+                      value={cpuLimit}
+                      onChange={(e) => setCpuLimit(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder={resources ? String(resources.cpus) : '1'}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="pidsLimit" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      プロセス数
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      id="pidsLimit"
+                      value={pidsLimit}
+                      onChange={(e) => setPidsLimit(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      placeholder={resources?.pids_limit ? String(resources.pids_limit) : '無制限'}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Webhook */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-5">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">Webhook</h3>
+                  <button
+                    type="button"
+                    onClick={fetchDeliveries}
+                    className="text-sm font-medium text-primary-600 hover:text-primary-500"
+                  >
+                    配信ログを更新
+                  </button>
+                </div>
+                <div className="mt-4 space-y-4">
+                  {webhook && (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                          {webhook.registered
+                            ? `GitHubに登録済み（ID: ${webhook.hook_id}）`
+                            : '未登録（自動デプロイを有効にすると自動的に登録されます）'}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={pingWebhook}
+                          disabled={!webhook.registered || pinging}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {pinging ? '送信中...' : 'テスト送信'}
+                        </button>
+                      </div>
+                      {pingError && (
+                        <p className="text-sm text-red-600">{pingError}</p>
+                      )}
+                      {pingResult && (
+                        <div className="text-sm text-gray-700 dark:text-gray-300">
+                          <p>
+                            GitHubからの応答:{' '}
+                            <span className={pingResult.hook.last_response.code && pingResult.hook.last_response.code < 300 ? 'text-green-600' : 'text-red-600'}>
+                              {pingResult.hook.last_response.code ?? '-'} {pingResult.hook.last_response.message || pingResult.hook.last_response.status || ''}
+                            </span>
+                          </p>
+                          <p>
+                            NextDockでの受信:{' '}
+                            {pingResult.delivery
+                              ? `${new Date(pingResult.delivery.created_at).toLocaleString()}（${pingResult.delivery.result}）`
+                              : '未受信'}
+                          </p>
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Payload URL
+                        </label>
+                        <input
+                          type="text"
+                          readOnly
+                          value={webhook.url}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 bg-gray-50 sm:text-sm font-mono"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Secret
+                        </label>
+                        <div className="mt-1 flex">
+                          <input
+                            type={showWebhookSecret ? 'text' : 'password'}
+                            readOnly
+                            value={webhook.secret}
+                            className="block w-full border border-gray-300 rounded-l-md shadow-sm py-2 px-3 bg-gray-50 sm:text-sm font-mono"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setShowWebhookSecret(!showWebhookSecret)}
+                            className="px-3 border border-l-0 border-gray-300 rounded-r-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                          >
+                            {showWebhookSecret ? '隠す' : '表示'}
+                          </button>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          自動デプロイを使わずに手動で登録する場合は、GitHubのWebhook設定でContent typeに application/json を選択し、このシークレットを設定してください
+                        </p>
+                      </div>
+                    </>
+                  )}
+
+                  {/* 配信ログ */}
+                  <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+                      <thead className="bg-gray-50 dark:bg-gray-700">
+                        <tr>
+                          <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">
+                            日時
+                          </th>
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                            イベント
+                          </th>
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                            結果
+                          </th>
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                            詳細
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                        {deliveries.length === 0 ? (
+                          <tr>
+                            <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                              配信ログがありません
+                            </td>
+                          </tr>
+                        ) : (
+                          deliveries.map((delivery) => (
+                            <tr key={delivery.id} title={delivery.delivery_id}>
+                              <td className="py-4 pl-4 pr-3 text-sm text-gray-500 dark:text-gray-400 sm:pl-6">
+                                {new Date(delivery.created_at).toLocaleString()}
+                              </td>
+                              <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                                {delivery.event}
+                              </td>
+                              <td className={`px-3 py-4 text-sm font-medium ${
+                                delivery.result === 'processed' ? 'text-green-600' :
+                                delivery.result === 'rejected' || delivery.result === 'error' ? 'text-red-600' :
+                                'text-gray-500'
+                              }`}>
+                                {delivery.result}
+                              </td>
+                              <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                                {delivery.message || '-'}
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+
+              {/* デプロイキー */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-5">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">デプロイキー（SSH）</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  デプロイキーを作成すると、GitHubアカウントのトークンの代わりにこのアプリ専用の読み取り専用キーでリポジトリをクローンします。
+                </p>
+                <div className="mt-4 space-y-4">
+                  {app.deploy_key_public ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        公開鍵（GitHubに登録済み）
+                      </label>
+                      <textarea
+                        readOnly
+                        rows={3}
+                        value={app.deploy_key_public}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 bg-gray-50 sm:text-sm font-mono"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      未設定（GitHubアカウントのトークンでクローンします）
+                    </p>
+                  )}
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={createDeployKey}
+                      disabled={deployKeyLoading}
+                      className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {app.deploy_key_public ? 'キーを再作成' : 'デプロイキーを作成'}
+                    </button>
+                    {app.deploy_key_public && (
+                      <button
+                        type="button"
+                        onClick={deleteDeployKey}
+                        disabled={deployKeyLoading}
+                        className="inline-flex items-center px-3 py-1.5 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                      >
+                        キーを削除
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* ビルドキャッシュ */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-5">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">ビルドキャッシュ</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  前回のデプロイのイメージと依存関係・Next.jsのビルドキャッシュを再利用してビルドを高速化しています。ビルドが古いキャッシュの影響を受けている場合は削除してください。
+                </p>
+                <div className="mt-4 flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={clearBuildCache}
+                    disabled={clearingCache || !!app.build_no_cache}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {clearingCache ? '削除中...' : 'ビルドキャッシュを削除'}
+                  </button>
+                  {app.build_no_cache && (
+                    <span className="text-sm text-gray-500 dark:text-gray-400">次回のデプロイはキャッシュなしでビルドされます</span>
+                  )}
+                </div>
+              </div>
+
               {/* ドメイン設定 */}
               <div className="border-t border-gray-200 dark:border-gray-700 pt-5">
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white">ドメイン設定</h3>
@@ -308,7 +908,10 @@ export default function AppSettings({ params }: AppSettingsProps) {
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white">環境変数</h3>
                 <div className="mt-4">
                   <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                    アプリケーションで使用する環境変数を設定します。変更後は再デプロイが必要です。
+                    アプリケーションで使用する環境変数を設定します。ビルド時の環境変数の変更は次回のデプロイで反映されます。
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    ビルド時の環境変数はBuildKitのシークレットとしてビルドに渡され、イメージには残りません。実行時の環境変数はコンテナに渡されます。
                   </p>
 
                   {/* 環境変数リスト */}
@@ -322,6 +925,9 @@ export default function AppSettings({ params }: AppSettingsProps) {
                           <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
                             値
                           </th>
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                            スコープ
+                          </th>
                           <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
                             <span className="sr-only">削除</span>
                           </th>
@@ -330,7 +936,7 @@ export default function AppSettings({ params }: AppSettingsProps) {
                       <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                         {envVars.length === 0 ? (
                           <tr>
-                            <td colSpan={3} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                            <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
                               環境変数がありません
                             </td>
                           </tr>
@@ -341,7 +947,21 @@ export default function AppSettings({ params }: AppSettingsProps) {
                                 {env.key}
                               </td>
                               <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
-                                {env.value}
+                                <span className="font-mono break-all">
+                                  {env.id && revealedValues[env.id] !== undefined ? revealedValues[env.id] : env.value}
+                                </span>
+                                {env.is_secret && env.id && (
+                                  <button
+                                    type="button"
+                                    onClick={() => toggleSecretValue(env.id!)}
+                                    className="ml-2 text-primary-600 hover:text-primary-900"
+                                  >
+                                    {revealedValues[env.id] !== undefined ? '隠す' : '表示'}
+                                  </button>
+                                )}
+                              </td>
+                              <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                                {ENV_VAR_SCOPE_LABELS[env.scope || 'both']}
                               </td>
                               <td className="py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                                 <button
@@ -360,7 +980,7 @@ export default function AppSettings({ params }: AppSettingsProps) {
                   </div>
 
                   {/* 新しい環境変数を追加 */}
-                  <div className="grid grid-cols-1 md:grid-cols-7 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-9 gap-4">
                     <div className="md:col-span-3">
                       <label htmlFor="newEnvKey" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                         キー
@@ -386,6 +1006,33 @@ export default function AppSettings({ params }: AppSettingsProps) {
                         className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
                         placeholder="value"
                       />
+                      <div className="mt-2 flex items-center">
+                        <input
+                          type="checkbox"
+                          id="newEnvSecret"
+                          checked={newEnvSecret}
+                          onChange={(e) => setNewEnvSecret(e.target.checked)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor="newEnvSecret" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                          シークレット（値を表示するときだけ取得する）
+                        </label>
+                      </div>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label htmlFor="newEnvScope" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        スコープ
+                      </label>
+                      <select
+                        id="newEnvScope"
+                        value={newEnvScope}
+                        onChange={(e) => setNewEnvScope(e.target.value as EnvVarScope)}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      >
+                        {(Object.keys(ENV_VAR_SCOPE_LABELS) as EnvVarScope[]).map(scope => (
+                          <option key={scope} value={scope}>{ENV_VAR_SCOPE_LABELS[scope]}</option>
+                        ))}
+                      </select>
                     </div>
                     <div className="md:col-span-1 flex items-end">
                       <button
@@ -398,6 +1045,22 @@ export default function AppSettings({ params }: AppSettingsProps) {
                       </button>
                     </div>
                   </div>
+
+                  <div className="mt-4 flex items-center">
+                    <input
+                      type="checkbox"
+                      id="restartOnEnvChange"
+                      checked={restartOnEnvChange}
+                      onChange={(e) => setRestartOnEnvChange(e.target.checked)}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="restartOnEnvChange" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                      実行時の環境変数を変更したら、再ビルドせずにコンテナを再起動して反映する
+                    </label>
+                  </div>
+                  {envNotice && (
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{envNotice}</p>
+                  )}
                 </div>
               </div>
 
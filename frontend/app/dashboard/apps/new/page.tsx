@@ -3,11 +3,34 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FaGithub, FaDocker, FaRocket } from 'react-icons/fa';
+import { FaGithub, FaDocker, FaRocket, FaLayerGroup } from 'react-icons/fa';
 import { githubApi, appsApi } from '../../../../lib/api';
-import { GithubRepository, GithubBranch, EnvVar } from '../../../../types';
+import { GithubRepository, GithubBranch, EnvVar, EnvVarScope, RepositoryProject, BuildMethod, BuildStrategyName, BuildPlan } from '../../../../types';
 import GitHubConnect from '../../../../components/GitHubConnect';
 
+// ビルド方法の表示名
+const BUILD_METHOD_LABELS: Record<BuildMethod, string> = {
+  auto: '自動検出',
+  dockerfile: 'Dockerfileを使用',
+  nextjs: 'Next.js',
+  remix: 'Remix',
+  astro: 'Astro',
+  nestjs: 'NestJS',
+  static: '静的サイト（Vite、Create React Appなど）',
+  node: 'Node.jsサーバー',
+  buildpack: 'Buildpack（Python、Go、Rubyなど）',
+};
+
+// フレームワークを指定する場合に選べるビルド戦略
+const BUILD_STRATEGIES: BuildStrategyName[] = ['nextjs', 'remix', 'astro', 'nestjs', 'static', 'node', 'buildpack'];
+
+// 環境変数のスコープの表示名
+const ENV_VAR_SCOPE_LABELS: Record<EnvVarScope, string> = {
+  both: 'ビルド時と実行時',
+  build: 'ビルド時のみ',
+  runtime: '実行時のみ',
+};
+
 export default function NewApp() {
   const router = useRouter();
   const [step, setStep] = useState<number>(1);
@@ -18,13 +41,18 @@ export default function NewApp() {
   const [branches, setBranches] = useState<GithubBranch[]>([]);
   const [githubConnected, setGithubConnected] = useState<boolean>(false);
   const [loadingRepos, setLoadingRepos] = useState<boolean>(false);
+  const [projects, setProjects] = useState<RepositoryProject[]>([]);
+  const [buildPlan, setBuildPlan] = useState<BuildPlan | null>(null);
+  const [buildPlanError, setBuildPlanError] = useState<string | null>(null);
+  const [loadingBuildPlan, setLoadingBuildPlan] = useState<boolean>(false);
 
   // フォーム状態
   const [formData, setFormData] = useState({
     name: '',
     repository: '',
     branch: 'main' as string,
-    buildMethod: 'auto' as 'auto' | 'dockerfile' | 'nextjs',
+    buildMethod: 'auto' as BuildMethod,
+    rootDirectory: '',
     domainType: 'auto' as 'auto' | 'custom',
     customDomain: '',
     autoDeploy: true,
@@ -34,6 +62,7 @@ export default function NewApp() {
   // 環境変数用の一時状態
   const [newEnvKey, setNewEnvKey] = useState<string>('');
   const [newEnvValue, setNewEnvValue] = useState<string>('');
+  const [newEnvScope, setNewEnvScope] = useState<EnvVarScope>('both');
 
   // GitHubリポジトリを取得
   const fetchRepositories = async () => {
@@ -69,6 +98,58 @@ export default function NewApp() {
     }
   };
 
+  // リポジトリとブランチが決まったら、リポジトリ内のアプリ（モノレポのディレクトリ）の候補を取得
+  useEffect(() => {
+    if (!selectedRepo || !formData.branch) return;
+
+    let cancelled = false;
+    githubApi.getProjects(selectedRepo.full_name, formData.branch)
+      .then(found => {
+        if (cancelled) return;
+        setProjects(found);
+        // ルートにアプリがなく候補が1つだけの場合はそれを選ぶ
+        const root = found.find(project => project.root_directory === '');
+        setFormData(prev => ({
+          ...prev,
+          rootDirectory: !root && found.length === 1 ? found[0].root_directory : '',
+        }));
+      })
+      .catch(err => {
+        console.error('Error detecting projects:', err);
+        if (!cancelled) setProjects([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRepo, formData.branch]);
+
+  // buildpackを選んだら、リポジトリを解析したビルドプランを取得して初回のデプロイの前に確認できるようにする
+  useEffect(() => {
+    if (!selectedRepo || !formData.branch || formData.buildMethod !== 'buildpack') return;
+
+    let cancelled = false;
+    setLoadingBuildPlan(true);
+    setBuildPlanError(null);
+    githubApi.getBuildPlan(selectedRepo.full_name, formData.branch, formData.rootDirectory)
+      .then(plan => {
+        if (!cancelled) setBuildPlan(plan);
+      })
+      .catch(err => {
+        console.error('Error fetching build plan:', err);
+        if (cancelled) return;
+        setBuildPlan(null);
+        setBuildPlanError(err.response?.data?.message || 'ビルドプランの取得に失敗しました。');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingBuildPlan(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRepo, formData.branch, formData.rootDirectory, formData.buildMethod]);
+
   // リポジトリが選択されたときの処理
   const handleSelectRepository = (repo: GithubRepository) => {
     console.log('Selected repository:', repo);
@@ -86,10 +167,11 @@ export default function NewApp() {
     if (newEnvKey.trim() && newEnvValue.trim()) {
       setFormData(prev => ({
         ...prev,
-        envVars: [...prev.envVars, { key: newEnvKey.trim(), value: newEnvValue.trim() }],
+        envVars: [...prev.envVars, { key: newEnvKey.trim(), value: newEnvValue.trim(), scope: newEnvScope }],
       }));
       setNewEnvKey('');
       setNewEnvValue('');
+      setNewEnvScope('both');
     }
   };
 
@@ -118,11 +200,18 @@ export default function NewApp() {
         repository: formData.repository,
         branch: formData.branch,
         buildMethod: formData.buildMethod,
+        rootDirectory: formData.rootDirectory || undefined,
         domainType: formData.domainType,
         customDomain: formData.domainType === 'custom' ? formData.customDomain : undefined,
         envVars: formData.envVars,
+        autoDeploy: formData.autoDeploy,
       });
 
+      // Webhookの登録に失敗した場合はアプリ作成後に通知（自動デプロイは無効のまま）
+      if (response.warning) {
+        alert(`自動デプロイを有効にできませんでした: ${response.warning}`);
+      }
+
       // 成功したらアプリ詳細ページにリダイレクト
       router.push(`/dashboard/apps/${response.app.id}`);
     } catch (err: any) {
@@ -291,7 +380,7 @@ export default function NewApp() {
                     <div className="font-medium">自動検出</div>
                   </div>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    Dockerfileがある場合はそれを使用し、ない場合はNext.js用のDockerfileを自動生成します。ほとんどのプロジェクトに推奨します。
+                    Dockerfileがある場合はそれを使用し、ない場合はプロジェクトの種類（Next.js、Remix、Astro、NestJS、静的サイト、Node.jsサーバー）を判定してDockerfileを自動生成します。ほとんどのプロジェクトに推奨します。
                   </p>
                 </div>
                 
@@ -314,23 +403,42 @@ export default function NewApp() {
                 
                 <div
                   className={`border rounded-lg p-4 cursor-pointer ${
-                    formData.buildMethod === 'nextjs' 
+                    formData.buildMethod !== 'auto' && formData.buildMethod !== 'dockerfile'
                       ? 'border-primary-500 bg-primary-50 dark:bg-gray-700' 
                       : 'border-gray-200 dark:border-gray-700'
                   }`}
-                  onClick={() => setFormData(prev => ({ ...prev, buildMethod: 'nextjs' }))}
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    buildMethod: prev.buildMethod === 'auto' || prev.buildMethod === 'dockerfile' ? 'nextjs' : prev.buildMethod,
+                  }))}
                 >
                   <div className="flex items-center mb-2">
-                    <svg className="mr-2 h-5 w-5 text-primary-500 dark:text-primary-400" viewBox="0 0 24 24" fill="currentColor">
-                      <path d="M11.572 0c-.176 0-.31.001-.358.007a19.76 19.76 0 0 0-.364.033C7.443.346 4.25 2.185 2.228 5.012a11.875 11.875 0 0 0-2.119 5.243c-.096.659-.108.854-.108 1.747s.012 1.089.108 1.748c.652 4.506 3.86 8.292 8.209 9.695.779.25 1.6.422 2.534.525.363.04 1.935.04 2.299 0 1.611-.178 2.977-.577 4.323-1.264.207-.106.247-.134.219-.158-.02-.013-.9-1.193-1.955-2.62l-1.919-2.592-2.404-3.558a338.739 338.739 0 0 0-2.422-3.556c-.009-.002-.018 1.579-.023 3.51-.007 3.38-.01 3.515-.052 3.595a.426.426 0 0 1-.206.214c-.075.037-.14.044-.495.044H7.81l-.108-.068a.438.438 0 0 1-.157-.171l-.05-.106.006-4.703.007-4.705.072-.092a.645.645 0 0 1 .174-.143c.096-.047.134-.051.54-.051.478 0 .558.018.682.154.035.038 1.337 1.999 2.895 4.361a10760.433 10760.433 0 0 0 4.735 7.17l1.9 2.879.096-.063a12.317 12.317 0 0 0 2.466-2.163 11.944 11.944 0 0 0 2.824-6.134c.096-.66.108-.854.108-1.748 0-.893-.012-1.088-.108-1.747-.652-4.506-3.859-8.292-8.208-9.695a12.597 12.597 0 0 0-2.499-.523A33.119 33.119 0 0 0 11.573 0zm4.069 7.217c.347 0 .408.005.486.047a.473.473 0 0 1 .237.277c.018.06.023 1.365.018 4.304l-.006 4.218-.744-1.14-.746-1.14v-3.066c0-1.982.01-3.097.023-3.15a.478.478 0 0 1 .233-.296c.096-.05.13-.054.5-.054z" />
-                    </svg>
-                    <div className="font-medium">Next.js</div>
+                    <FaLayerGroup className="mr-2 text-primary-500 dark:text-primary-400" />
+                    <div className="font-medium">フレームワークを指定</div>
                   </div>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    Next.js用の最適化されたDockerfileを自動生成します。Next.jsプロジェクトで独自のDockerfileがない場合に推奨します。
+                    選択したフレームワーク用のDockerfileを自動生成します。自動検出で別の種類と判定される場合に選択してください。
                   </p>
                 </div>
               </div>
+
+              {formData.buildMethod !== 'auto' && formData.buildMethod !== 'dockerfile' && (
+                <div className="mt-3">
+                  <label htmlFor="buildStrategy" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    フレームワーク
+                  </label>
+                  <select
+                    id="buildStrategy"
+                    className="input"
+                    value={formData.buildMethod}
+                    onChange={(e) => setFormData(prev => ({ ...prev, buildMethod: e.target.value as BuildStrategyName }))}
+                  >
+                    {BUILD_STRATEGIES.map(strategy => (
+                      <option key={strategy} value={strategy}>{BUILD_METHOD_LABELS[strategy]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               
               <div className="mt-3 p-3 bg-yellow-50 text-yellow-700 rounded-md text-sm">
                 <p><strong>ヒント:</strong> 'Dockerfile'オプションを選択した場合は、リポジトリのルートディレクトリにDockerfileが存在する必要があります。存在しない場合はデプロイに失敗します。不明な場合は「自動検出」を選択してください。</p>
@@ -353,6 +461,78 @@ export default function NewApp() {
               </select>
             </div>
 
+            {(projects.length > 1 || (projects.length === 1 && projects[0].root_directory !== '')) && (
+              <div className="mb-4">
+                <label htmlFor="rootDirectory" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  アプリのディレクトリ
+                </label>
+                <select
+                  id="rootDirectory"
+                  className="input"
+                  value={formData.rootDirectory}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rootDirectory: e.target.value }))}
+                >
+                  {!projects.some(project => project.root_directory === '') && (
+                    <option value="">リポジトリのルート</option>
+                  )}
+                  {projects.map(project => (
+                    <option key={project.root_directory} value={project.root_directory}>
+                      {project.root_directory || 'リポジトリのルート'}
+                      {project.name ? ` (${project.name})` : ''}
+                      {project.framework === 'nextjs' ? ' - Next.js' : ''}
+                      {project.dockerfile_path ? ' - Dockerfile' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  モノレポの場合はデプロイするアプリのディレクトリを選択してください。Dockerfileやビルドコンテキストはアプリ設定で変更できます。
+                </p>
+              </div>
+            )}
+
+            {formData.buildMethod === 'buildpack' && (
+              <div className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">ビルドプラン</h3>
+                {loadingBuildPlan ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">リポジトリを解析しています...</p>
+                ) : buildPlanError ? (
+                  <p className="text-sm text-red-600">{buildPlanError}</p>
+                ) : !buildPlan ? (
+                  <p className="text-sm text-yellow-700">
+                    言語を判定できませんでした。アプリのディレクトリに nextdock.json を追加して image と start を指定してください。
+                  </p>
+                ) : (
+                  <>
+                    <dl className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {[
+                        ['言語', `${buildPlan.language}（${buildPlan.reason}）`],
+                        ['ベースイメージ', buildPlan.image],
+                        ['インストール', buildPlan.install || 'なし'],
+                        ['ビルド', buildPlan.build || 'なし'],
+                        ['起動', buildPlan.start || '判定できませんでした'],
+                        ['ポート', String(buildPlan.port)],
+                      ].map(([label, value]) => (
+                        <div key={label} className="py-1 grid grid-cols-3">
+                          <dt className="text-sm text-gray-500 dark:text-gray-400">{label}</dt>
+                          <dd className="text-sm font-mono text-gray-900 dark:text-white col-span-2 break-all">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                    {!buildPlan.start && (
+                      <p className="mt-2 text-sm text-red-600">
+                        起動コマンドがないとデプロイできません。Procfileを追加するか、nextdock.json で start を指定してください。
+                      </p>
+                    )}
+                  </>
+                )}
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {buildPlan && buildPlan.config_file
+                    ? `${buildPlan.config_file} で指定された項目: ${buildPlan.overrides.join(', ') || 'なし'}`
+                    : 'アプリのディレクトリに nextdock.json（language、image、install、build、start、port）をコミットするとプランを変更できます。'}
+                </p>
+              </div>
+            )}
+
             <div className="flex justify-between">
               <button 
                 className="btn-secondary"
@@ -453,6 +633,7 @@ export default function NewApp() {
                         <tr>
                           <th className="text-left pb-2">キー</th>
                           <th className="text-left pb-2">値</th>
+                          <th className="text-left pb-2">スコープ</th>
                           <th className="pb-2"></th>
                         </tr>
                       </thead>
@@ -461,6 +642,7 @@ export default function NewApp() {
                           <tr key={index}>
                             <td className="py-1 pr-2">{env.key}</td>
                             <td className="py-1 pr-2">********</td>
+                            <td className="py-1 pr-2">{ENV_VAR_SCOPE_LABELS[env.scope || 'both']}</td>
                             <td className="py-1">
                               <button
                                 type="button"
@@ -477,7 +659,7 @@ export default function NewApp() {
                   </div>
                 )}
                 
-                <div className="grid grid-cols-2 gap-4 mb-4">
+                <div className="grid grid-cols-3 gap-4 mb-4">
                   <input
                     type="text"
                     className="input"
@@ -492,6 +674,15 @@ export default function NewApp() {
                     value={newEnvValue}
                     onChange={(e) => setNewEnvValue(e.target.value)}
                   />
+                  <select
+                    className="input"
+                    value={newEnvScope}
+                    onChange={(e) => setNewEnvScope(e.target.value as EnvVarScope)}
+                  >
+                    {(Object.keys(ENV_VAR_SCOPE_LABELS) as EnvVarScope[]).map(scope => (
+                      <option key={scope} value={scope}>{ENV_VAR_SCOPE_LABELS[scope]}</option>
+                    ))}
+                  </select>
                 </div>
                 <button 
                   className="btn-secondary text-sm"
@@ -501,7 +692,7 @@ export default function NewApp() {
                   + 環境変数を追加
                 </button>
                 <p className="mt-2 text-sm text-gray-500">
-                  機密情報は暗号化して保存されます。
+                  機密情報は暗号化して保存されます。ビルド時の環境変数はBuildKitのシークレットとして渡され、イメージには残りません。
                 </p>
               </div>
             </div>
@@ -576,12 +767,16 @@ export default function NewApp() {
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">ブランチ</dt>
                     <dd className="text-sm text-gray-900 dark:text-white col-span-2">{formData.branch}</dd>
                   </div>
+                  {formData.rootDirectory && (
+                    <div className="py-2 grid grid-cols-3">
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">アプリのディレクトリ</dt>
+                      <dd className="text-sm text-gray-900 dark:text-white col-span-2">{formData.rootDirectory}</dd>
+                    </div>
+                  )}
                   <div className="py-2 grid grid-cols-3">
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">ビルド方法</dt>
                     <dd className="text-sm text-gray-900 dark:text-white col-span-2">
-                      {formData.buildMethod === 'auto' && '自動検出'}
-                      {formData.buildMethod === 'dockerfile' && 'Dockerfileを使用'}
-                      {formData.buildMethod === 'nextjs' && 'Next.js専用ビルド'}
+                      {BUILD_METHOD_LABELS[formData.buildMethod]}
                     </dd>
                   </div>
                   <div className="py-2 grid grid-cols-3">
@@ -41,7 +41,10 @@ export default function AppsPage() {
       case 'stopped':
         return 'bg-gray-100 text-gray-800';
       case 'failed':
+      case 'crashed':
         return 'bg-red-100 text-red-800';
+      case 'restarting':
+        return 'bg-yellow-100 text-yellow-800';
       case 'building':
       case 'deploying':
         return 'bg-blue-100 text-blue-800';
@@ -126,6 +129,8 @@ export default function AppsPage() {
                     {app.status === 'running' && '稼働中'}
                     {app.status === 'stopped' && '停止中'}
                     {app.status === 'failed' && '失敗'}
+                    {app.status === 'crashed' && 'クラッシュ'}
+                    {app.status === 'restarting' && '再起動中'}
                     {app.status === 'building' && 'ビルド中'}
                     {app.status === 'created' && '作成済み'}
                   </span>
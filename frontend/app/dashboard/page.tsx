@@ -158,6 +158,10 @@ export default function Dashboard() {
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           app.status === 'running' 
                             ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' 
+                            : app.status === 'crashed'
+                            ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                            : app.status === 'restarting'
+                            ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
                             : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
                         }`}>
                           {app.status}
@@ -7,7 +7,21 @@ import {
   AuthResponse, 
   GithubRepository, 
   GithubBranch,
-  EnvVar
+  RepositoryProject,
+  EnvVar,
+  EnvVarScope,
+  EnvVarChangeResult,
+  WebhookSettings,
+  WebhookDelivery,
+  WebhookPingResult,
+  DeployKey,
+  ContainerLogLine,
+  ContainerLogQuery,
+  Plan,
+  ResourceLimits,
+  ReplicaState,
+  BuildMethod,
+  BuildPlan
 } from '../types';
 
 // APIのベースURL
@@ -59,6 +73,61 @@ apiClient.interceptors.request.use((config) => {
   return config;
 });
 
+// Server-Sent Eventsのストリームを読み取り、イベントごとにコールバックを呼ぶ
+// EventSourceは認証ヘッダーを送れないため、fetchでストリームを読み取る
+const readEventStream = async (
+  path: string,
+  onEvent: (event: string, payload: any) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`${API_URL}${path}`, {
+    headers: {
+      'Accept': 'text/event-stream',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let message = `ストリームを開始できませんでした (${response.status})`;
+    try {
+      const data = await response.json();
+      if (data.message) message = data.message;
+    } catch (e) {
+      // JSON以外のレスポンスはステータスコードのみ表示
+    }
+    throw new Error(message);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // イベントは空行で区切られる
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) {
+        onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+};
+
 // 認証関連のAPI
 export const authApi = {
   // ユーザー登録
@@ -124,8 +193,9 @@ export const appsApi = {
   },
 
   // アプリ詳細取得
-  getApp: async (id: string): Promise<{ app: App; deployments: Deploy[]; environment: EnvVar[] }> => {
-    const response = await apiClient.get<{ app: App; deployments: Deploy[]; environment: EnvVar[] }>(`/api/apps/${id}`);
+  // planとresourcesはアプリに適用されるプランと実際のリソース制限
+  getApp: async (id: string): Promise<{ app: App; deployments: Deploy[]; environment: EnvVar[]; plan?: Plan | null; resources?: ResourceLimits; nodeVersions?: number[] }> => {
+    const response = await apiClient.get<{ app: App; deployments: Deploy[]; environment: EnvVar[]; plan?: Plan | null; resources?: ResourceLimits; nodeVersions?: number[] }>(`/api/apps/${id}`);
     
     // バックエンドのプロパティ名をフロントエンドの形式に変換
     if (response.data.app) {
@@ -137,6 +207,11 @@ export const appsApi = {
         console.log('バックエンドのcontainer_idをcontainerIdに変換しました:', appData.container_id);
       }
       
+      // auto_deployをautoDeployに変換
+      if (appData.auto_deploy !== undefined && appData.autoDeploy === undefined) {
+        appData.autoDeploy = appData.auto_deploy;
+      }
+      
       // 日付フィールドの変換
       if (appData.last_deployed_at && !appData.lastDeployedAt) {
         appData.lastDeployedAt = appData.last_deployed_at;
@@ -217,12 +292,15 @@ export const appsApi = {
     name: string;
     repository: string;
     branch: string;
-    buildMethod?: 'auto' | 'dockerfile' | 'nextjs';
+    buildMethod?: BuildMethod;
+    // モノレポの場合のアプリのディレクトリ（リポジトリのルートからの相対パス）
+    rootDirectory?: string;
     domainType?: 'auto' | 'custom';
     customDomain?: string;
     envVars?: EnvVar[];
-  }): Promise<{ message: string; app: App }> => {
-    const response = await apiClient.post<{ message: string; app: App }>('/api/apps', appData);
+    autoDeploy?: boolean;
+  }): Promise<{ message: string; app: App; warning?: string }> => {
+    const response = await apiClient.post<{ message: string; app: App; warning?: string }>('/api/apps', appData);
     return response.data;
   },
 
@@ -232,15 +310,35 @@ export const appsApi = {
     updateData: {
       name?: string;
       branch?: string;
-      buildMethod?: 'auto' | 'dockerfile' | 'nextjs';
+      buildMethod?: BuildMethod;
+      // nullを指定するとプロジェクトの指定から自動で選ぶ
+      nodeVersion?: string | null;
+      // リポジトリのルートからの相対パス（nullを指定すると既定値に戻る）
+      rootDirectory?: string | null;
+      dockerfilePath?: string | null;
+      buildContext?: string | null;
       domainType?: 'auto' | 'custom';
       customDomain?: string;
       autoDeploy?: boolean;
       repository?: string;
       envVars?: EnvVar[];
+      // nullを指定した項目は既定値に戻る
+      healthCheck?: {
+        path?: string | null;
+        expectedStatus?: number | null;
+        timeoutMs?: number | null;
+        retries?: number | null;
+        startPeriodMs?: number | null;
+      };
+      // プランの上限まで設定できる（nullを指定した項目は既定値に戻る）
+      resources?: {
+        memoryMb?: number | null;
+        cpus?: number | null;
+        pidsLimit?: number | null;
+      };
     }
-  ): Promise<{ message: string; app: App }> => {
-    const response = await apiClient.put<{ message: string; app: App }>(`/api/apps/${id}`, updateData);
+  ): Promise<{ message: string; app: App; warning?: string }> => {
+    const response = await apiClient.put<{ message: string; app: App; warning?: string }>(`/api/apps/${id}`, updateData);
     return response.data;
   },
 
@@ -264,12 +362,72 @@ export const appsApi = {
   },
   
   // コンテナログの取得
-  getContainerLogs: async (id: string): Promise<{ logs: string }> => {
-    const response = await apiClient.get<{ logs: string }>(`/api/apps/${id}/logs`);
+  getContainerLogs: async (id: string, query: ContainerLogQuery = {}): Promise<{ logs: string; lines: ContainerLogLine[] }> => {
+    const response = await apiClient.get<{ logs: string; lines: ContainerLogLine[] }>(`/api/apps/${id}/logs`, {
+      params: query,
+    });
+    return response.data;
+  },
+
+  // コンテナログを追跡（Server-Sent Events）
+  // コンテナが停止するか、signalで中断されるまで新しい行を受け取る
+  streamContainerLogs: async (
+    id: string,
+    query: ContainerLogQuery,
+    handlers: { onLine: (line: ContainerLogLine) => void; onEnd?: () => void },
+    signal?: AbortSignal
+  ): Promise<void> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    await readEventStream(`/api/apps/${id}/logs/stream?${params.toString()}`, (event, payload) => {
+      if (event === 'log') handlers.onLine(payload);
+      else if (event === 'end') handlers.onEnd?.();
+    }, signal);
+  },
+
+  // レプリカごとのコンテナの状態を取得
+  getReplicas: async (id: string): Promise<{ replicas: number; containers: ReplicaState[] }> => {
+    const response = await apiClient.get<{ replicas: number; containers: ReplicaState[] }>(`/api/apps/${id}/replicas`);
+    return response.data;
+  },
+
+  // レプリカ数を変更（実行中のアプリは再デプロイせずにコンテナを増減する）
+  scaleApp: async (id: string, replicas: number): Promise<{ message: string; app: App; containers: ReplicaState[] }> => {
+    const response = await apiClient.put<{ message: string; app: App; containers: ReplicaState[] }>(`/api/apps/${id}/replicas`, { replicas });
+    return response.data;
+  },
+
+  // デプロイキー（SSH）を作成してリポジトリに登録
+  createDeployKey: async (id: string): Promise<{ message: string; deploy_key: DeployKey; app: App }> => {
+    const response = await apiClient.post<{ message: string; deploy_key: DeployKey; app: App }>(`/api/apps/${id}/deploy-key`);
+    return response.data;
+  },
+
+  // デプロイキーを削除
+  deleteDeployKey: async (id: string): Promise<{ message: string; app: App }> => {
+    const response = await apiClient.delete<{ message: string; app: App }>(`/api/apps/${id}/deploy-key`);
+    return response.data;
+  },
+
+  // ビルドキャッシュを削除（次回のデプロイはキャッシュなしでビルドされる）
+  clearBuildCache: async (id: string): Promise<{ message: string; app: App }> => {
+    const response = await apiClient.delete<{ message: string; app: App }>(`/api/apps/${id}/build-cache`);
     return response.data;
   },
 };
 
+// デプロイログのストリームで受け取るイベント
+export interface DeployLogStreamHandlers {
+  onLog: (text: string) => void;
+  onReset?: () => void;
+  onStatus?: (status: Deploy['status']) => void;
+  onEnd?: (status: Deploy['status']) => void;
+  onError?: (message: string) => void;
+}
+
 // デプロイ関連のAPI
 export const deploysApi = {
   // デプロイ履歴取得
@@ -419,6 +577,56 @@ export const deploysApi = {
     );
     return response.data;
   },
+
+  // デプロイをキャンセル
+  cancelDeploy: async (
+    appId: string,
+    deployId: string
+  ): Promise<{ message: string; deploy: Pick<Deploy, 'id' | 'status' | 'cancel_requested_at'> }> => {
+    const response = await apiClient.post<{ message: string; deploy: Pick<Deploy, 'id' | 'status' | 'cancel_requested_at'> }>(
+      `/api/deploys/app/${appId}/deploy/${deployId}/cancel`
+    );
+    return response.data;
+  },
+
+  // 過去の成功したデプロイにロールバック（ビルドせずに保存済みのイメージを使う）
+  rollbackDeploy: async (
+    appId: string,
+    deployId: string
+  ): Promise<{ message: string; deploy: Pick<Deploy, 'id' | 'status' | 'rollback_of' | 'created_at'> }> => {
+    const response = await apiClient.post<{ message: string; deploy: Pick<Deploy, 'id' | 'status' | 'rollback_of' | 'created_at'> }>(
+      `/api/deploys/app/${appId}/deploy/${deployId}/rollback`
+    );
+    return response.data;
+  },
+
+  // デプロイログをストリーミングで取得（Server-Sent Events）
+  streamDeployLogs: async (
+    appId: string,
+    deployId: string,
+    handlers: DeployLogStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<void> => {
+    await readEventStream(`/api/deploys/app/${appId}/deploy/${deployId}/logs/stream`, (event, payload) => {
+      switch (event) {
+        case 'log':
+          handlers.onLog(payload.text);
+          break;
+        case 'reset':
+          handlers.onReset?.();
+          break;
+        case 'status':
+          handlers.onStatus?.(payload.status);
+          break;
+        case 'end':
+          handlers.onEnd?.(payload.status);
+          break;
+        case 'error':
+          handlers.onError?.(payload.message);
+          break;
+      }
+    }, signal);
+  },
 };
 
 // ドメイン関連のAPI
@@ -513,6 +721,32 @@ export const githubApi = {
     }
   },
   
+  // リポジトリ内のデプロイできるアプリの候補を取得
+  getProjects: async (repoName: string, branch: string): Promise<RepositoryProject[]> => {
+    if (isDevelopmentMode()) {
+      return [];
+    }
+
+    const response = await apiClient.get<{ projects: RepositoryProject[] }>(
+      `/api/github/repositories/${encodeURIComponent(repoName)}/projects`,
+      { params: { branch } }
+    );
+    return response.data.projects;
+  },
+
+  // リポジトリを解析したbuildpackのビルドプランを取得（言語を判定できない場合はnull）
+  getBuildPlan: async (repoName: string, branch: string, rootDirectory: string = ''): Promise<BuildPlan | null> => {
+    if (isDevelopmentMode()) {
+      return null;
+    }
+
+    const response = await apiClient.get<{ plan: BuildPlan | null }>(
+      `/api/github/repositories/${encodeURIComponent(repoName)}/build-plan`,
+      { params: { branch, rootDirectory: rootDirectory || undefined } }
+    );
+    return response.data.plan;
+  },
+  
   // GitHubアカウントとの連携状態を確認
   checkGithubConnection: async (): Promise<boolean> => {
     try {
@@ -530,7 +764,25 @@ export const githubApi = {
       }
       throw error;
     }
-  }
+  },
+
+  // アプリのWebhook設定（URLとシークレット）を取得
+  getWebhookSettings: async (appId: string): Promise<WebhookSettings> => {
+    const response = await apiClient.get<{ webhook: WebhookSettings }>(`/api/github/apps/${appId}/webhook`);
+    return response.data.webhook;
+  },
+
+  // アプリのWebhook配信ログを取得
+  getWebhookDeliveries: async (appId: string): Promise<WebhookDelivery[]> => {
+    const response = await apiClient.get<{ deliveries: WebhookDelivery[] }>(`/api/github/apps/${appId}/webhook/deliveries`);
+    return response.data.deliveries;
+  },
+
+  // GitHubからWebhookにpingを送信させる
+  pingWebhook: async (appId: string): Promise<WebhookPingResult> => {
+    const response = await apiClient.post<WebhookPingResult>(`/api/github/apps/${appId}/webhook/ping`);
+    return response.data;
+  },
 };
 
 // 開発モードかどうかを判断する
@@ -614,9 +866,24 @@ export const environmentApi = {
     return response.data.environment;
   },
 
+  // Get a single environment variable (reveal=true returns the value of a secret)
+  getEnvironmentVariable: async (appId: string, envVarId: string, reveal: boolean = false): Promise<EnvVar> => {
+    const response = await apiClient.get<{ environment: EnvVar }>(`/api/apps/${appId}/environment/${envVarId}`, {
+      params: reveal ? { reveal: true } : {},
+    });
+    return response.data.environment;
+  },
+
   // Add environment variable
-  addEnvironmentVariable: async (appId: string, envVar: { key: string; value: string }): Promise<EnvVar> => {
-    const response = await apiClient.post<{ environment: EnvVar }>(`/api/apps/${appId}/environment`, envVar);
+  // restart=trueの場合、実行時の環境変数はビルドせずにコンテナを起動し直して反映する
+  addEnvironmentVariable: async (
+    appId: string,
+    envVar: { key: string; value: string; scope?: EnvVarScope; isSecret?: boolean },
+    restart: boolean = false
+  ): Promise<EnvVarChangeResult> => {
+    const response = await apiClient.post<EnvVarChangeResult>(`/api/apps/${appId}/environment`, envVar, {
+      params: restart ? { restart: true } : {},
+    });
     
     // レスポンスデータの変換
     if (response.data.environment) {
@@ -633,12 +900,27 @@ export const environmentApi = {
       }
     }
     
-    return response.data.environment;
+    return response.data;
+  },
+
+  // Update environment variable (only the given fields are changed)
+  updateEnvironmentVariable: async (
+    appId: string,
+    envVarId: string,
+    envVar: { key?: string; value?: string; scope?: EnvVarScope; isSecret?: boolean },
+    restart: boolean = false
+  ): Promise<EnvVarChangeResult> => {
+    const response = await apiClient.put<EnvVarChangeResult>(`/api/apps/${appId}/environment/${envVarId}`, envVar, {
+      params: restart ? { restart: true } : {},
+    });
+    return response.data;
   },
 
   // Delete environment variable
-  deleteEnvironmentVariable: async (appId: string, envVarId: string): Promise<{ message: string }> => {
-    const response = await apiClient.delete<{ message: string }>(`/api/apps/${appId}/environment/${envVarId}`);
+  deleteEnvironmentVariable: async (appId: string, envVarId: string, restart: boolean = false): Promise<EnvVarChangeResult> => {
+    const response = await apiClient.delete<EnvVarChangeResult>(`/api/apps/${appId}/environment/${envVarId}`, {
+      params: restart ? { restart: true } : {},
+    });
     return response.data;
   },
 };
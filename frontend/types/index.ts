@@ -9,6 +9,35 @@ export interface User {
   updatedAt?: string;
 }
 
+// Dockerfileを生成するビルド戦略
+export type BuildStrategyName = 'nextjs' | 'remix' | 'astro' | 'nestjs' | 'static' | 'node' | 'buildpack';
+
+// アプリのビルド方法（autoはプロジェクトに合うビルド戦略を選ぶ）
+export type BuildMethod = 'auto' | 'dockerfile' | BuildStrategyName;
+
+// 環境変数を使う場面（build: ビルド時のみ、runtime: 実行時のみ、both: 両方）
+export type EnvVarScope = 'build' | 'runtime' | 'both';
+
+// buildpackで判定する言語（customは設定ファイルでイメージとコマンドを指定したもの）
+export type BuildpackLanguage = 'node' | 'python' | 'go' | 'ruby' | 'custom';
+
+// buildpackでDockerfileを生成するためのビルドプラン
+export interface BuildPlan {
+  language: BuildpackLanguage;
+  // 言語を判定した根拠
+  reason: string;
+  image: string;
+  install_files: string[];
+  install: string | null;
+  build: string | null;
+  // 起動コマンド（判定できなかった場合はnull）
+  start: string | null;
+  port: number;
+  // 設定ファイル（nextdock.json）と、そこで指定された項目
+  config_file: string | null;
+  overrides: string[];
+}
+
 // アプリケーション関連の型定義
 export interface App {
   id: string;
@@ -23,8 +52,36 @@ export interface App {
   containerId?: string;
   container_id?: string;
   userId: string;
-  buildMethod: 'auto' | 'dockerfile' | 'nextjs';
+  buildMethod: BuildMethod;
   autoDeploy: boolean;
+  deploy_key_id?: number | null;
+  deploy_key_public?: string | null;
+  current_deploy_id?: string | null;
+  health_check_path?: string | null;
+  health_check_expected_status?: number | null;
+  health_check_timeout_ms?: number | null;
+  health_check_retries?: number | null;
+  health_check_start_period_ms?: number | null;
+  memory_limit_mb?: number | null;
+  cpu_limit?: number | null;
+  pids_limit?: number | null;
+  replicas?: number | null;
+  container_ids?: string[] | null;
+  // コンテナの状態（すべてのレプリカの再起動回数の合計と最後の終了）
+  restart_count?: number | null;
+  last_exit_code?: number | null;
+  last_exit_reason?: string | null;
+  last_exited_at?: string | null;
+  status_checked_at?: string | null;
+  build_cache_key?: string | null;
+  // 次回のビルドでレイヤーキャッシュを使わない
+  build_no_cache?: boolean | null;
+  // 生成するDockerfileで使うNode.jsのバージョン（nullはプロジェクトの指定から自動で選ぶ）
+  node_version?: string | null;
+  // モノレポ向けの設定（いずれもリポジトリのルートからの相対パス。nullは既定値）
+  root_directory?: string | null;
+  dockerfile_path?: string | null;
+  build_context?: string | null;
   lastDeployedAt?: string;
   createdAt: string;
   updatedAt?: string;
@@ -34,7 +91,8 @@ export interface App {
 export interface Deploy {
   id: string;
   appId: string;
-  status: 'pending' | 'in_progress' | 'success' | 'failed';
+  status: 'pending' | 'in_progress' | 'success' | 'failed' | 'skipped' | 'cancelled';
+  trigger?: 'manual' | 'webhook' | 'rollback' | 'restart';
   logs?: string;
   commitHash?: string;
   commitMessage?: string;
@@ -42,6 +100,74 @@ export interface Deploy {
   createdAt: string;
   completedAt?: string;
   duration?: string;
+  image_tag?: string | null;
+  image_removed_at?: string | null;
+  rollback_of?: string | null;
+  health_check?: HealthCheckResult | null;
+  // イメージのビルドにかかった時間（ビルドしなかった場合はnull）
+  build_duration_ms?: number | null;
+  build_cache_from?: string | null;
+  // Dockerfileがないリポジトリ向けに生成したDockerfileと、選んだビルド戦略、検出したパッケージマネージャー
+  dockerfile?: string | null;
+  build_strategy?: BuildStrategyName | null;
+  package_manager?: 'npm' | 'yarn' | 'pnpm' | 'bun' | null;
+  node_version?: string | null;
+  // ビルドしたイメージのサイズ（バイト数）
+  image_size_bytes?: number | null;
+  stages?: DeployStageResult[];
+}
+
+// コンテナのリソース制限
+export interface ResourceLimits {
+  memory_mb: number;
+  cpus: number;
+  pids_limit: number | null;
+}
+
+// レプリカごとのコンテナの状態
+export interface ReplicaState {
+  index: number;
+  container_id: string;
+  name: string | null;
+  // Dockerのコンテナの状態（running, exited, restartingなど）。コンテナが存在しない場合はmissing
+  state: string;
+  running: boolean;
+  started_at?: string;
+  restart_count?: number;
+}
+
+// 管理者が定義するプラン（上限がnullの項目は制限なし）
+export interface Plan {
+  id: string;
+  name: string;
+  max_memory_mb: number | null;
+  max_cpus: number | null;
+  max_pids: number | null;
+  is_default: boolean;
+}
+
+// ヘルスチェックの結果
+export interface HealthCheckResult {
+  status: 'passed' | 'failed';
+  path: string;
+  expected_status: number | null;
+  attempts: number;
+  status_code?: number;
+  response_time_ms?: number;
+  error?: string;
+  started_at: string;
+  finished_at: string;
+}
+
+// デプロイパイプラインのステージ結果
+export interface DeployStageResult {
+  stage: 'clone' | 'detect' | 'build' | 'release' | 'verify';
+  status: 'success' | 'failed' | 'skipped' | 'cancelled';
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  output?: Record<string, any>;
+  error?: string;
 }
 
 // ドメイン関連の型定義
@@ -60,9 +186,20 @@ export interface EnvVar {
   id?: string;
   key: string;
   value: string;
+  // 省略時はboth
+  scope?: EnvVarScope;
+  // シークレットの値はマスクされる（表示するには個別に取得する）
+  is_secret?: boolean;
   appId?: string;
 }
 
+// 環境変数の追加・更新・削除の結果（restartを指定した場合は再起動のデプロイ）
+export interface EnvVarChangeResult {
+  message: string;
+  environment?: EnvVar;
+  deploy: (Pick<Deploy, 'id' | 'status' | 'trigger'> & { created_at: string }) | null;
+}
+
 // 認証関連のレスポンス型
 export interface AuthResponse {
   message: string;
@@ -95,3 +232,77 @@ export interface GithubBranch {
   name: string;
   commit: string;
 }
+
+// リポジトリ内で見つかったデプロイできるアプリ（モノレポのルートディレクトリの候補）
+export interface RepositoryProject {
+  // リポジトリのルートからの相対パス（ルートは空文字）
+  root_directory: string;
+  name: string | null;
+  framework: 'nextjs' | null;
+  dockerfile_path: string | null;
+}
+
+// Webhook設定の型定義
+export interface WebhookSettings {
+  url: string;
+  secret: string;
+  content_type: string;
+  events: string[];
+  hook_id: number | null;
+  registered: boolean;
+}
+
+// Webhook配信ログの型定義
+export interface WebhookDelivery {
+  id: string;
+  app_id: string;
+  delivery_id: string;
+  event: string;
+  // processingは処理中（処理を始める前に記録し、処理が終わると結果で更新する）
+  result: 'processing' | 'processed' | 'ignored' | 'rejected' | 'duplicate' | 'error';
+  message?: string;
+  deploy_id?: string;
+  created_at: string;
+}
+
+// Webhookのpingテスト結果の型定義
+export interface WebhookPingResult {
+  hook: {
+    id: number;
+    active: boolean;
+    last_response: {
+      code: number | null;
+      status: string | null;
+      message: string | null;
+    };
+    updated_at: string;
+  };
+  delivery: WebhookDelivery | null;
+}
+
+// デプロイキー（SSH）の型定義
+export interface DeployKey {
+  id: number;
+  public_key: string;
+  fingerprint: string;
+}
+
+// コンテナログの1行
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  timestamp?: string;
+  // 複数のレプリカのログをまとめたときのレプリカ番号
+  replica?: number;
+}
+
+// コンテナログの取得条件
+export interface ContainerLogQuery {
+  tail?: number | 'all';
+  // UNIXタイムスタンプ、ISO 8601形式の日時、または相対時間（例: 10m, 1h）
+  since?: string;
+  stdout?: boolean;
+  stderr?: boolean;
+  timestamps?: boolean;
+  filter?: string;
+}